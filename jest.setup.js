@@ -1,19 +1,26 @@
 import '@testing-library/jest-dom'
 
-// Mock matchMedia
-Object.defineProperty(window, 'matchMedia', {
-  writable: true,
-  value: jest.fn().mockImplementation(query => ({
-    matches: false,
-    media: query,
-    onchange: null,
-    addListener: jest.fn(), // deprecated
-    removeListener: jest.fn(), // deprecated
-    addEventListener: jest.fn(),
-    removeEventListener: jest.fn(),
-    dispatchEvent: jest.fn(),
-  })),
-})
+// Browser-only mocks; suites can opt into the node environment with @jest-environment node
+if (typeof window !== 'undefined') {
+  // Mock matchMedia
+  Object.defineProperty(window, 'matchMedia', {
+    writable: true,
+    value: jest.fn().mockImplementation(query => ({
+      matches: false,
+      media: query,
+      onchange: null,
+      addListener: jest.fn(), // deprecated
+      removeListener: jest.fn(), // deprecated
+      addEventListener: jest.fn(),
+      removeEventListener: jest.fn(),
+      dispatchEvent: jest.fn(),
+    })),
+  })
+
+  // Server modules that parse HTML with the jsdom library need these, which the jsdom environment lacks
+  const { TextEncoder, TextDecoder } = require('util')
+  Object.assign(global, { TextEncoder, TextDecoder })
+}
 
 // Mock IntersectionObserver
 global.IntersectionObserver = class IntersectionObserver {
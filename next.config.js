@@ -2,6 +2,8 @@
 const nextConfig = {
   experimental: {
     typedRoutes: true,
+    // pdf-parse loads pdf.js with dynamic requires that the server bundler cannot follow
+    serverComponentsExternalPackages: ['pdf-parse'],
   },
   images: {
     formats: ['image/webp', 'image/avif'],
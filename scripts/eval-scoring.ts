@@ -0,0 +1,52 @@
+/**
+ * Offline evaluation of scoring profiles against a labeled set of
+ * (applicant profile, scholarship, relevant?) pairs.
+ *
+ *   npm run eval:scoring -- [--data fixtures/scoring/labeled-pairs.json] [--profiles default,eligibility-first] [--k 5]
+ *
+ * Prints mean NDCG@k and precision@k per scoring profile; `--verbose` adds each query's ranking.
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+import { DEFAULT_SCORING_EVAL_PATH, evaluateScoringProfiles } from '@/lib/scoring/scoringEval';
+import { getScoringProfile, loadScoringProfiles } from '@/lib/scoring/scoringProfiles';
+
+function readFlag(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+async function main(args: string[]): Promise<void> {
+  const dataFile = readFlag(args, 'data') || DEFAULT_SCORING_EVAL_PATH;
+  const k = parseInt(readFlag(args, 'k') || '5', 10);
+  if (!Number.isInteger(k) || k < 1) {
+    throw new Error('--k must be a positive integer');
+  }
+  const names = readFlag(args, 'profiles')?.split(',').map(name => name.trim()).filter(Boolean)
+    ?? Object.keys(loadScoringProfiles());
+
+  const data = JSON.parse(await fs.readFile(path.resolve(dataFile), 'utf8'));
+  const results = evaluateScoringProfiles(data, names.map(name => getScoringProfile(name)), k);
+
+  console.log(`${dataFile}: ${results[0]?.queries ?? 0} applicant profiles\n`);
+  console.table(results.map(result => ({
+    profile: result.profile,
+    [`ndcg@${k}`]: Number(result.ndcg.toFixed(4)),
+    [`precision@${k}`]: Number(result.precision.toFixed(4)),
+  })));
+
+  if (args.includes('--verbose')) {
+    for (const result of results) {
+      console.log(`\n${result.profile}`);
+      for (const query of result.perQuery) {
+        console.log(`  ${query.query}: ndcg ${query.ndcg.toFixed(4)}, precision ${query.precision.toFixed(4)}`);
+        console.log(`    ${query.ranking.join(' > ') || '(no eligible results)'}`);
+      }
+    }
+  }
+}
+
+main(process.argv.slice(2)).catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
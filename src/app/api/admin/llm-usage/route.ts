@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getUsageLedger } from '../../../../lib/llm'
+
+const UsageQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(30).default(7),
+  feature: z.string().optional(),
+  records: z.coerce.number().int().min(0).max(500).default(20)
+})
+
+// Admin authentication middleware (simplified)
+function isAuthorizedAdmin(request: NextRequest): boolean {
+  const authHeader = request.headers.get('authorization')
+  const adminKey = process.env.ADMIN_API_KEY
+
+  if (!adminKey) {
+    console.warn('ADMIN_API_KEY not configured')
+    return false
+  }
+
+  return authHeader === `Bearer ${adminKey}`
+}
+
+// GET /api/admin/llm-usage - LLM token spend and budgets per feature
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedAdmin(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized. Admin access required.' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { days, feature, records } = UsageQuerySchema.parse({
+      days: searchParams.get('days') ?? undefined,
+      feature: searchParams.get('feature') ?? undefined,
+      records: searchParams.get('records') ?? undefined
+    })
+
+    const ledger = getUsageLedger()
+    const history = Array.from({ length: days }, (_, index) => {
+      const day = new Date(Date.now() - index * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+      const summary = ledger.summarize(day)
+      if (!feature) return summary
+
+      const features = summary.features.filter(f => f.feature === feature)
+      return {
+        ...summary,
+        requests: features.reduce((sum, f) => sum + f.requests, 0),
+        totalTokens: features.reduce((sum, f) => sum + f.totalTokens, 0),
+        costUsd: features.reduce((sum, f) => sum + f.costUsd, 0),
+        features
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        today: history[0],
+        history,
+        totals: {
+          requests: history.reduce((sum, day) => sum + day.requests, 0),
+          totalTokens: history.reduce((sum, day) => sum + day.totalTokens, 0),
+          costUsd: Math.round(history.reduce((sum, day) => sum + day.costUsd, 0) * 1_000_000) / 1_000_000
+        },
+        recentRecords: ledger.getRecords({ feature, limit: records }),
+        timestamp: new Date().toISOString()
+      }
+    })
+  } catch (error) {
+    console.error('LLM usage API error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid query parameters',
+          details: error.issues
+        },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to get LLM usage',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,20 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
-import { GeminiAIService } from '@/lib/services/geminiAI'
+import { getGeminiAIService } from '@/lib/services/geminiAI'
+import { toUserProfile } from '@/lib/profile/userProfile'
 import { logger } from '@/lib/utils/logger'
 
 // Recommendation request schema
 const RecommendationRequestSchema = z.object({
-  profile: z.object({
-    nationality: z.string(),
-    degreeTarget: z.enum(['bachelor', 'master', 'phd', 'postdoc']),
-    fieldKeywords: z.array(z.string()),
-    specialStatus: z.array(z.string()).optional().default([]),
-    gpa: z.number().optional(),
-    languageTests: z.record(z.string(), z.any()).optional(),
-    publications: z.number().optional(),
-    workExperience: z.number().optional()
-  }),
+  // Canonical or legacy (`fieldKeywords`, numeric `gpa`) profile
+  profile: z.unknown().transform(toUserProfile),
   scholarships: z.array(z.object({
     id: z.string(),
     name: z.string(),
@@ -46,9 +39,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate required profile fields
-    const requiredFields = ['nationality', 'degreeTarget', 'fieldKeywords'] as const
+    const requiredFields = ['nationality', 'degreeTarget', 'fields'] as const
     for (const field of requiredFields) {
-      if (!profile[field as keyof typeof profile]) {
+      if (profile[field].length === 0) {
         return NextResponse.json(
           { error: `Profile ${field} is required` },
           { status: 400 }
@@ -64,7 +57,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const geminiService = new GeminiAIService()
+    const geminiService = getGeminiAIService()
 
     switch (type) {
       case 'ranking':
@@ -183,7 +176,7 @@ export async function POST(request: NextRequest) {
 // Get AI service status and usage
 export async function GET() {
   try {
-    const geminiService = new GeminiAIService()
+    const geminiService = getGeminiAIService()
     const [usageStats, healthCheck] = await Promise.all([
       geminiService.getUsageStats(),
       geminiService.healthCheck()
@@ -2,9 +2,10 @@ import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { logger } from '@/lib/utils/logger'
 import { geminiAI } from '@/lib/services/geminiAI' // Import geminiAI
-
-// Install these packages: npm install pdf-parse multer zod
-// For now, we'll simulate the CV parsing functionality
+import { fromCVEntities } from '@/lib/profile/userProfile'
+import { ExtractedField, extractCVFields, mergeCVExtraction } from '@/lib/profile/cvExtraction'
+import { extractDocumentText, ScannedDocumentError, UnsupportedDocumentError } from '@/lib/documents/documentText'
+import type { UserProfile } from '@/types/profile'
 
 const CVParseSchema = z.object({
   extractionOptions: z.object({
@@ -16,56 +17,25 @@ const CVParseSchema = z.object({
   }).optional()
 })
 
-interface ExtractedField {
-  field: string
-  value: string | number
-  confidence: number
-  source: string
-}
-
 interface CVParseResult {
-  profile: {
-    nationality?: string
-    degreeTarget?: string
-    fieldKeywords: string[]
-    gpa?: number
-    languageTests?: Record<string, any>
-    publications?: number
-    workExperience?: number
-    specialStatus: string[]
-  }
+  profile: UserProfile
   confidence: number
   extractedFields: ExtractedField[]
   suggestions: string[]
 }
 
-// Simulate CV text extraction and parsing
+// Read profile facts with rules and with the LLM, and merge them
 async function parseCV(cvText: string): Promise<CVParseResult> {
-  // In a real implementation, this would:
-  // 1. Extract text from PDF using pdf-parse or similar
-  // 2. Use NLP/regex to extract structured data
-  // 3. Apply confidence scoring
-
-  const extractedData = await geminiAI.geminiNER(cvText);
-
-  // Map extracted data to CVParseResult
-  const result: CVParseResult = {
-    profile: {
-      nationality: extractedData?.nationality || 'Unknown',
-      degreeTarget: extractedData?.degree || 'Unknown',
-      fieldKeywords: extractedData?.field_keywords || [],
-      gpa: extractedData?.gpa,
-      languageTests: extractedData?.language_proofs ? Object.fromEntries(extractedData.language_proofs.map((lp: string) => lp.split(' '))) : undefined,
-      publications: undefined, // Gemini NER might not extract this
-      workExperience: extractedData?.work_years,
-      specialStatus: [], // Gemini NER might not extract this
-    },
-    confidence: 0.7, // Default confidence, can be refined
-    extractedFields: [], // Populate from extractedData if needed
-    suggestions: [], // Populate from extractedData if needed
-  };
-
-  return result;
+  const ruleFields = extractCVFields(cvText)
+  const entities = await geminiAI.geminiNER(cvText)
+  const { fields, entities: merged, confidence, suggestions } = mergeCVExtraction(ruleFields, entities)
+
+  return {
+    profile: fromCVEntities(merged), // Facts the CV does not state are left empty
+    confidence,
+    extractedFields: fields,
+    suggestions,
+  }
 }
 
 export async function POST(request: NextRequest) {
@@ -121,12 +91,39 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Convert file to text
-    const fileBuffer = Buffer.from(await file.arrayBuffer());
-    const cvText = fileBuffer.toString('utf-8'); // Assuming text-based CVs (PDF/DOCX converted to text)
+    // Extract the text locally; only text is sent on to the model
+    let document
+    try {
+      document = await extractDocumentText(await file.arrayBuffer(), file.type, file.name)
+    } catch (error) {
+      if (error instanceof ScannedDocumentError) {
+        return NextResponse.json(
+          { error: 'This PDF appears to be scanned or image-only, so no text could be read. Please upload a text-based PDF or a Word document.' },
+          { status: 422 }
+        )
+      }
+      if (error instanceof UnsupportedDocumentError) {
+        return NextResponse.json(
+          { error: 'Legacy .doc files cannot be read. Please save the CV as PDF or DOCX and upload it again.' },
+          { status: 415 }
+        )
+      }
+      logger.warn('CV text extraction failed', { fileName: file.name, error: error instanceof Error ? error.message : String(error) })
+      return NextResponse.json(
+        { error: 'File appears to be corrupted or invalid' },
+        { status: 422 }
+      )
+    }
+
+    if (!document.text) {
+      return NextResponse.json(
+        { error: 'No text found in the document' },
+        { status: 422 }
+      )
+    }
 
     // Parse the CV
-    const result = await parseCV(cvText);
+    const result = await parseCV(document.text);
 
     // Validate parsed data
     if (!result || typeof result !== 'object') {
@@ -143,6 +140,10 @@ export async function POST(request: NextRequest) {
         fileName: file.name,
         fileSize: file.size,
         fileType: file.type,
+        extractionMethod: document.method,
+        textLength: document.text.length,
+        ...(document.pageCount !== undefined && { pageCount: document.pageCount }),
+        ...(document.sectionCount !== undefined && { sectionCount: document.sectionCount }),
         processedAt: new Date().toISOString()
       }
     })
@@ -178,6 +179,7 @@ export async function GET() {
     version: '1.0.0',
     capabilities: [
       'PDF text extraction',
+      'DOCX text extraction',
       'Education information parsing',
       'Skills extraction',
       'Experience calculation',
@@ -1,116 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { cache, cacheKeys } from '../../../../lib/cache/redis'
-import type { Scholarship } from '../../../../types/database'
+import { ScholarshipRepository } from '../../../../lib/repositories'
 import { logger } from '../../../../lib/utils/logger'
 
-// Mock scholarship details (in real app, this would come from database)
-const mockScholarshipDetails: Record<string, Scholarship & { 
-  fullDescription: string
-  applicationProcess: string[]
-  selectionCriteria: string[]
-  benefits: string[]
-  contactInfo: {
-    email?: string
-    website: string
-    phone?: string
-  }
-}> = {
-  '1': {
-    id: '1',
-    name: 'DAAD Graduate School Scholarship',
-    sourceUrl: 'https://www.daad.de/en/study-and-research-in-germany/scholarships/',
-    domain: 'daad.de',
-    country: 'Germany',
-    degreeLevels: ['master', 'phd'],
-    fields: ['computer science', 'engineering', 'natural sciences'],
-    deadline: new Date('2024-10-31'),
-    stipend: 1200,
-    tuitionCovered: true,
-    travelSupport: true,
-    eligibilityText: 'Open to international students with excellent academic records',
-    requirements: ['Bachelor degree', 'English proficiency', 'Research proposal'],
-    tags: ['fully-funded', 'international', 'research'],
-    confidence: 0.95,
-    createdAt: new Date(),
-    updatedAt: new Date(),
-    fullDescription: 'The DAAD Graduate School Scholarship supports outstanding international students pursuing graduate studies in Germany. This prestigious program offers comprehensive funding for Master\'s and PhD programs at German universities, with a focus on academic excellence and research potential.',
-    applicationProcess: [
-      'Submit online application through DAAD portal',
-      'Provide academic transcripts and certificates',
-      'Submit research proposal (for PhD applicants)',
-      'Obtain letters of recommendation',
-      'Demonstrate German or English language proficiency',
-      'Attend interview if selected'
-    ],
-    selectionCriteria: [
-      'Academic excellence (minimum GPA 3.5)',
-      'Research potential and motivation',
-      'Language proficiency',
-      'Leadership qualities',
-      'Relevance of proposed study to home country development'
-    ],
-    benefits: [
-      '€1,200 monthly stipend',
-      'Full tuition coverage',
-      'Health insurance',
-      'Travel allowance',
-      'German language course funding',
-      'Research and thesis allowance'
-    ],
-    contactInfo: {
-      email: 'info@daad.de',
-      website: 'https://www.daad.de/en/',
-      phone: '+49 228 882-0'
-    }
-  },
-  '2': {
-    id: '2',
-    name: 'Fulbright Foreign Student Program',
-    sourceUrl: 'https://foreign.fulbrightonline.org/',
-    domain: 'fulbrightonline.org',
-    country: 'United States',
-    degreeLevels: ['master', 'phd'],
-    fields: ['all fields'],
-    deadline: new Date('2024-09-15'),
-    stipend: 2000,
-    tuitionCovered: true,
-    travelSupport: true,
-    eligibilityText: 'Open to citizens of participating countries',
-    requirements: ['Bachelor degree', 'English proficiency', 'Leadership potential'],
-    tags: ['prestigious', 'fully-funded', 'cultural-exchange'],
-    confidence: 0.9,
-    createdAt: new Date(),
-    updatedAt: new Date(),
-    fullDescription: 'The Fulbright Foreign Student Program enables graduate students, young professionals and artists from abroad to study and conduct research in the United States. The program fosters mutual understanding between the people of the United States and other countries through educational exchange.',
-    applicationProcess: [
-      'Apply through your home country Fulbright Commission',
-      'Submit academic transcripts',
-      'Provide statement of purpose',
-      'Obtain three letters of recommendation',
-      'Take required English proficiency tests',
-      'Participate in interviews and selection process'
-    ],
-    selectionCriteria: [
-      'Academic and professional achievement',
-      'Leadership potential',
-      'English language proficiency',
-      'Feasibility of proposed study',
-      'Personal qualities and adaptability'
-    ],
-    benefits: [
-      'Full tuition and fees',
-      'Monthly living stipend ($2,000+)',
-      'Round-trip airfare',
-      'Health insurance',
-      'Cultural enrichment programs',
-      'Professional development opportunities'
-    ],
-    contactInfo: {
-      website: 'https://foreign.fulbrightonline.org/',
-      email: 'fulbright@state.gov'
-    }
-  }
-}
+const scholarshipRepository = new ScholarshipRepository()
 
 export async function GET(
   request: NextRequest,
@@ -127,9 +20,8 @@ export async function GET(
       )
     }
 
-    // Validate ID format (assuming UUID or numeric ID)
-    const isValidId = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id) || /^\d+$/.test(id)
-    if (!isValidId) {
+    // Validate ID format (cuid, UUID, URL hash or prefixed ids such as sch_...)
+    if (!isValidScholarshipId(id)) {
       return NextResponse.json(
         { error: 'Invalid scholarship ID format' },
         { status: 400 }
@@ -137,7 +29,7 @@ export async function GET(
     }
 
     // Check cache first
-    const cacheKey = cacheKeys.scholarshipDetails(id)
+    const cacheKey = cacheKeys.scholarship.details(id)
     const cachedScholarship = await cache.get(cacheKey)
     
     if (cachedScholarship) {
@@ -148,11 +40,8 @@ export async function GET(
       })
     }
 
-    // In a real implementation, this would query the database
-    // const scholarship = await scholarshipRepository.findById(id)
-    
-    const scholarship = mockScholarshipDetails[id]
-    
+    const scholarship = await scholarshipRepository.findById(id)
+
     if (!scholarship) {
       return NextResponse.json(
         { error: 'Scholarship not found' },
@@ -169,12 +58,16 @@ export async function GET(
       )
     }
 
+    // Attach field-level change history, newest first
+    const history = await scholarshipRepository.getHistory(id)
+    const details = { ...scholarship, history }
+
     // Cache the result
-    await cache.set(cacheKey, scholarship, { ttl: 3600 }) // 1 hour
+    await cache.set(cacheKey, details, { ttl: 3600 }) // 1 hour
 
     return NextResponse.json({
       success: true,
-      data: scholarship,
+      data: details,
       cached: false
     })
 
@@ -208,17 +101,33 @@ export async function PUT(
     const { id } = params
     const updates = await request.json()
 
-    // In a real implementation:
-    // 1. Verify admin authentication
-    // 2. Validate update data
-    // 3. Update in database
-    // 4. Invalidate cache
+    // TODO: Verify admin authentication and validate update data
+
+    if (!isValidScholarshipId(id)) {
+      return NextResponse.json(
+        { error: 'Invalid scholarship ID format' },
+        { status: 400 }
+      )
+    }
+
+    const scholarship = await scholarshipRepository.update(id, {
+      ...updates,
+      ...(updates.deadline && updates.deadline !== 'varies' ? { deadline: new Date(updates.deadline) } : {})
+    })
+
+    if (!scholarship) {
+      return NextResponse.json(
+        { error: 'Scholarship not found' },
+        { status: 404 }
+      )
+    }
+
+    await cache.del(cacheKeys.scholarship.details(id))
 
-    // For now, just return success
     return NextResponse.json({
       success: true,
       message: 'Scholarship updated successfully',
-      data: { id, ...updates }
+      data: scholarship
     })
 
   } catch (error) {
@@ -242,13 +151,19 @@ export async function DELETE(
   try {
     const { id } = params
 
-    // In a real implementation:
-    // 1. Verify admin authentication
-    // 2. Delete from database
-    // 3. Invalidate cache
+    // TODO: Verify admin authentication
+
+    // Soft delete so the record can still be audited or restored
+    const deleted = await scholarshipRepository.softDelete(id)
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Scholarship not found' },
+        { status: 404 }
+      )
+    }
 
     // Clear from cache
-    const cacheKey = cacheKeys.scholarshipDetails(id)
+    const cacheKey = cacheKeys.scholarship.details(id)
     await cache.del(cacheKey)
 
     return NextResponse.json({
@@ -267,4 +182,8 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
+
+function isValidScholarshipId(id: string): boolean {
+  return /^[A-Za-z0-9_-]{1,128}$/.test(id)
+}
@@ -1,64 +1,105 @@
-import { NextResponse } from 'next/server';
-import { buildQueries, fanOutCSE } from '@/lib/services/googleSearch';
-import { fetchOfficial } from '@/lib/services/dataIngestion';
-import { geminiAI } from '@/lib/services/geminiAI'; // Keep geminiAI for now, will be used later for extraction
-import { normalizeScholarship } from '@/lib/utils/dataNormalization';
-import { scoreAll } from '@/lib/scoring/eligibilityScoring';
-import { geminiRerank } from '@/lib/scoring/reranking';
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { runSearchPipeline, SearchPipelineEvent, SearchPipelineOptions } from '@/lib/services/searchPipeline';
+import { getScoringProfile, UnknownScoringProfileError } from '@/lib/scoring/scoringProfiles';
+import { toUserProfile } from '@/lib/profile/userProfile';
 
-export async function GET(request: Request) {
+export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
-  const query = searchParams.get('q') || '';
   const limit = parseInt(searchParams.get('limit') || '25', 10);
   const offset = parseInt(searchParams.get('offset') || '0', 10);
-  const profileString = searchParams.get('profile');
-  const userProfile = profileString ? JSON.parse(profileString) : {
-    degreeTarget: '',
-    fields: [],
-    nationality: '',
-    currentCountryOfResidence: '',
-    languageProofs: [],
-    gpaBand: '',
-    graduationYear: '',
-    workResearchYears: '',
-    specialStatuses: [],
-    deadlineWindow: 'Any',
-  };
+
+  // Canonical or legacy profile JSON; a missing profile scores against an empty one
+  let userProfile;
+  try {
+    userProfile = toUserProfile(JSON.parse(searchParams.get('profile') || '{}'));
+  } catch (error) {
+    if (error instanceof ZodError || error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid profile', details: error instanceof ZodError ? error.issues : error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  // Scoring weights can be chosen per request to compare profiles
+  let scoringProfile;
+  try {
+    scoringProfile = getScoringProfile(searchParams.get('scoringProfile') || undefined);
+  } catch (error) {
+    if (error instanceof UnknownScoringProfileError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
 
   // Fetch allowlisted domains
   const domainsResponse = await fetch(`${request.nextUrl.origin}/api/meta/domains`);
   const domainsData = await domainsResponse.json();
   const officialDomains = domainsData.data.domains;
 
-  const queries = buildQueries(userProfile, officialDomains);
-  const searchHits = await fanOutCSE(queries);
+  const options = { userProfile, officialDomains, limit, offset, scoringProfile };
 
-  // Fetch official pages and process with Gemini for extraction
-  const officialPages = await fetchOfficial(searchHits);
-  const extractedScholarships = [];
-  for (const page of officialPages) {
-    const extracted = await geminiAI.geminiExtract(page);
-    if (extracted) {
-      extractedScholarships.push(extracted);
-    }
+  if (wantsEventStream(request)) {
+    return streamSearch(options);
   }
 
-  // Normalize the extracted scholarships
-  const normalizedScholarships = extractedScholarships.map(scholarship => normalizeScholarship(scholarship));
+  const { scholarships, total, skipped, ineligible, scoringProfile: scoringProfileName } = await runSearchPipeline(options);
+  return NextResponse.json({
+    scholarships,
+    total,
+    skipped,
+    ineligible,
+    scoringProfile: scoringProfileName,
+  });
+}
 
-  // Score the normalized scholarships
-  const scoredScholarships = scoreAll(normalizedScholarships, userProfile);
+/**
+ * Whether the client asked for Server-Sent Events, via `?stream=1` or the Accept header.
+ * @param request - Incoming request.
+ * @returns True if the response should be streamed.
+ */
+function wantsEventStream(request: NextRequest): boolean {
+  const stream = request.nextUrl.searchParams.get('stream');
+  if (stream === '1' || stream === 'true') return true;
+  return (request.headers.get('accept') || '').includes('text/event-stream');
+}
 
-  // Rerank the scholarships using Gemini
-  const rerankedScholarships = await geminiRerank(userProfile, scoredScholarships);
+/**
+ * Streams pipeline progress as Server-Sent Events. Each pipeline event is sent with its
+ * `type` as the SSE event name (`stage`, `scholarship`, `skipped`, `results`, `failed`).
+ * When the client disconnects the pipeline is aborted, so it stops crawling and calling the LLM.
+ * @param options - Pipeline options.
+ * @returns A streaming Response.
+ */
+function streamSearch(options: SearchPipelineOptions): Response {
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
 
-  const totalScholarships = rerankedScholarships.length;
-  const paginatedScholarships = rerankedScholarships.slice(offset, offset + limit);
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // Events still emitted after the client went away have nowhere to go
+      const send = (event: SearchPipelineEvent) => {
+        if (abort.signal.aborted) return;
+        controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+      };
 
-  // TODO: Implement SSE streaming for progressive rendering here
-  // Instead of returning a single JSON response, stream the results as they become available.
-  return NextResponse.json({
-    scholarships: paginatedScholarships,
-    total: totalScholarships,
+      try {
+        await runSearchPipeline({ ...options, signal: abort.signal }, send);
+      } catch {
+        // The pipeline already emitted a `failed` event; just end the stream
+      } finally {
+        if (!abort.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
   });
 }
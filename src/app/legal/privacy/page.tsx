@@ -1,7 +1,16 @@
 import React from 'react'
 import { Card } from '@/components/ui'
+import { parseRedactionPolicy, PII_KINDS, PII_LABELS, RedactionMode } from '@/lib/documents/piiRedaction'
+
+const MODE_DESCRIPTIONS: Record<RedactionMode, string> = {
+  redact: 'removed before sending',
+  hash: 'replaced with a one-way code before sending',
+  allow: 'sent as written',
+}
 
 export default function PrivacyPolicyPage() {
+  const policy = parseRedactionPolicy()
+
   return (
     <div className="min-h-screen bg-surface-900 py-16">
       <div className="container mx-auto px-4 max-w-4xl">
@@ -40,6 +49,25 @@ export default function PrivacyPolicyPage() {
               </ul>
             </section>
 
+            <section>
+              <h2 className="text-2xl font-semibold text-white mb-4">How Your CV Is Processed</h2>
+              <p className="mb-4">
+                When you upload a CV, its text is read on our servers; the file itself is not stored or
+                passed on. Degree, GPA, test scores and work history are first read from the text by our
+                own rules. The text is then sent to Google&apos;s Gemini API, which reads the same details
+                to double-check them. Before it is sent, personal details are handled as follows:
+              </p>
+              <ul className="list-disc pl-6 space-y-2">
+                {PII_KINDS.map(kind => (
+                  <li key={kind}>{PII_LABELS[kind]}: {MODE_DESCRIPTIONS[policy[kind]]}</li>
+                ))}
+              </ul>
+              <p className="mt-4">
+                The rest of the text, including your education, work history and test scores, is sent
+                unchanged. Details are only added to your profile after you review and confirm them.
+              </p>
+            </section>
+
             <section>
               <h2 className="text-2xl font-semibold text-white mb-4">Information Sharing</h2>
               <p className="mb-4">
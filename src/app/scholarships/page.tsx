@@ -1,7 +1,6 @@
 import React from 'react';
 import { ScholarshipRepository } from '@/lib/repositories/ScholarshipRepository';
-import { Scholarship } from '@/types/database';
-import { Card } from '@/components/ui/Card';
+import Card from '@/components/ui/Card';
 
 export default async function ScholarshipsPage() {
   const scholarshipRepository = new ScholarshipRepository();
@@ -16,7 +15,9 @@ export default async function ScholarshipsPage() {
             <Card key={scholarship.id}>
               <h2 className="text-xl font-bold">{scholarship.name}</h2>
               <p className="text-gray-400">{scholarship.country}</p>
-              <p className="text-gray-400">{new Date(scholarship.deadline).toLocaleDateString()}</p>
+              <p className="text-gray-400">
+                {scholarship.deadline === 'varies' ? 'Varies' : new Date(scholarship.deadline).toLocaleDateString()}
+              </p>
             </Card>
           ))}
         </div>
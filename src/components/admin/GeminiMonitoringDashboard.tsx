@@ -135,10 +135,8 @@ const GeminiMonitoringDashboard: React.FC = () => {
         },
         body: JSON.stringify({
           profile: {
-            nationality: 'International',
-            degreeTarget: 'master',
-            fieldKeywords: ['computer science', 'engineering'],
-            specialStatus: []
+            degreeTarget: 'Master',
+            fields: ['Computer Science', 'Engineering']
           },
           limit: 50
         })
@@ -0,0 +1,158 @@
+'use client'
+
+import React, { useState } from 'react'
+import Button from '@/components/ui/Button'
+import Chip from '@/components/ui/Chip'
+import Input from '@/components/ui/Input'
+import { CV_FIELD_LABELS, editCVField, EDITED_SOURCE, LLM_SOURCE, type ExtractedField } from '@/lib/profile/cvExtraction'
+
+type Decision = 'accepted' | 'rejected'
+
+interface ReviewItem {
+  field: ExtractedField
+  decision: Decision
+  editing: boolean
+  draft: string
+  error?: string
+}
+
+interface CVReviewProps {
+  fields: ExtractedField[]
+  suggestions: string[]
+  confidence: number
+  onConfirm: (fields: ExtractedField[]) => void
+  onCancel: () => void
+}
+
+// Below this the applicant should look twice
+const LOW_CONFIDENCE = 0.7
+
+function confidenceVariant(confidence: number): 'success' | 'warning' | 'error' {
+  if (confidence >= 0.85) return 'success'
+  return confidence >= LOW_CONFIDENCE ? 'warning' : 'error'
+}
+
+/**
+ * Lists what was read from a CV, one row per fact with its confidence and the line it came
+ * from, so the applicant can accept, correct or reject each before it fills the profile.
+ */
+export function CVReview({ fields, suggestions, confidence, onConfirm, onCancel }: CVReviewProps) {
+  const [items, setItems] = useState<ReviewItem[]>(() => fields.map(field => ({
+    field,
+    decision: 'accepted',
+    editing: false,
+    draft: String(field.value),
+  })))
+
+  const update = (index: number, change: Partial<ReviewItem>) => {
+    setItems(prev => prev.map((item, i) => (i === index ? { ...item, ...change } : item)))
+  }
+
+  const saveEdit = (index: number) => {
+    const item = items[index]
+    try {
+      const field = editCVField(item.field, item.draft)
+      update(index, { field, draft: String(field.value), editing: false, decision: 'accepted', error: undefined })
+    } catch (error) {
+      update(index, { error: error instanceof Error ? error.message : 'Invalid value' })
+    }
+  }
+
+  const accepted = items.filter(item => item.decision === 'accepted' && !item.editing)
+
+  return (
+    <div className="glass-card p-6 space-y-4" aria-label="Review CV details">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Review what we found</h3>
+          <p className="text-sm text-white/60">Accept, correct or reject each detail before it is added to your profile.</p>
+        </div>
+        <Chip variant={confidenceVariant(confidence)} size="sm">
+          {Math.round(confidence * 100)}% overall confidence
+        </Chip>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-white/60 text-sm">No profile details could be read from this CV. Please fill in the form below.</p>
+      ) : (
+        <ul className="space-y-3">
+          {items.map((item, index) => (
+            <li
+              key={`${item.field.field}-${index}`}
+              className={item.decision === 'rejected' ? 'p-3 rounded-xl bg-white/5 opacity-50' : 'p-3 rounded-xl bg-white/5'}
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <span className="text-xs uppercase tracking-wide text-white/50">{CV_FIELD_LABELS[item.field.field]}</span>
+                  {item.editing ? (
+                    <Input
+                      value={item.draft}
+                      onChange={(e) => update(index, { draft: e.target.value })}
+                      error={item.error}
+                      aria-label={`Edit ${CV_FIELD_LABELS[item.field.field]}`}
+                    />
+                  ) : (
+                    <p className={item.decision === 'rejected' ? 'text-white line-through' : 'text-white font-medium'}>
+                      {String(item.field.value)}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Chip variant={confidenceVariant(item.field.confidence)} size="sm">
+                    {Math.round(item.field.confidence * 100)}%
+                  </Chip>
+                  {item.editing ? (
+                    <>
+                      <Button size="sm" onClick={() => saveEdit(index)}>Save</Button>
+                      <Button size="sm" variant="ghost" onClick={() => update(index, { editing: false, draft: String(item.field.value), error: undefined })}>
+                        Cancel
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <Button
+                        size="sm"
+                        variant={item.decision === 'accepted' ? 'primary' : 'ghost'}
+                        onClick={() => update(index, { decision: 'accepted' })}
+                        aria-pressed={item.decision === 'accepted'}
+                      >
+                        Accept
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => update(index, { editing: true })}>Edit</Button>
+                      <Button
+                        size="sm"
+                        variant={item.decision === 'rejected' ? 'secondary' : 'ghost'}
+                        onClick={() => update(index, { decision: 'rejected' })}
+                        aria-pressed={item.decision === 'rejected'}
+                      >
+                        Reject
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+              <p className="mt-1 text-xs text-white/50 truncate" title={item.field.source}>
+                {item.field.source === EDITED_SOURCE
+                  ? 'Edited by you'
+                  : item.field.source === LLM_SOURCE ? 'Read by the AI; no exact line in your CV' : `From your CV: “${item.field.source}”`}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {suggestions.length > 0 && (
+        <ul className="space-y-1 text-sm text-warning">
+          {suggestions.map((suggestion, index) => <li key={index}>⚠ {suggestion}</li>)}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <Button variant="ghost" onClick={onCancel}>Discard</Button>
+        <Button onClick={() => onConfirm(accepted.map(item => item.field))} disabled={items.some(item => item.editing)}>
+          Add {accepted.length} {accepted.length === 1 ? 'detail' : 'details'} to my profile
+        </Button>
+      </div>
+    </div>
+  )
+}
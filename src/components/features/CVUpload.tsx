@@ -4,26 +4,68 @@ import React, { useState, useCallback, useRef, memo, useMemo } from 'react'
 import { cn } from '@/lib/utils'
 import { Button, Progress } from '@/components/ui'
 import { ErrorBoundary, useError } from '@/components/error'
+import { fromCVEntities } from '@/lib/profile/userProfile'
+import { toCVEntities, type ExtractedField } from '@/lib/profile/cvExtraction'
+import type { UserProfile } from '@/types/profile'
+import { CVReview } from './CVReview'
 
 interface CVUploadProps {
-  onFileSelect: (file: File) => void
+  onFileSelect?: (file: File) => void
   onUploadComplete?: (result: { fileName: string; size: number; type: string; success: boolean }) => void
+  onProfileExtracted?: (profile: UserProfile) => void // Called with the details the applicant confirmed
   maxFileSize?: number
   acceptedTypes?: string[]
   className?: string
 }
 
+// `data` of a successful /api/cv/parse response
+interface CVParseData {
+  confidence: number
+  extractedFields: ExtractedField[]
+  suggestions: string[]
+}
+
 interface UploadState {
   isDragOver: boolean
   isUploading: boolean
   progress: number
   error: string | null
   file: File | null
+  review: CVParseData | null // Waiting for the applicant to confirm
+  confirmedCount: number | null // Details added to the profile
+}
+
+/**
+ * Uploads a CV to /api/cv/parse, reporting upload progress up to 90%; the rest is parsing.
+ */
+function parseCV(file: File, onProgress: (percent: number) => void): Promise<CVParseData> {
+  return new Promise((resolve, reject) => {
+    const request = new XMLHttpRequest()
+    request.open('POST', '/api/cv/parse')
+    request.responseType = 'json'
+    request.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(Math.round((event.loaded / event.total) * 90))
+    }
+    request.onload = () => {
+      const body = request.response
+      if (request.status >= 200 && request.status < 300 && body?.success) {
+        resolve(body.data)
+      } else {
+        reject(new Error(body?.error || `Upload failed (${request.status})`))
+      }
+    }
+    request.onerror = () => reject(new Error('Network error while uploading. Please try again.'))
+
+    const formData = new FormData()
+    formData.append('file', file)
+    request.send(formData)
+  })
 }
 
 const CVUpload = memo(function CVUpload({
   onFileSelect,
   onUploadComplete,
+  onProfileExtracted,
   maxFileSize = 10 * 1024 * 1024, // 10MB
   acceptedTypes = ['.pdf', '.doc', '.docx'],
   className
@@ -33,7 +75,9 @@ const CVUpload = memo(function CVUpload({
     isUploading: false,
     progress: 0,
     error: null,
-    file: null
+    file: null,
+    review: null,
+    confirmedCount: null
   })
 
   const fileInputRef = useRef<HTMLInputElement>(null)
@@ -65,28 +109,19 @@ const CVUpload = memo(function CVUpload({
     }
   }, [maxFileSize, acceptedTypes, reportError])
 
-  const simulateUpload = useCallback(async (file: File) => {
+  const uploadFile = useCallback(async (file: File) => {
     try {
       setState(prev => ({ ...prev, isUploading: true, progress: 0 }))
 
-      // Simulate upload progress
-      for (let i = 0; i <= 100; i += 10) {
-        await new Promise(resolve => setTimeout(resolve, 100))
-        setState(prev => ({ ...prev, progress: i }))
-      }
+      const review = await parseCV(file, progress => setState(prev => ({ ...prev, progress })))
 
-      // Simulate processing
-      setState(prev => ({ ...prev, progress: 100 }))
-      
-      setTimeout(() => {
-        setState(prev => ({ ...prev, isUploading: false }))
-        onUploadComplete?.({ 
-          fileName: file.name,
-          size: file.size,
-          type: file.type,
-          success: true
-        })
-      }, 500)
+      setState(prev => ({ ...prev, progress: 100, isUploading: false, review }))
+      onUploadComplete?.({
+        fileName: file.name,
+        size: file.size,
+        type: file.type,
+        success: true
+      })
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Upload failed'
       setState(prev => ({ ...prev, error: errorMessage, isUploading: false }))
@@ -94,7 +129,7 @@ const CVUpload = memo(function CVUpload({
       // Report error to global error handler
       reportError(error instanceof Error ? error : new Error(errorMessage), {
         component: 'CVUpload',
-        action: 'simulateUpload',
+        action: 'uploadFile',
         fileName: file.name,
         fileSize: file.size,
         fileType: file.type
@@ -109,6 +144,17 @@ const CVUpload = memo(function CVUpload({
     }
   }, [onUploadComplete, reportError])
 
+  const handleConfirm = useCallback((fields: ExtractedField[]) => {
+    onProfileExtracted?.(fromCVEntities(toCVEntities(fields)))
+    // Test dates are shown for checking only; the profile has no field for them
+    const added = fields.filter(entry => entry.field !== 'languageTestDate').length
+    setState(prev => ({ ...prev, review: null, confirmedCount: added }))
+  }, [onProfileExtracted])
+
+  const handleDiscard = useCallback(() => {
+    setState(prev => ({ ...prev, review: null, confirmedCount: 0 }))
+  }, [])
+
   const handleFileSelect = useCallback((file: File) => {
     const error = validateFile(file)
     
@@ -121,12 +167,14 @@ const CVUpload = memo(function CVUpload({
       ...prev, 
       file, 
       error: null,
-      progress: 0
+      progress: 0,
+      review: null,
+      confirmedCount: null
     }))
 
-    onFileSelect(file)
-    void simulateUpload(file)
-  }, [validateFile, onFileSelect, simulateUpload])
+    onFileSelect?.(file)
+    void uploadFile(file)
+  }, [validateFile, onFileSelect, uploadFile])
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault()
@@ -167,7 +215,9 @@ const CVUpload = memo(function CVUpload({
       file: null, 
       error: null, 
       progress: 0,
-      isUploading: false 
+      isUploading: false,
+      review: null,
+      confirmedCount: null
     }))
     if (fileInputRef.current) {
       fileInputRef.current.value = ''
@@ -308,7 +358,7 @@ const CVUpload = memo(function CVUpload({
                 <Progress
                   value={state.progress}
                   showLabel
-                  label="Uploading..."
+                  label={state.progress < 90 ? 'Uploading...' : 'Reading your CV...'}
                 />
                 <p className="text-sm text-white/60 text-center">
                   Processing your CV...
@@ -339,8 +389,21 @@ const CVUpload = memo(function CVUpload({
         </div>
       )}
 
+      {/* Review of the extracted details */}
+      {state.review && (
+        <div className="mt-4">
+          <CVReview
+            fields={state.review.extractedFields}
+            suggestions={state.review.suggestions}
+            confidence={state.review.confidence}
+            onConfirm={handleConfirm}
+            onCancel={handleDiscard}
+          />
+        </div>
+      )}
+
       {/* Success Message */}
-      {state.file && !state.isUploading && !state.error && (
+      {state.file && state.confirmedCount !== null && !state.error && (
         <div className="mt-4 p-4 bg-success/10 border border-success/30 rounded-xl">
           <div className="flex items-center space-x-2">
             <svg
@@ -355,7 +418,9 @@ const CVUpload = memo(function CVUpload({
               />
             </svg>
             <p className="text-success text-sm">
-              CV uploaded successfully! We&apos;ll extract your information automatically.
+              {state.confirmedCount > 0
+                ? `Added ${state.confirmedCount} ${state.confirmedCount === 1 ? 'detail' : 'details'} from your CV to your profile.`
+                : 'No details from your CV were added.'}
             </p>
           </div>
         </div>
@@ -4,12 +4,15 @@ import React, { useState, useCallback } from 'react'
 import { Button, Input, Card, Chip, Progress } from '../ui'
 import { ErrorBoundary, useError } from '@/components/error'
 import { cn } from '@/lib/utils'
+import { fromQuestionnaire } from '@/lib/profile/userProfile'
+import { GRADE_SCALE_LABELS, GRADE_SCALES, GradeScale, gradeToPercent, UK_CLASSES } from '@/lib/profile/gradeScales'
+import type { UserProfile } from '@/types/profile'
 
 interface QuestionStep {
   id: string
   title: string
   description: string
-  type: 'select' | 'multiselect' | 'input' | 'slider' | 'chips'
+  type: 'select' | 'multiselect' | 'input' | 'slider' | 'chips' | 'grade'
   required: boolean
   options?: Array<{ value: string; label: string; description?: string }>
   validation?: {
@@ -19,18 +22,6 @@ interface QuestionStep {
   }
 }
 
-interface UserProfile {
-  nationality: string
-  degreeTarget: string
-  fieldKeywords: string[]
-  specialStatus: string[]
-  gpa?: number
-  languageTests?: Record<string, any>
-  publications?: number
-  workExperience?: number
-  constraints: Record<string, any>
-}
-
 interface GuidedQuestionnaireProps {
   onComplete: (profile: UserProfile) => void
   onStepChange?: (step: number, total: number) => void
@@ -45,20 +36,20 @@ const questionSteps: QuestionStep[] = [
     type: 'select',
     required: true,
     options: [
-      { value: 'US', label: 'United States' },
-      { value: 'UK', label: 'United Kingdom' },
-      { value: 'CA', label: 'Canada' },
-      { value: 'AU', label: 'Australia' },
-      { value: 'DE', label: 'Germany' },
-      { value: 'FR', label: 'France' },
-      { value: 'IN', label: 'India' },
-      { value: 'CN', label: 'China' },
-      { value: 'JP', label: 'Japan' },
-      { value: 'BR', label: 'Brazil' },
-      { value: 'MX', label: 'Mexico' },
-      { value: 'NG', label: 'Nigeria' },
-      { value: 'ZA', label: 'South Africa' },
-      { value: 'EG', label: 'Egypt' },
+      { value: 'United States', label: 'United States' },
+      { value: 'United Kingdom', label: 'United Kingdom' },
+      { value: 'Canada', label: 'Canada' },
+      { value: 'Australia', label: 'Australia' },
+      { value: 'Germany', label: 'Germany' },
+      { value: 'France', label: 'France' },
+      { value: 'India', label: 'India' },
+      { value: 'China', label: 'China' },
+      { value: 'Japan', label: 'Japan' },
+      { value: 'Brazil', label: 'Brazil' },
+      { value: 'Mexico', label: 'Mexico' },
+      { value: 'Nigeria', label: 'Nigeria' },
+      { value: 'South Africa', label: 'South Africa' },
+      { value: 'Egypt', label: 'Egypt' },
       { value: 'other', label: 'Other' }
     ]
   },
@@ -105,10 +96,9 @@ const questionSteps: QuestionStep[] = [
   {
     id: 'gpa',
     title: 'What is your GPA?',
-    description: 'Enter your GPA on a 4.0 scale (optional but helps with matching).',
-    type: 'slider',
-    required: false,
-    validation: { min: 0, max: 4.0 }
+    description: 'Choose the grading scale of your university, then enter your grade (optional but helps with matching).',
+    type: 'grade',
+    required: false
   },
   {
     id: 'specialStatus',
@@ -162,6 +152,11 @@ export default function GuidedQuestionnaire({
       return 'This field is required'
     }
 
+    if (question.type === 'grade' && value?.value !== undefined && value.value !== '' &&
+      gradeToPercent(value.value, value.scale) === undefined) {
+      return `This grade is not on the chosen scale (${GRADE_SCALE_LABELS[value.scale as GradeScale]})`
+    }
+
     if (question.validation) {
       if (question.validation.min !== undefined && value < question.validation.min) {
         return `Minimum value is ${question.validation.min}`
@@ -210,19 +205,7 @@ export default function GuidedQuestionnaire({
         onStepChange?.(nextStep + 1, questionSteps.length)
       } else {
         // Complete questionnaire
-        const profile: UserProfile = {
-          nationality: answers.nationality || '',
-          degreeTarget: answers.degreeTarget || 'master',
-          fieldKeywords: answers.fieldKeywords || [],
-          specialStatus: answers.specialStatus || [],
-          gpa: answers.gpa,
-          languageTests: answers.languageTests ? JSON.parse(answers.languageTests) : undefined,
-          publications: answers.experience ? parseInt(answers.experience.split(' ')[0]) || 0 : 0,
-          workExperience: answers.experience ? parseInt(answers.experience.split(' ')[1]) || 0 : 0,
-          constraints: {}
-        }
-
-        onComplete(profile)
+        onComplete(fromQuestionnaire(answers))
       }
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to proceed to next step'
@@ -350,6 +333,49 @@ export default function GuidedQuestionnaire({
           </div>
         )
 
+      case 'grade': {
+        const scale: GradeScale = currentAnswer?.scale ?? '4.0'
+        return (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {GRADE_SCALES.map((option) => (
+                <Chip
+                  key={option}
+                  variant={scale === option ? 'primary' : 'default'}
+                  className="cursor-pointer transition-all duration-200"
+                  onClick={() => handleAnswer({ scale: option, value: '' })}
+                >
+                  {GRADE_SCALE_LABELS[option]}
+                </Chip>
+              ))}
+            </div>
+            {scale === 'UK' ? (
+              <div className="flex flex-wrap gap-2">
+                {UK_CLASSES.map((ukClass) => (
+                  <Chip
+                    key={ukClass}
+                    variant={currentAnswer?.value === ukClass ? 'primary' : 'default'}
+                    className="cursor-pointer transition-all duration-200"
+                    onClick={() => handleAnswer({ scale, value: ukClass })}
+                  >
+                    {ukClass}
+                  </Chip>
+                ))}
+              </div>
+            ) : (
+              <Input
+                type="number"
+                inputMode="decimal"
+                placeholder={`Your grade out of ${scale}`}
+                value={currentAnswer?.value ?? ''}
+                onChange={(e) => handleAnswer({ scale, value: e.target.value })}
+                error={error}
+              />
+            )}
+          </div>
+        )
+      }
+
       case 'chips':
         return (
           <div className="flex flex-wrap gap-2">
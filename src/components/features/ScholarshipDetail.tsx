@@ -3,6 +3,7 @@
 import React, { useState, useEffect } from 'react'
 import { Card, Button, Chip, Progress, Skeleton } from '../ui'
 import { cn } from '@/lib/utils'
+import type { UserProfile } from '@/types/profile'
 
 interface Scholarship {
   id: string
@@ -26,18 +27,6 @@ interface Scholarship {
   potentialConcerns?: string[]
 }
 
-interface UserProfile {
-  nationality: string
-  degreeTarget: string
-  fieldKeywords: string[]
-  specialStatus: string[]
-  gpa?: number
-  languageTests?: Record<string, any>
-  publications?: number
-  workExperience?: number
-  constraints: Record<string, any>
-}
-
 interface ScholarshipDetailProps {
   scholarship: Scholarship
   userProfile: UserProfile
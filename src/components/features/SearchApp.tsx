@@ -1,13 +1,22 @@
 'use client'
 
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useRef } from 'react'
 import { ProfileInputForm } from './ProfileInputForm'
+import CVUpload from './CVUpload'
 import Input from '@/components/ui/Input'
 import Button from '@/components/ui/Button'
 import ProfilePills from '@/components/ui/ProfilePills'
 import { SearchResults } from './SearchResults'
 import { Scholarship } from '@/types/database'
 import { UserProfile } from '@/types/profile'
+import { mergeUserProfiles } from '@/lib/profile/userProfile'
+import type { SearchStage, SearchPipelineEvent, SkippedItem } from '@/lib/services/searchPipeline'
+import type { RerankedScholarship } from '@/lib/scoring/reranking'
+
+type StreamEvent<T extends SearchPipelineEvent['type']> = Extract<SearchPipelineEvent, { type: T }>
+
+const parseEvent = <T extends SearchPipelineEvent['type']>(event: Event) =>
+  JSON.parse((event as MessageEvent).data) as StreamEvent<T>
 
 export function SearchApp() {
   const [query, setQuery] = useState('')
@@ -28,59 +37,85 @@ export function SearchApp() {
   const [loading, setLoading] = useState(false)
   const [offset, setOffset] = useState(0)
   const [hasSearched, setHasSearched] = useState(false)
+  const [stages, setStages] = useState<SearchStage[]>([])
+  const [skipped, setSkipped] = useState<SkippedItem[]>([])
+  const [ineligible, setIneligible] = useState<RerankedScholarship[]>([])
+  const eventSourceRef = useRef<EventSource | null>(null)
   const limit = 25
 
   const handleProfileChange = (newProfile: UserProfile) => {
     setProfile(newProfile)
   }
 
-  const handleSearch = async () => {
+  // Details confirmed from a CV fill in the form; the applicant can still change them there.
+  // The degree target is only derived from the CV, so it never replaces one already chosen
+  const handleCVProfile = (cvProfile: UserProfile) => {
+    setProfile(prev => mergeUserProfiles(prev, prev.degreeTarget ? { ...cvProfile, degreeTarget: '' } : cvProfile))
+  }
+
+  const handleSearch = () => {
+    eventSourceRef.current?.close()
     setLoading(true)
     setResults([])
     setTotal(0)
+    setStages([])
+    setSkipped([])
+    setIneligible([])
     setHasSearched(true)
 
-    try {
-      const queryParams = new URLSearchParams()
-      queryParams.append('q', query)
-      queryParams.append('profile', JSON.stringify(profile))
-      queryParams.append('limit', limit.toString())
-      queryParams.append('offset', offset.toString())
-
-      const response = await fetch(`/api/search?${queryParams.toString()}`)
-      const data = await response.json()
-      setResults(data.scholarships || [])
-      setTotal(data.total || 0)
-    } catch (error) {
-      console.error('Error fetching search results:', error)
-      // Mock data for development
-      setResults([
-        {
-          id: '1',
-          name: 'Global Excellence Scholarship',
-          sourceUrl: 'https://example.com/scholarship1',
-          domain: 'University of Excellence',
-          country: 'Canada',
-          degreeLevels: ['Master', 'PhD'],
-          fields: ['Computer Science', 'Engineering'],
-          deadline: new Date('2024-12-31'),
-          tuitionCovered: true,
-          stipend: 25000,
-          travelSupport: true,
-          eligibilityText: 'Open to international students',
-          requirements: ['GPA >= 3.5', 'IELTS 7.0'],
-          tags: ['STEM', 'International'],
-          confidence: 0.95,
-          createdAt: new Date(),
-          updatedAt: new Date()
-        }
-      ])
-      setTotal(1)
-    } finally {
+    const queryParams = new URLSearchParams()
+    queryParams.append('q', query)
+    queryParams.append('profile', JSON.stringify(profile))
+    queryParams.append('limit', limit.toString())
+    queryParams.append('offset', offset.toString())
+    queryParams.append('stream', '1')
+
+    // Results stream in as Server-Sent Events: stage progress, each extracted
+    // scholarship, then the final ranked page
+    const source = new EventSource(`/api/search?${queryParams.toString()}`)
+    eventSourceRef.current = source
+
+    const finish = () => {
+      source.close()
       setLoading(false)
     }
+
+    source.addEventListener('stage', (event) => {
+      const { stage } = parseEvent<'stage'>(event)
+      setStages(prev => {
+        const index = prev.findIndex(s => s.id === stage.id)
+        return index === -1 ? [...prev, stage] : prev.map((s, i) => (i === index ? stage : s))
+      })
+    })
+
+    source.addEventListener('scholarship', (event) => {
+      const { scholarship } = parseEvent<'scholarship'>(event)
+      setResults(prev => [...prev.filter(s => s.id !== scholarship.id), scholarship])
+    })
+
+    source.addEventListener('results', (event) => {
+      const data = parseEvent<'results'>(event)
+      setResults(data.scholarships)
+      setTotal(data.total)
+      setSkipped(data.skipped)
+      setIneligible(data.ineligible)
+      finish()
+    })
+
+    source.addEventListener('failed', (event) => {
+      console.error('Search failed:', parseEvent<'failed'>(event).message)
+      finish()
+    })
+
+    source.onerror = () => {
+      console.error('Error streaming search results')
+      finish()
+    }
   }
 
+  // Stop streaming when the component unmounts
+  useEffect(() => () => eventSourceRef.current?.close(), [])
+
   useEffect(() => {
     if (hasSearched) {
       handleSearch()
@@ -89,6 +124,9 @@ export function SearchApp() {
 
   return (
     <div className="space-y-8">
+      {/* CV upload, reviewed before it fills the form */}
+      <CVUpload onProfileExtracted={handleCVProfile} />
+
       {/* Profile Input Form */}
       <ProfileInputForm 
         profile={profile} // Pass profile state to ProfileInputForm
@@ -131,7 +169,13 @@ export function SearchApp() {
       {/* Search Results */}
       {hasSearched && (
         <>
-          <SearchResults results={results} loading={loading} />
+          <SearchResults
+            results={results}
+            loading={loading}
+            stages={stages}
+            skipped={skipped}
+            ineligible={ineligible}
+          />
           
           {/* Pagination */}
           {total > limit && (
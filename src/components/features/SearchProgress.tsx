@@ -0,0 +1,45 @@
+import React from 'react'
+import Progress from '@/components/ui/Progress'
+import type { SearchStage } from '@/lib/services/searchPipeline'
+
+interface SearchProgressProps {
+  stages: SearchStage[]
+}
+
+const statusIcons: Record<SearchStage['status'], string> = {
+  pending: '○',
+  processing: '◌',
+  complete: '✓',
+  error: '✕'
+}
+
+export function SearchProgress({ stages }: SearchProgressProps) {
+  if (stages.length === 0) return null
+
+  // Each stage contributes an equal share of the overall bar
+  const overall = stages.reduce((sum, stage) => sum + stage.progress, 0) / stages.length
+  const current = stages.find(stage => stage.status === 'processing' || stage.status === 'error')
+  const failed = stages.some(stage => stage.status === 'error')
+
+  return (
+    <div className="glass-card p-4 space-y-3">
+      <Progress
+        value={overall}
+        variant={failed ? 'error' : 'default'}
+        label={current ? current.name : 'Search complete'}
+      />
+      <ol className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+        {stages.map(stage => (
+          <li
+            key={stage.id}
+            className={stage.status === 'pending' ? 'text-white/40' : 'text-white/80'}
+          >
+            <span className="mr-1">{statusIcons[stage.status]}</span>
+            {stage.name}
+            {stage.count !== undefined && <span className="text-white/50"> ({stage.count})</span>}
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
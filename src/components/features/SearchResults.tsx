@@ -1,23 +1,100 @@
-import React from 'react'
+import React, { useState } from 'react'
 import { Scholarship } from '@/types/database'
 import Card from '@/components/ui/Card'
 import { SkeletonCard } from '@/components/ui/Skeleton'
 import Chip from '@/components/ui/Chip'
 import Button from '@/components/ui/Button'
+import { SearchProgress } from './SearchProgress'
+import type { SearchStage, SkippedItem } from '@/lib/services/searchPipeline'
+import type { RerankedScholarship } from '@/lib/scoring/reranking'
+import type { ScoreComponent } from '@/lib/scoring/eligibilityScoring'
+import type { RuleEvaluation } from '@/lib/scoring/eligibilityRules'
+
+// Streamed scholarships are not scored yet, so the scoring fields are optional
+type ResultScholarship = Scholarship & Partial<Pick<
+  RerankedScholarship,
+  'fitScore' | 'scoreBreakdown' | 'eligibilityChecks' | 'eligibility' | 'eligibilityReasons'
+>>
+
+const COMPONENT_LABELS: Record<ScoreComponent['component'], string> = {
+  acceptance: 'Profile fit',
+  funding: 'Funding',
+  deadline: 'Deadline',
+  rerank: 'AI adjustment',
+}
+
+const OUTCOME_ICONS: Record<RuleEvaluation['outcome'], string> = {
+  pass: '✓',
+  fail: '✗',
+  unknown: '?',
+}
+
+/**
+ * Expandable explanation of a result's score: each component's contribution to the fit
+ * score, and the eligibility checks behind the profile fit.
+ */
+function WhyThisMatch({ scholarship }: { scholarship: ResultScholarship }) {
+  const breakdown = scholarship.scoreBreakdown ?? []
+  if (breakdown.length === 0) return null
+
+  return (
+    <details className="mb-4 text-sm text-white/80">
+      <summary className="cursor-pointer text-white/70 hover:text-white">Why this match?</summary>
+      <div className="mt-3 space-y-3">
+        {breakdown.map((item) => {
+          const contribution = item.weight * item.value
+          return (
+            <div key={item.component}>
+              <div className="flex justify-between gap-2">
+                <span className="font-medium text-white">{COMPONENT_LABELS[item.component]}</span>
+                <span className={contribution < 0 ? 'text-error' : 'text-white/60'}>
+                  {contribution >= 0 ? '+' : ''}{contribution.toFixed(2)}
+                </span>
+              </div>
+              <p className="text-white/60 text-xs">{item.explanation}</p>
+              {item.component === 'acceptance' && (scholarship.eligibilityChecks ?? []).length > 0 && (
+                <ul className="mt-1 space-y-1 text-xs">
+                  {scholarship.eligibilityChecks!.map((check, index) => (
+                    <li key={index} className={check.outcome === 'fail' && !check.optional ? 'text-error' : 'text-white/60'}>
+                      {OUTCOME_ICONS[check.outcome]} {check.explanation}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )
+        })}
+        {scholarship.fitScore !== undefined && (
+          <div className="flex justify-between border-t border-white/10 pt-2 font-medium text-white">
+            <span>Match score</span>
+            <span>{scholarship.fitScore.toFixed(2)}</span>
+          </div>
+        )}
+      </div>
+    </details>
+  )
+}
 
 interface SearchResultsProps {
-  results: Scholarship[]
+  results: ResultScholarship[]
   loading: boolean
+  stages?: SearchStage[]
+  skipped?: SkippedItem[]
+  ineligible?: RerankedScholarship[]
 }
 
-export function SearchResults({ results, loading }: SearchResultsProps) {
-  if (loading) {
+export function SearchResults({ results, loading, stages = [], skipped = [], ineligible = [] }: SearchResultsProps) {
+  const [showIneligible, setShowIneligible] = useState(false)
+
+  // While streaming, cards are shown as soon as the first scholarship arrives
+  if (loading && results.length === 0) {
     return (
       <div className="space-y-6">
         <div className="text-center">
           <h3 className="text-lg font-semibold text-white mb-2">Searching for scholarships...</h3>
           <p className="text-white/70">This may take a few moments</p>
         </div>
+        <SearchProgress stages={stages} />
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {[...Array(6)].map((_, i) => (
             <SkeletonCard key={i} />
@@ -27,17 +104,62 @@ export function SearchResults({ results, loading }: SearchResultsProps) {
     )
   }
 
+  const ineligibleToggle = !loading && ineligible.length > 0 && (
+    <Button variant="ghost" size="sm" onClick={() => setShowIneligible(!showIneligible)}>
+      {showIneligible
+        ? 'Hide ineligible'
+        : `Show ${ineligible.length} ineligible with reasons`}
+    </Button>
+  )
+
+  const ineligibleList = showIneligible && ineligible.length > 0 && (
+    <Card className="p-6">
+      <h4 className="text-lg font-semibold text-white mb-1">Not eligible</h4>
+      <p className="text-white/60 text-sm mb-4">
+        These scholarships have a requirement your profile does not meet, so they are not ranked.
+      </p>
+      <div className="space-y-4">
+        {ineligible.map((sch) => (
+          <div key={sch.id} className="border-t border-white/10 pt-3 first:border-t-0 first:pt-0">
+            <a
+              href={sch.sourceUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-white font-medium hover:underline"
+            >
+              {sch.name}
+            </a>
+            <span className="text-white/60 text-xs ml-2">{sch.domain}</span>
+            <ul className="mt-1 list-disc list-inside text-sm text-error">
+              {(sch.eligibilityReasons ?? []).map((reason) => (
+                <li key={reason}>{reason}</li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </Card>
+  )
+
   if (results.length === 0) {
     return (
-      <div className="text-center py-12 glass-card">
-        <div className="text-6xl mb-4">🔍</div>
-        <h3 className="text-xl font-semibold text-white mb-2">No scholarships found</h3>
-        <p className="text-white/70 mb-4">
-          Try adjusting your search criteria or removing some filters
-        </p>
-        <Button variant="secondary" onClick={() => window.location.reload()}>
-          Reset Search
-        </Button>
+      <div className="space-y-6">
+        <div className="text-center py-12 glass-card">
+          <div className="text-6xl mb-4">🔍</div>
+          <h3 className="text-xl font-semibold text-white mb-2">No scholarships found</h3>
+          <p className="text-white/70 mb-4">
+            {ineligible.length > 0
+              ? `${ineligible.length} scholarship${ineligible.length !== 1 ? 's were' : ' was'} found, but your profile does not meet their requirements`
+              : 'Try adjusting your search criteria or removing some filters'}
+          </p>
+          <div className="flex justify-center gap-3">
+            <Button variant="secondary" onClick={() => window.location.reload()}>
+              Reset Search
+            </Button>
+            {ineligibleToggle}
+          </div>
+        </div>
+        {ineligibleList}
       </div>
     )
   }
@@ -62,19 +184,29 @@ export function SearchResults({ results, loading }: SearchResultsProps) {
 
   return (
     <div className="space-y-6">
+      {loading && <SearchProgress stages={stages} />}
+
       {/* Results Header */}
       <div className="flex items-center justify-between glass-card p-4">
         <div>
           <h3 className="text-lg font-semibold text-white">
-            Found {results.length} scholarship{results.length !== 1 ? 's' : ''}
+            Found {results.length} scholarship{results.length !== 1 ? 's' : ''}{loading ? ' so far' : ''}
           </h3>
           <p className="text-white/70 text-sm">
-            Sorted by relevance to your profile
+            {loading ? 'Ranking once all pages are processed' : 'Sorted by relevance to your profile'}
           </p>
+          {!loading && skipped.length > 0 && (
+            <p className="text-warning text-xs mt-1" title={skipped.map(item => `${item.url} (${item.reason})`).join('\n')}>
+              {skipped.length} page{skipped.length !== 1 ? 's' : ''} skipped (timed out or blocked by robots.txt)
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {ineligibleToggle}
+          <Button variant="secondary" size="sm" onClick={copyAllResults}>
+            📋 Copy All
+          </Button>
         </div>
-        <Button variant="secondary" size="sm" onClick={copyAllResults}>
-          📋 Copy All
-        </Button>
       </div>
 
       {/* Results Grid */}
@@ -137,6 +269,15 @@ export function SearchResults({ results, loading }: SearchResultsProps) {
               )}
             </div>
 
+            {/* Eligibility that could not be fully checked */}
+            {scholarship.eligibility === 'likely' && (
+              <div className="mb-4" title={scholarship.eligibilityReasons?.join('\n')}>
+                <Chip variant="warning" size="sm">Likely eligible</Chip>
+              </div>
+            )}
+
+            <WhyThisMatch scholarship={scholarship} />
+
             {/* Deadline */}
             <div className="text-sm text-white/70 mb-4">
               <span className="font-medium">Deadline:</span> {formatDeadline(scholarship.deadline)}
@@ -157,6 +298,8 @@ export function SearchResults({ results, loading }: SearchResultsProps) {
         ))}
       </div>
 
+      {ineligibleList}
+
       {/* Summary Section */}
       {results.length > 0 && (
         <Card className="p-6">
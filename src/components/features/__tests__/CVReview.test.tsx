@@ -0,0 +1,55 @@
+import React from 'react'
+import { render, screen, fireEvent, within } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import { CVReview } from '../CVReview'
+import { LLM_SOURCE, type ExtractedField } from '@/lib/profile/cvExtraction'
+
+const fields: ExtractedField[] = [
+  { field: 'degree', value: 'Master', confidence: 0.9, source: 'MSc Computer Science, University of Nairobi, 2021' },
+  { field: 'gpa', value: 3.7, confidence: 0.95, source: 'GPA 3.7/4.0' },
+  { field: 'nationality', value: 'Kenyan', confidence: 0.6, source: LLM_SOURCE },
+]
+
+const row = (label: string) => screen.getByText(label).closest('li') as HTMLElement
+
+describe('CVReview', () => {
+  it('lists each field with its confidence and source', () => {
+    render(<CVReview fields={fields} suggestions={['Add your GPA or final grade.']} confidence={0.82} onConfirm={jest.fn()} onCancel={jest.fn()} />)
+
+    expect(within(row('degree')).getByText('Master')).toBeInTheDocument()
+    expect(within(row('degree')).getByText('90%')).toBeInTheDocument()
+    expect(within(row('degree')).getByText(/From your CV: “MSc Computer Science/)).toBeInTheDocument()
+    expect(within(row('nationality')).getByText(/Read by the AI/)).toBeInTheDocument()
+    expect(screen.getByText('82% overall confidence')).toBeInTheDocument()
+    expect(screen.getByText(/Add your GPA or final grade/)).toBeInTheDocument()
+  })
+
+  it('confirms accepted and edited fields and leaves out rejected ones', () => {
+    const onConfirm = jest.fn()
+    render(<CVReview fields={fields} suggestions={[]} confidence={0.82} onConfirm={onConfirm} onCancel={jest.fn()} />)
+
+    fireEvent.click(within(row('nationality')).getByRole('button', { name: 'Reject' }))
+    fireEvent.click(within(row('GPA')).getByRole('button', { name: 'Edit' }))
+    fireEvent.change(screen.getByLabelText('Edit GPA'), { target: { value: '3.8' } })
+    fireEvent.click(within(row('GPA')).getByRole('button', { name: 'Save' }))
+    expect(within(row('GPA')).getByText('Edited by you')).toBeInTheDocument()
+    expect(within(row('GPA')).queryByText(/From your CV/)).not.toBeInTheDocument()
+    fireEvent.click(screen.getByRole('button', { name: 'Add 2 details to my profile' }))
+
+    expect(onConfirm).toHaveBeenCalledWith([
+      fields[0],
+      { field: 'gpa', value: 3.8, confidence: 1, source: 'Edited by you' },
+    ])
+  })
+
+  it('rejects a GPA it cannot read', () => {
+    render(<CVReview fields={fields} suggestions={[]} confidence={0.82} onConfirm={jest.fn()} onCancel={jest.fn()} />)
+
+    fireEvent.click(within(row('GPA')).getByRole('button', { name: 'Edit' }))
+    fireEvent.change(screen.getByLabelText('Edit GPA'), { target: { value: 'three' } })
+    fireEvent.click(within(row('GPA')).getByRole('button', { name: 'Save' }))
+
+    expect(screen.getByText('Enter your GPA as a number, or a UK class such as 2:1')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /to my profile/ })).toBeDisabled()
+  })
+})
@@ -211,9 +211,11 @@ export const cache = new MemoryCache()
 
 // Cleanup expired entries every 5 minutes
 if (typeof window === 'undefined') {
-  setInterval(() => {
+  const cleanupTimer = setInterval(() => {
     cache.cleanup()
   }, 5 * 60 * 1000)
+  // Don't keep scripts and test runs alive just for cleanup
+  cleanupTimer.unref?.()
 }
 
 // Enhanced cache key generators with better organization
@@ -0,0 +1,64 @@
+/**
+ * @jest-environment node
+ */
+import { promises as fs } from 'fs'
+import path from 'path'
+import { extractDocumentText, ScannedDocumentError, UnsupportedDocumentError } from '../documentText'
+import { DOCX_CONTENT_TYPE } from '../docxText'
+
+const fixture = (name: string) => fs.readFile(path.join(__dirname, 'fixtures', name))
+
+describe('extractDocumentText', () => {
+  it('should keep page boundaries of a multi-page PDF', async () => {
+    const result = await extractDocumentText(await fixture('cv-two-pages.pdf'), 'application/pdf', 'cv.pdf')
+
+    expect(result).toEqual({
+      method: 'pdf-text-layer',
+      pageCount: 2,
+      text: [
+        '--- Page 1 ---',
+        'Amina Yusuf',
+        'MSc Computer Science, University of Nairobi, 2021',
+        '',
+        '--- Page 2 ---',
+        'Experience',
+        'Data analyst, Safaricom, 2021-2024',
+      ].join('\n'),
+    })
+  })
+
+  it('should reject a scanned PDF without a text layer', async () => {
+    await expect(extractDocumentText(await fixture('cv-scanned.pdf'), 'application/pdf', 'scan.pdf'))
+      .rejects.toBeInstanceOf(ScannedDocumentError)
+  })
+
+  it('should keep DOCX headings as section boundaries', async () => {
+    const result = await extractDocumentText(await fixture('cv.docx'), DOCX_CONTENT_TYPE, 'cv.docx')
+
+    expect(result).toEqual({
+      method: 'docx',
+      sectionCount: 2,
+      text: [
+        'Amina Yusuf',
+        '',
+        '# Education',
+        'MSc Computer Science, University of Nairobi, 2021',
+        'GPA 3.7/4.0',
+        '',
+        '# Experience',
+        'Data analyst, Safaricom, 2021-2024',
+        'IELTS | 7.5',
+      ].join('\n'),
+    })
+  })
+
+  it('should recognise generic uploads by file extension', async () => {
+    const result = await extractDocumentText(await fixture('cv.docx'), 'application/octet-stream', 'CV.DOCX')
+    expect(result.method).toBe('docx')
+  })
+
+  it('should reject formats it cannot read', async () => {
+    await expect(extractDocumentText(Buffer.from('legacy'), 'application/msword', 'cv.doc'))
+      .rejects.toBeInstanceOf(UnsupportedDocumentError)
+  })
+})
@@ -0,0 +1,93 @@
+import { estimateTokens, extractMainContent } from '../mainContent'
+
+const page = `<!doctype html>
+<html>
+  <head>
+    <title>Chevening Scholarships | Chevening</title>
+    <style>body { font-family: sans-serif }</style>
+    <script>window.dataLayer = [{ event: 'pageview' }]</script>
+  </head>
+  <body>
+    <div class="cookie-consent">We use cookies to improve your experience. Accept all cookies?</div>
+    <header>
+      <a href="/">Chevening</a>
+      <nav><ul><li><a href="/about">About</a></li><li><a href="/apply">How to apply</a></li></ul></nav>
+    </header>
+    <main>
+      <h1>Chevening Scholarships</h1>
+      <p>Chevening Scholarships enable outstanding emerging leaders from all over the world to pursue a one-year master's degree in the UK.</p>
+      <h2>Eligibility</h2>
+      <ul>
+        <li>Be a citizen of a Chevening-eligible country</li>
+        <li>Have at least two years of work experience</li>
+      </ul>
+      <h2>Benefits</h2>
+      <table>
+        <tr><th>Item</th><th>Covered</th></tr>
+        <tr><td>University tuition fees</td><td>Full</td></tr>
+        <tr><td>Monthly stipend</td><td>Yes</td></tr>
+      </table>
+    </main>
+    <aside class="sidebar">
+      <h3>Key dates</h3>
+      <dl><dt>Application deadline</dt><dd>5 November 2099</dd></dl>
+      <ul><li><a href="/news/1">Latest news</a></li><li><a href="/news/2">Alumni stories</a></li></ul>
+    </aside>
+    <footer><p>© Chevening Secretariat. All rights reserved.</p><a href="/privacy">Privacy</a></footer>
+  </body>
+</html>`
+
+describe('extractMainContent', () => {
+  it('should keep headings, paragraphs, lists and tables of the main content', () => {
+    const { title, text } = extractMainContent(page)
+
+    expect(title).toBe('Chevening Scholarships | Chevening')
+    expect(text).toBe([
+      '# Chevening Scholarships',
+      "Chevening Scholarships enable outstanding emerging leaders from all over the world to pursue a one-year master's degree in the UK.",
+      '## Eligibility',
+      '- Be a citizen of a Chevening-eligible country',
+      '- Have at least two years of work experience',
+      '## Benefits',
+      'Item | Covered',
+      'University tuition fees | Full',
+      'Monthly stipend | Yes',
+      '- Application deadline: 5 November 2099',
+    ].join('\n'))
+  })
+
+  it('should drop scripts, navigation, cookie banners and footers', () => {
+    const { text } = extractMainContent(page)
+
+    expect(text).not.toMatch(/dataLayer|font-family|cookies|How to apply|Latest news|All rights reserved/)
+  })
+
+  it('should find the main content by scoring paragraphs when there are no landmarks', () => {
+    const html = `<body>
+      <div id="menu"><a href="/a">Home</a> <a href="/b">Programmes</a></div>
+      <div class="wrapper">
+        <div class="links"><a href="/x">One</a><a href="/y">Two</a></div>
+        <div class="body-copy">
+          <p>The MEXT scholarship covers tuition, a monthly allowance of 117,000 yen, and return airfare to Japan.</p>
+          <p>Applicants must be under 35, hold a bachelor's degree, and apply through the Japanese embassy in their country.</p>
+        </div>
+      </div>
+    </body>`
+
+    const { text } = extractMainContent(html)
+
+    expect(text).toContain('monthly allowance of 117,000 yen')
+    expect(text).toContain('apply through the Japanese embassy')
+    expect(text).not.toContain('Home')
+  })
+
+  it('should report the estimated token savings', () => {
+    const { text, stats } = extractMainContent(page)
+
+    expect(stats.originalChars).toBe(page.length)
+    expect(stats.reducedChars).toBe(text.length)
+    expect(stats.reducedTokens).toBe(estimateTokens(text))
+    expect(stats.savedTokens).toBe(stats.originalTokens - stats.reducedTokens)
+    expect(stats.savedRatio).toBeGreaterThan(0.4)
+  })
+})
@@ -0,0 +1,40 @@
+/**
+ * @jest-environment node
+ */
+import { promises as fs } from 'fs'
+import path from 'path'
+import { extractPdfText, isPdfResponse } from '../pdfText'
+
+const callPdf = path.join(__dirname, 'fixtures', 'research-grants-call.pdf')
+
+afterEach(() => {
+  jest.restoreAllMocks()
+})
+
+describe('extractPdfText', () => {
+  it('should extract the text layer of a PDF call', async () => {
+    const result = await extractPdfText(await fs.readFile(callPdf))
+
+    expect(result.pageCount).toBe(1)
+    expect(result.text).toBe([
+      'DAAD Research Grants - Call for Applications 2099',
+      'Application deadline: 30 June 2099',
+      'Monthly stipend: 1,300 EUR for doctoral candidates',
+    ].join('\n'))
+  })
+
+  it('should reject data that is not a PDF', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {}) // pdf.js reports parser warnings on stdout
+    await expect(extractPdfText(Buffer.from('<html></html>'))).rejects.toBeDefined()
+  })
+})
+
+describe('isPdfResponse', () => {
+  it('should recognise PDFs by content type or by extension for generic binaries', () => {
+    expect(isPdfResponse('application/pdf', 'https://www.daad.de/call')).toBe(true)
+    expect(isPdfResponse('application/octet-stream', 'https://www.daad.de/call.PDF')).toBe(true)
+    expect(isPdfResponse(null, 'https://www.daad.de/call.pdf?download=1')).toBe(true)
+    expect(isPdfResponse('text/html; charset=utf-8', 'https://www.daad.de/call.pdf')).toBe(false)
+    expect(isPdfResponse('application/octet-stream', 'https://www.daad.de/file.zip')).toBe(false)
+  })
+})
@@ -0,0 +1,127 @@
+/**
+ * @jest-environment node
+ */
+import { DEFAULT_REDACTION_POLICY, parseRedactionPolicy, redactPII } from '../piiRedaction'
+
+const cv = [
+  'Amina Yusuf',
+  'amina.yusuf@example.com | +254 712 345 678 | linkedin.com/in/aminayusuf',
+  'Address: 14 Ngong Road, Nairobi, Kenya',
+  '',
+  '# Education',
+  'MSc Computer Science, University of Nairobi, 2019 - 2021',
+  'GPA 3.7/4.0',
+  '',
+  '# Publications',
+  '- Yusuf, A. (2022). Mobile money and credit scoring. Journal of Fintech.',
+  '',
+  '# Languages',
+  'IELTS Academic 7.5 (May 2023)',
+].join('\n')
+
+describe('redactPII', () => {
+  it('should mask direct identifiers and keep the facts the extractor needs', () => {
+    const { text, counts } = redactPII(cv)
+
+    expect(text.split('\n').slice(0, 3)).toEqual([
+      '[NAME]',
+      '[EMAIL] | [PHONE] | [URL]',
+      'Address: [ADDRESS]',
+    ])
+    expect(text).toContain('- [NAME], A. (2022). Mobile money and credit scoring.')
+    expect(text).toContain('MSc Computer Science, University of Nairobi, 2019 - 2021')
+    expect(text).toContain('GPA 3.7/4.0')
+    expect(text).toContain('IELTS Academic 7.5 (May 2023)')
+    expect(counts).toEqual({ name: 2, email: 1, phone: 1, address: 1, url: 1 })
+  })
+
+  it('should keep countries and words that are also part of the name', () => {
+    const { text, counts } = redactPII([
+      'Grace Jordan',
+      'grace.j@example.com',
+      'Nationality: Jordan',
+      '',
+      '# Education',
+      'BSc Nursing, Jordan University of Science and Technology, 2020',
+      'Thesis: Grace under pressure in intensive care',
+      '',
+      '# Publications',
+      '- Jordan, G. and Haddad, R. (2021). Night shifts and burnout.',
+      '- Haddad R, Jordan G. (2022). Staffing ratios. BMJ Open.',
+      '- R. Haddad and G. Jordan (2023). Handover errors.',
+    ].join('\n'))
+
+    expect(text.split('\n')).toEqual([
+      '[NAME]',
+      '[EMAIL]',
+      'Nationality: Jordan',
+      '',
+      '# Education',
+      'BSc Nursing, Jordan University of Science and Technology, 2020',
+      'Thesis: Grace under pressure in intensive care',
+      '',
+      '# Publications',
+      '- [NAME], G. and Haddad, R. (2021). Night shifts and burnout.',
+      '- Haddad R, [NAME] G. (2022). Staffing ratios. BMJ Open.',
+      '- R. Haddad and G. [NAME] (2023). Handover errors.',
+    ])
+    expect(counts.name).toBe(4)
+  })
+
+  it('should mask parts of the name on a header line that reads like a name', () => {
+    const { text } = redactPII('Name: Amina Yusuf\nAmina W. Yusuf\nNationality: Kenya')
+
+    expect(text).toBe('Name: [NAME]\n[NAME] W. [NAME]\nNationality: Kenya')
+  })
+
+  it('should find the name below a heading', () => {
+    const { text } = redactPII('Personal Details\nAmina Yusuf\namina.yusuf@example.com\n\n# Education\nMSc Computer Science, 2021')
+
+    expect(text).toBe('Personal Details\n[NAME]\n[EMAIL]\n\n# Education\nMSc Computer Science, 2021')
+  })
+
+  it('should not take a job title for the name', () => {
+    const { text } = redactPII('Software Engineer\nJohn Smith\n+44 20 7946 0958\n\n# Education\nBSc Software Engineering, 2019')
+
+    expect(text).toBe('Software Engineer\n[NAME]\n[PHONE]\n\n# Education\nBSc Software Engineering, 2019')
+  })
+
+  it('should recognise common phone and street formats without touching dates', () => {
+    const { text } = redactPII('Tel: 0712 345 678\n(555) 123-4567\n22 Baker Street, London\nJan 2020 - Jun 2021\n2014 - 2018')
+
+    expect(text).toBe('Tel: [PHONE]\n[PHONE]\n[ADDRESS], London\nJan 2020 - Jun 2021\n2014 - 2018')
+  })
+
+  it('should replace hashed values consistently', () => {
+    const { text } = redactPII('a@b.io\nA@B.io\nc@d.io', { ...DEFAULT_REDACTION_POLICY, email: 'hash' })
+    const [first, second, third] = text.split('\n')
+
+    expect(first).toMatch(/^\[EMAIL:[0-9a-f]{8}\]$/)
+    expect(second).toBe(first)
+    expect(third).not.toBe(first)
+  })
+
+  it('should send allowed kinds unchanged', () => {
+    const { text, counts } = redactPII(cv, { ...DEFAULT_REDACTION_POLICY, url: 'allow', name: 'allow' })
+
+    expect(text).toContain('[EMAIL] | [PHONE] | linkedin.com/in/aminayusuf')
+    expect(text.startsWith('Amina Yusuf\n')).toBe(true)
+    expect(counts.url).toBe(0)
+  })
+})
+
+describe('parseRedactionPolicy', () => {
+  it('should apply a bare mode to every kind with per-kind overrides', () => {
+    expect(parseRedactionPolicy('url=allow, hash, bogus=allow, email=keep')).toEqual({
+      name: 'hash',
+      email: 'hash',
+      phone: 'hash',
+      address: 'hash',
+      url: 'allow',
+    })
+  })
+
+  it('should redact everything by default', () => {
+    expect(parseRedactionPolicy('')).toEqual(DEFAULT_REDACTION_POLICY)
+  })
+})
@@ -0,0 +1,77 @@
+import { DOCX_CONTENT_TYPE, extractDocxText } from '@/lib/documents/docxText';
+import { extractPdfText, PDF_CONTENT_TYPE } from '@/lib/documents/pdfText';
+
+export type TextExtractionMethod = 'pdf-text-layer' | 'docx';
+
+export interface DocumentText {
+  text: string;
+  method: TextExtractionMethod;
+  pageCount?: number; // PDFs
+  sectionCount?: number; // DOCX headings
+}
+
+// Below this many characters per page, a PDF is taken to be scanned
+const MIN_PDF_CHARS_PER_PAGE = 20;
+
+/**
+ * The PDF has no usable text layer, e.g. a scan or a photo of a document.
+ */
+export class ScannedDocumentError extends Error {
+  constructor(readonly pageCount: number) {
+    super('The PDF has no text layer; it looks scanned or image-only');
+    this.name = 'ScannedDocumentError';
+  }
+}
+
+/**
+ * The document format cannot be read locally.
+ */
+export class UnsupportedDocumentError extends Error {
+  constructor(readonly contentType: string) {
+    super(`Cannot extract text from ${contentType || 'this file type'}; upload a PDF or DOCX file`);
+    this.name = 'UnsupportedDocumentError';
+  }
+}
+
+/**
+ * Extracts the text of an uploaded PDF or DOCX document locally. Page boundaries of
+ * multi-page PDFs are kept as `--- Page N ---` lines, and DOCX headings as `#` lines.
+ * @param data - File bytes.
+ * @param contentType - MIME type of the upload.
+ * @param fileName - File name, used when the MIME type is missing or generic.
+ * @returns The text and how it was extracted.
+ * @throws ScannedDocumentError for a PDF without a text layer.
+ * @throws UnsupportedDocumentError for any other format, including legacy .doc files.
+ */
+export async function extractDocumentText(data: ArrayBuffer | Uint8Array, contentType: string, fileName = ''): Promise<DocumentText> {
+  const type = documentType(contentType, fileName);
+
+  if (type === 'pdf') {
+    const { pages, pageCount } = await extractPdfText(data);
+    const chars = pages.join('').replace(/\s/g, '').length;
+    if (chars < MIN_PDF_CHARS_PER_PAGE * Math.max(1, pageCount)) {
+      throw new ScannedDocumentError(pageCount);
+    }
+    const text = pages.length > 1
+      ? pages.map((page, index) => `--- Page ${index + 1} ---\n${page}`).join('\n\n')
+      : pages.join('');
+    return { text, method: 'pdf-text-layer', pageCount };
+  }
+
+  if (type === 'docx') {
+    const { text, sectionCount } = await extractDocxText(data);
+    return { text, method: 'docx', sectionCount };
+  }
+
+  throw new UnsupportedDocumentError(contentType);
+}
+
+function documentType(contentType: string, fileName: string): 'pdf' | 'docx' | null {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  if (type === PDF_CONTENT_TYPE) return 'pdf';
+  if (type === DOCX_CONTENT_TYPE) return 'docx';
+  if (type && type !== 'application/octet-stream') return null;
+
+  const extension = fileName.toLowerCase().split('.').pop();
+  return extension === 'pdf' ? 'pdf' : extension === 'docx' ? 'docx' : null;
+}
@@ -0,0 +1,60 @@
+import { JSDOM } from 'jsdom';
+import mammoth from 'mammoth';
+
+export const DOCX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+export interface DocxText {
+  text: string; // `#` headings, paragraphs, `- ` list items and ` | `-separated table rows
+  sectionCount: number; // Headings in the document
+}
+
+/**
+ * Extracts the text of a Word (.docx) document locally. Headings are kept as `#` lines so
+ * sections such as Education and Experience stay apart.
+ * @param data - DOCX bytes.
+ * @returns The text and the number of sections.
+ * @throws When the data is not a DOCX file.
+ */
+export async function extractDocxText(data: ArrayBuffer | Uint8Array): Promise<DocxText> {
+  const buffer = Buffer.from(data instanceof ArrayBuffer ? new Uint8Array(data) : data);
+  const { value: html } = await mammoth.convertToHtml({ buffer });
+
+  const { document } = new JSDOM(`<body>${html}</body>`).window;
+  const blocks = Array.from(document.body.children).flatMap(blockText);
+
+  return {
+    text: blocks.join('\n').trim(),
+    sectionCount: blocks.filter(block => block.startsWith('#')).length,
+  };
+}
+
+function blockText(element: Element): string[] {
+  const heading = /^H([1-6])$/.exec(element.tagName);
+  if (heading) {
+    const text = normalize(element.textContent);
+    // A blank line before each heading marks the section boundary
+    return text ? ['', `${'#'.repeat(Number(heading[1]))} ${text}`] : [];
+  }
+  if (element.tagName === 'UL' || element.tagName === 'OL') {
+    return Array.from(element.children).flatMap(item => {
+      const text = normalize(Array.from(item.childNodes)
+        .filter(node => node.nodeName !== 'UL' && node.nodeName !== 'OL')
+        .map(node => node.textContent)
+        .join(''));
+      const nested = Array.from(item.children).filter(child => child.tagName === 'UL' || child.tagName === 'OL');
+      return [...(text ? [`- ${text}`] : []), ...nested.flatMap(blockText)];
+    });
+  }
+  if (element.tagName === 'TABLE') {
+    return Array.from(element.querySelectorAll('tr'))
+      .map(row => Array.from(row.children).map(cell => normalize(cell.textContent)).filter(Boolean).join(' | '))
+      .filter(Boolean);
+  }
+
+  const text = normalize(element.textContent);
+  return text ? [text] : [];
+}
+
+function normalize(text: string | null): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
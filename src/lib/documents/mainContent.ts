@@ -0,0 +1,264 @@
+import { JSDOM } from 'jsdom';
+
+export interface ContentReductionStats {
+  originalChars: number;
+  reducedChars: number;
+  originalTokens: number; // Estimated
+  reducedTokens: number; // Estimated
+  savedTokens: number;
+  savedRatio: number; // Share of tokens saved, 0..1
+}
+
+export interface MainContent {
+  title: string;
+  text: string; // Headings, paragraphs, lists and tables as plain text
+  stats: ContentReductionStats;
+}
+
+// Never content: removed before anything else
+const NOISE_SELECTOR = [
+  'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'embed',
+  'button', 'select', 'input', 'textarea', 'dialog', 'link', 'meta',
+  '[hidden]', '[aria-hidden="true"]',
+].join(',');
+
+// Page chrome around the main content
+const CHROME_SELECTOR = [
+  'nav', 'aside', 'header', 'footer',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]', '[role="search"]',
+].join(',');
+
+const UNLIKELY_CANDIDATE = /cookie|consent|banner|breadcrumb|menu|navbar|footer|header|sidebar|social|share|newsletter|popup|modal|advert|promo|related|comment|skip-link/i;
+const LIKELY_CANDIDATE = /content|article|main|body|entry|post|text|scholarship|programme|program/i;
+
+// Sections worth keeping even when they sit in page chrome
+const RELEVANT_TEXT = /deadline|closing date|apply|application|eligib|requirement|criteria|benefit|stipend|allowance|tuition|funding|fees?\b|duration|nationalit|language|ielts|toefl|gpa/i;
+
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'DD', 'DETAILS', 'DIV', 'DL', 'DT', 'FIELDSET', 'FIGCAPTION', 'FIGURE',
+  'FOOTER', 'FORM', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER', 'HR', 'LI', 'MAIN', 'NAV', 'OL', 'P', 'PRE',
+  'SECTION', 'SUMMARY', 'TABLE', 'UL',
+]);
+
+const MIN_MAIN_TEXT_CHARS = 140;
+const MAX_LINK_DENSITY = 0.5;
+
+/**
+ * Rough token count for English text, at about four characters per token.
+ * @param text - Any text.
+ * @returns Estimated number of tokens.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Readability-style reduction of a page to its main content. Scripts, navigation, headers,
+ * footers and cookie banners are dropped; the main container is found through landmarks or
+ * by scoring paragraphs. Headings, paragraphs, lists and tables are kept as plain text, and
+ * tables or lists about deadlines, benefits or eligibility outside the main container are
+ * appended so they are never lost.
+ * @param html - Page HTML.
+ * @returns The reduced text, the page title and the size savings.
+ */
+export function extractMainContent(html: string): MainContent {
+  const { document } = new JSDOM(html).window;
+  const body = document.body;
+  const title = normalize(document.title) || normalize(document.querySelector('h1')?.textContent);
+
+  if (!body) {
+    return { title, text: '', stats: reductionStats(html, '') };
+  }
+
+  body.querySelectorAll(NOISE_SELECTOR).forEach(element => element.remove());
+  body.querySelectorAll<HTMLElement>('[style]').forEach(element => {
+    if (/display\s*:\s*none|visibility\s*:\s*hidden/i.test(element.getAttribute('style') || '')) element.remove();
+  });
+
+  const chrome = Array.from(body.querySelectorAll(CHROME_SELECTOR)).filter(element =>
+    // Article headers and footers often hold the title or the deadline
+    !element.closest('article, main, [role="main"]') || element.matches('nav, aside, [role="navigation"]')
+  );
+  const unlikely = Array.from(body.querySelectorAll('[class], [id]')).filter(element => {
+    const signature = `${element.getAttribute('class') || ''} ${element.id}`;
+    return UNLIKELY_CANDIDATE.test(signature) && !LIKELY_CANDIDATE.test(signature) && !element.matches('main, article');
+  });
+  const boilerplate = [...chrome, ...unlikely];
+
+  // Keep relevant tables and lists from the boilerplate, e.g. a "key facts" sidebar
+  const rescued = boilerplate
+    .flatMap(element => Array.from(element.querySelectorAll('table, ul, ol, dl')))
+    .filter((element, index, all) => all.indexOf(element) === index)
+    .filter(element => isRelevant(element) && linkDensity(element) <= MAX_LINK_DENSITY);
+
+  boilerplate.forEach(element => element.remove());
+
+  const root = findMainContainer(body);
+  const blocks = toBlocks(root);
+  rescued
+    .filter(element => !root.contains(element))
+    .forEach(element => blocks.push(...blockText(element)));
+
+  let text = blocks.join('\n');
+  if (!text) {
+    text = normalize(body.textContent);
+  }
+
+  return { title, text, stats: reductionStats(html, text) };
+}
+
+/**
+ * Landmark elements when they hold enough text, otherwise the element whose paragraphs
+ * score highest, as in Readability.
+ */
+function findMainContainer(body: HTMLElement): Element {
+  const landmarks = Array.from(body.querySelectorAll('main, [role="main"], article'))
+    .filter(element => textLength(element) >= MIN_MAIN_TEXT_CHARS);
+  if (landmarks.length > 0) {
+    // Prefer the outermost landmark, e.g. a <main> wrapping several <article>s
+    return landmarks.find(element => !landmarks.some(other => other !== element && other.contains(element))) ?? landmarks[0];
+  }
+
+  const scores = new Map<Element, number>();
+  body.querySelectorAll('p, td, pre, li, dd').forEach(paragraph => {
+    const length = textLength(paragraph);
+    if (length < 25) return;
+
+    const score = 1 + (paragraph.textContent || '').split(',').length + Math.min(Math.floor(length / 100), 3);
+    const parent = paragraph.parentElement;
+    const grandparent = parent?.parentElement;
+    if (parent) scores.set(parent, (scores.get(parent) ?? 0) + score);
+    if (grandparent) scores.set(grandparent, (scores.get(grandparent) ?? 0) + score / 2);
+  });
+
+  let best: Element = body;
+  let bestScore = 0;
+  scores.forEach((score, element) => {
+    const adjusted = score * (1 - linkDensity(element));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  });
+
+  // A lone winning block usually means the content is spread over siblings
+  return best.parentElement && best !== body && textLength(best) < MIN_MAIN_TEXT_CHARS ? best.parentElement : best;
+}
+
+/**
+ * Plain-text blocks for an element: `#` headings, paragraphs, `- ` list items and
+ * ` | `-separated table rows. Link-heavy paragraphs and lists are dropped.
+ */
+function toBlocks(element: Element): string[] {
+  const blocks: string[] = [];
+  let inline = '';
+
+  const flush = () => {
+    const text = normalize(inline);
+    if (text) blocks.push(text);
+    inline = '';
+  };
+
+  element.childNodes.forEach(node => {
+    if (node.nodeType === node.TEXT_NODE) {
+      inline += node.textContent;
+      return;
+    }
+    if (node.nodeType !== node.ELEMENT_NODE) return;
+
+    const child = node as Element;
+    if (child.tagName === 'BR') {
+      inline += ' ';
+      return;
+    }
+    if (!BLOCK_TAGS.has(child.tagName)) {
+      inline += child.textContent;
+      return;
+    }
+
+    flush();
+    blocks.push(...blockText(child));
+  });
+  flush();
+
+  return blocks;
+}
+
+function blockText(element: Element): string[] {
+  const tag = element.tagName;
+  const text = normalize(element.textContent);
+  if (!text) return [];
+
+  const heading = /^H([1-6])$/.exec(tag);
+  if (heading) {
+    return [`${'#'.repeat(Number(heading[1]))} ${text}`];
+  }
+  if (tag === 'P' || tag === 'PRE' || tag === 'BLOCKQUOTE') {
+    return linkDensity(element) > MAX_LINK_DENSITY ? [] : [text];
+  }
+  if (tag === 'UL' || tag === 'OL') {
+    if (linkDensity(element) > MAX_LINK_DENSITY) return [];
+    return Array.from(element.children)
+      .filter(item => item.tagName === 'LI')
+      .map(item => normalize(item.textContent))
+      .filter(Boolean)
+      .map(item => `- ${item}`);
+  }
+  if (tag === 'DL') {
+    // Pair each term with its descriptions, e.g. "- Application deadline: 5 November"
+    const entries: string[] = [];
+    Array.from(element.children).forEach(item => {
+      const itemText = normalize(item.textContent);
+      if (!itemText) return;
+      if (item.tagName === 'DD' && entries.length > 0) {
+        const last = entries.length - 1;
+        entries[last] += entries[last].includes(': ') ? `; ${itemText}` : `: ${itemText}`;
+      } else {
+        entries.push(`- ${itemText}`);
+      }
+    });
+    return entries;
+  }
+  if (tag === 'TABLE') {
+    return Array.from(element.querySelectorAll('tr'))
+      .map(row => Array.from(row.children).map(cell => normalize(cell.textContent)).filter(Boolean).join(' | '))
+      .filter(Boolean);
+  }
+  if (tag === 'HR') return [];
+
+  return toBlocks(element);
+}
+
+function isRelevant(element: Element): boolean {
+  return RELEVANT_TEXT.test(element.textContent || '');
+}
+
+function linkDensity(element: Element): number {
+  const length = textLength(element);
+  if (length === 0) return 0;
+  const linkLength = Array.from(element.querySelectorAll('a'))
+    .reduce((total, link) => total + textLength(link), 0);
+  return linkLength / length;
+}
+
+function textLength(element: Element): number {
+  return normalize(element.textContent).length;
+}
+
+function normalize(text?: string | null): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+function reductionStats(original: string, reduced: string): ContentReductionStats {
+  const originalTokens = estimateTokens(original);
+  const reducedTokens = estimateTokens(reduced);
+  const savedTokens = Math.max(originalTokens - reducedTokens, 0);
+  return {
+    originalChars: original.length,
+    reducedChars: reduced.length,
+    originalTokens,
+    reducedTokens,
+    savedTokens,
+    savedRatio: originalTokens > 0 ? savedTokens / originalTokens : 0,
+  };
+}
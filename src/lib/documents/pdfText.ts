@@ -0,0 +1,83 @@
+import pdfParse from 'pdf-parse';
+
+export const PDF_CONTENT_TYPE = 'application/pdf';
+
+export interface PdfText {
+  text: string;
+  pages: string[]; // Text of each page read, in order
+  pageCount: number;
+}
+
+export interface PdfTextOptions {
+  maxPages?: number; // Stop after this many pages; 0 reads them all
+}
+
+/**
+ * Whether a response is a PDF, by Content-Type or, for generic binary types, by file extension.
+ * @param contentType - Content-Type header value, if any.
+ * @param url - URL the response came from.
+ * @returns True if the body should be treated as a PDF.
+ */
+export function isPdfResponse(contentType: string | null, url: string): boolean {
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+  if (type === PDF_CONTENT_TYPE) return true;
+  if (type && type !== 'application/octet-stream') return false;
+
+  try {
+    return new URL(url).pathname.toLowerCase().endsWith('.pdf');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Extracts the text layer of a PDF locally, so only text is sent on to the LLM.
+ * Scanned PDFs without a text layer yield an empty string.
+ * @param data - PDF bytes.
+ * @param options - Page limit.
+ * @returns The text with runs of blank lines collapsed, the text of each page and the document's page count.
+ */
+export async function extractPdfText(data: ArrayBuffer | Uint8Array, options: PdfTextOptions = {}): Promise<PdfText> {
+  // pdf.js misreads Node Buffers that are views into a larger pooled ArrayBuffer, so hand it a plain copy
+  const bytes = new Uint8Array(data instanceof ArrayBuffer ? data.slice(0) : Uint8Array.from(data));
+  const pages: string[] = [];
+  const result = await pdfParse(bytes as Buffer, {
+    max: options.maxPages ?? 0,
+    // pdf-parse renders pages one after another, so they arrive in order
+    pagerender: async pageData => {
+      const text = await renderPage(pageData);
+      pages.push(cleanText(text));
+      return text;
+    },
+  });
+
+  return { text: cleanText(result.text), pages, pageCount: result.numpages };
+}
+
+// pdf-parse's default page renderer: text items on one line until the y position changes
+async function renderPage(pageData: PdfPage): Promise<string> {
+  const content = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+  let text = '';
+  let lastY: number | undefined;
+  for (const item of content.items) {
+    text += lastY === undefined || lastY === item.transform[5] ? item.str : `\n${item.str}`;
+    lastY = item.transform[5];
+  }
+  return text;
+}
+
+function cleanText(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/[ \t\f\v]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// The part of pdf.js's page proxy that page rendering uses
+interface PdfPage {
+  getTextContent(options: { normalizeWhitespace: boolean; disableCombineTextItems: boolean }): Promise<{
+    items: Array<{ str: string; transform: number[] }>;
+  }>;
+}
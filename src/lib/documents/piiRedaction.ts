@@ -0,0 +1,236 @@
+import crypto from 'crypto';
+
+/**
+ * Direct identifiers that are masked in CV text before it is sent to the LLM.
+ */
+export type PIIKind = 'name' | 'email' | 'phone' | 'address' | 'url';
+
+/**
+ * What happens to an identifier: `redact` replaces it with a placeholder such as `[EMAIL]`,
+ * `hash` with a placeholder carrying a short keyed hash (`[EMAIL:1f3a9c0b]`), so repeats of
+ * one value stay recognisable, and `allow` sends it unchanged.
+ */
+export type RedactionMode = 'redact' | 'hash' | 'allow';
+
+export type RedactionPolicy = Record<PIIKind, RedactionMode>;
+
+export interface RedactionResult {
+  text: string;
+  counts: Record<PIIKind, number>; // Values masked per kind
+}
+
+export const PII_KINDS: PIIKind[] = ['name', 'email', 'phone', 'address', 'url'];
+
+export const PII_LABELS: Record<PIIKind, string> = {
+  name: 'Your name',
+  email: 'Email addresses',
+  phone: 'Phone numbers',
+  address: 'Street and postal addresses',
+  url: 'Web links, such as LinkedIn or GitHub profiles',
+};
+
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+  name: 'redact',
+  email: 'redact',
+  phone: 'redact',
+  address: 'redact',
+  url: 'redact',
+};
+
+const MODES: RedactionMode[] = ['redact', 'hash', 'allow'];
+
+// Per process, so hashes cannot be reversed by hashing guessed phone numbers or emails
+const HASH_KEY = crypto.randomBytes(32);
+
+interface PIIPattern {
+  kind: PIIKind;
+  pattern: RegExp;
+  group?: number; // Only this capture group is masked, e.g. the value after "Address:"
+  accept?: (value: string, offset: number, input: string) => boolean;
+}
+
+const LETTER = "A-Za-z\\u00C0-\\u024F";
+const NAME_WORD = `[A-Z\\u00C0-\\u00DE][${LETTER}'’.-]+`;
+const NAME_LINE = new RegExp(`^${NAME_WORD}(?:\\s+${NAME_WORD}){1,3}$`);
+const NAME_LABEL = /^\s*(?:full\s+)?name\s*:\s*(.+?)\s*$/im;
+// Words of CV headings and job titles, which read like names but are not
+const NOT_A_NAME = new Set([
+  'curriculum', 'vitae', 'resume', 'résumé', 'cv', 'profile', 'personal', 'details', 'information',
+  'contact', 'summary', 'about', 'objective', 'education', 'experience', 'skills', 'languages',
+  'publications', 'references', 'software', 'data', 'engineer', 'developer', 'scientist', 'analyst',
+  'manager', 'researcher', 'research', 'student', 'assistant', 'consultant', 'designer', 'officer',
+  'lecturer', 'professor', 'teacher', 'doctor', 'nurse', 'intern', 'architect', 'specialist',
+  'director', 'senior', 'junior', 'lead', 'candidate', 'graduate', 'fellow', 'associate',
+  'technician', 'economist', 'accountant', 'engineering', 'science', 'university', 'college',
+]);
+// The name is looked for in the CV's header only
+const HEADER_LINES = 10;
+const PAGE_MARKER = /^--- Page \d+ ---$/;
+
+// Earlier patterns run first, so an email is masked before its domain can look like a link
+const PII_PATTERNS: PIIPattern[] = [
+  { kind: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g },
+  {
+    kind: 'url',
+    pattern: /\bhttps?:\/\/[^\s<>"]+|\b(?:www\.)?(?:linkedin\.com|github\.com|gitlab\.com|twitter\.com|x\.com|orcid\.org|researchgate\.net|scholar\.google\.[a-z.]+)\/[^\s<>"]*/gi,
+  },
+  {
+    kind: 'phone',
+    // International (+254 712 345 678, 0044 20 7946 0958), North American ((555) 123-4567)
+    // and local numbers with a leading zero (0712 345 678); year ranges never match
+    pattern: /(?:\+|\b00)\d{1,3}[ .-]?\(?\d{1,4}\)?(?:[ .-]?\d{2,4}){2,4}\b|\(\d{3}\) ?\d{3}[ .-]\d{4}\b|\b\d{3}[.-]\d{3}[.-]\d{4}\b|\b0\d{2,4}[ .-]?\d{3}[ .-]?\d{3,4}\b/g,
+    accept: value => {
+      const digits = value.replace(/\D/g, '').length;
+      return digits >= 8 && digits <= 15;
+    },
+  },
+  { kind: 'address', pattern: /^\s*(?:[-•*]\s*)?(?:home\s+|postal\s+|mailing\s+|permanent\s+)?address\s*:\s*(.+?)\s*$/gim, group: 1 },
+  { kind: 'address', pattern: /\bP\.?\s?O\.?\s+Box\s+\d+(?:\s*-\s*\d+)?/gi },
+  {
+    kind: 'address',
+    // House number and street; the city and country after it are kept for eligibility
+    pattern: /\b\d{1,5}[A-Za-z]?,?\s+(?:[A-Z][A-Za-z'’.-]*\s+){1,4}(?:Street|St|Road|Rd|Avenue|Ave|Lane|Ln|Boulevard|Blvd|Drive|Way|Close|Crescent|Court|Place|Square|Strasse|Straße)\b\.?/g,
+  },
+];
+
+/**
+ * Parses `CV_PII_POLICY`, e.g. `redact`, `hash` or `redact,url=allow,email=hash`. A bare mode
+ * applies to every kind and `kind=mode` pairs override it.
+ * @param value - Comma-separated modes and `kind=mode` pairs.
+ * @returns The policy; unknown kinds and modes are ignored, and unset kinds are redacted.
+ */
+export function parseRedactionPolicy(value: string = process.env.CV_PII_POLICY || ''): RedactionPolicy {
+  const entries = value.split(',').map(entry => entry.trim().toLowerCase()).filter(Boolean);
+  const policy = { ...DEFAULT_REDACTION_POLICY };
+
+  const fallback = entries.find(entry => isMode(entry));
+  if (fallback) {
+    for (const kind of PII_KINDS) policy[kind] = fallback as RedactionMode;
+  }
+  for (const entry of entries) {
+    const [kind, mode] = entry.split('=').map(part => part.trim());
+    if (isKind(kind) && isMode(mode)) policy[kind] = mode;
+  }
+  return policy;
+}
+
+/**
+ * Masks names, emails, phone numbers, street addresses and links in CV text, following the
+ * policy for each kind. The name is read from a `Name:` line or the CV's first line and masked
+ * wherever it appears; its parts alone are masked only where they are used as a name, in
+ * publication author lists ("Yusuf, A.") and on name lines of the header.
+ * @param text - CV text, as extracted by `extractDocumentText`.
+ * @param policy - Mode per kind of identifier.
+ * @returns The masked text and how many values of each kind were masked.
+ */
+export function redactPII(text: string, policy: RedactionPolicy = DEFAULT_REDACTION_POLICY): RedactionResult {
+  const counts = PII_KINDS.reduce((all, kind) => ({ ...all, [kind]: 0 }), {} as Record<PIIKind, number>);
+  const name = findName(text); // Before other masking, which could change the first line
+
+  const patterns = name ? PII_PATTERNS.concat(namePatterns(name)) : PII_PATTERNS;
+  let masked = text;
+  for (const { kind, pattern, group, accept } of patterns) {
+    const mode = policy[kind];
+    if (mode === 'allow') continue;
+
+    masked = masked.replace(pattern, (match: string, ...groups: unknown[]) => {
+      const value = group ? String(groups[group - 1]) : match;
+      // The match's offset and the input string follow the capture groups
+      const offset = (groups[groups.length - 2] as number) + match.indexOf(value);
+      if (accept && !accept(value, offset, groups[groups.length - 1] as string)) return match;
+      counts[kind]++;
+      return match.replace(value, () => placeholder(kind, value, mode));
+    });
+  }
+  return { text: masked, counts };
+}
+
+function isKind(value: string | undefined): value is PIIKind {
+  return PII_KINDS.indexOf(value as PIIKind) !== -1;
+}
+
+function isMode(value: string | undefined): value is RedactionMode {
+  return MODES.indexOf(value as RedactionMode) !== -1;
+}
+
+// The labelled name, or a header line that reads like a name ("Amina Yusuf") and is not a
+// heading or job title; a line next to the email or phone line is preferred
+function findName(text: string): string | undefined {
+  const labelled = NAME_LABEL.exec(text);
+  if (labelled) return labelled[1];
+
+  const header = text.split('\n')
+    .map(line => line.trim())
+    .filter(isCountedLine)
+    .slice(0, HEADER_LINES);
+  const isContact = (line: string | undefined) => line !== undefined &&
+    (/@/.test(line) || PII_PATTERNS.some(({ kind, pattern }) => kind === 'phone' && new RegExp(pattern.source).test(line)));
+
+  const nextToContact = header.find((line, i) => readsLikeName(line) && (isContact(header[i - 1]) || isContact(header[i + 1])));
+  return nextToContact ?? header.find(readsLikeName);
+}
+
+function readsLikeName(line: string | undefined): boolean {
+  return line !== undefined && NAME_LINE.test(line) &&
+    line.split(/\s+/).every(word => !NOT_A_NAME.has(word.toLowerCase()));
+}
+
+// Blank lines and page markers do not count towards the header
+function isCountedLine(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed !== '' && !PAGE_MARKER.test(trimmed);
+}
+
+// The trimmed line around `offset`, or undefined when it is below the CV's header
+function headerLineAt(text: string, offset: number): string | undefined {
+  const before = text.slice(0, offset).split('\n');
+  if (before.slice(0, -1).filter(isCountedLine).length >= HEADER_LINES) return undefined;
+
+  const start = offset - before[before.length - 1].length;
+  const end = text.indexOf('\n', offset);
+  return text.slice(start, end === -1 ? undefined : end).trim();
+}
+
+// The full name between non-letters, and its capitalised parts where they are used as a name.
+// Parts alone are not masked elsewhere, as they are often places or words too ("Jordan", "Grace")
+function namePatterns(name: string): PIIPattern[] {
+  const full: PIIPattern = {
+    kind: 'name',
+    pattern: new RegExp(`(^|[^${LETTER}])(${escapeName(name.trim())})(?![${LETTER}])`, 'g'),
+    group: 2,
+  };
+  const parts = name.split(/\s+/)
+    .map(part => part.replace(/[.,]+$/, ''))
+    .filter(part => part.length >= 3 && /^[A-Z\u00C0-\u00DE]/.test(part))
+    .sort((a, b) => b.length - a.length)
+    .map(escapeName)
+    .join('|');
+  if (!parts) return [full];
+
+  return [
+    full,
+    // Surname before initials in an author list: "Yusuf, A." or "Yusuf AM,"
+    { kind: 'name', pattern: new RegExp(`(^|[^${LETTER}])(${parts})(?=,?\\s+[A-Z]\\.|\\s+[A-Z]{1,2}[,.;])`, 'g'), group: 2 },
+    // Surname after initials: "A. Yusuf"
+    { kind: 'name', pattern: new RegExp(`([A-Z]\\.\\s+)(${parts})(?![${LETTER}])`, 'g'), group: 2 },
+    // A header line that reads like a name but is not the full name, e.g. "Amina W. Yusuf"
+    {
+      kind: 'name',
+      pattern: new RegExp(`(^|[^${LETTER}])(${parts})(?![${LETTER}])`, 'g'),
+      group: 2,
+      accept: (_value, offset, input) => readsLikeName(headerLineAt(input, offset)),
+    },
+  ];
+}
+
+function escapeName(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+}
+
+function placeholder(kind: PIIKind, value: string, mode: RedactionMode): string {
+  const tag = kind.toUpperCase();
+  if (mode !== 'hash') return `[${tag}]`;
+
+  const normalized = value.toLowerCase().replace(/\s+/g, ' ').trim();
+  return `[${tag}:${crypto.createHmac('sha256', HASH_KEY).update(normalized).digest('hex').slice(0, 8)}]`;
+}
@@ -0,0 +1,84 @@
+import {
+  GenerateJSONRequest,
+  GenerateJSONResult,
+  LLMClient,
+  LLMMessage,
+  LLMOutputError,
+  LLMUsage,
+  LLMUsageTotals,
+} from './LLMClient';
+import { parseJsonResponse } from './json';
+import { getUsageLedger, UsageLedger } from './usageLedger';
+
+export interface Completion {
+  text: string;
+  usage: LLMUsage;
+}
+
+/**
+ * Shared part of every client: conversation normalisation, JSON parsing and schema
+ * validation, latency and usage accounting. Every call is written to the usage ledger and
+ * refused with `LLMBudgetExceededError` once its feature's daily budget is spent.
+ * Subclasses only produce the raw completion.
+ */
+export abstract class BaseLLMClient implements LLMClient {
+  abstract readonly name: string;
+  abstract readonly defaultModel: string;
+
+  private totals: LLMUsageTotals = { requests: 0, failures: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+  constructor(private ledger: UsageLedger = getUsageLedger()) {}
+
+  protected abstract complete(messages: LLMMessage[], model: string, request: GenerateJSONRequest<unknown>): Promise<Completion>;
+
+  async generateJSON<T = unknown>(request: GenerateJSONRequest<T>): Promise<GenerateJSONResult<T>> {
+    const model = request.model ?? this.defaultModel;
+    const messages = typeof request.prompt === 'string' ? [{ role: 'user' as const, text: request.prompt }] : request.prompt;
+    const feature = request.feature ?? 'default';
+    this.ledger.assertBudget(feature);
+
+    const startedAt = Date.now();
+    this.totals.requests++;
+    const record = (usage: LLMUsage, success: boolean) => this.ledger.record({
+      feature,
+      provider: this.name,
+      model,
+      ...usage,
+      latencyMs: Date.now() - startedAt,
+      cacheHit: false,
+      success,
+    });
+
+    let completion: Completion;
+    try {
+      completion = await this.complete(messages, model, request as GenerateJSONRequest<unknown>);
+    } catch (error) {
+      this.totals.failures++;
+      record({ promptTokens: 0, completionTokens: 0, totalTokens: 0 }, false);
+      throw error;
+    }
+
+    const { text, usage } = completion;
+    this.totals.promptTokens += usage.promptTokens;
+    this.totals.completionTokens += usage.completionTokens;
+    this.totals.totalTokens += usage.totalTokens;
+
+    const parsed = parseJsonResponse(text, request.schema);
+    record(usage, parsed.success);
+    if (!parsed.success) {
+      this.totals.failures++;
+      throw new LLMOutputError(
+        `${this.name} output for ${request.feature ?? 'request'} does not match the expected JSON`,
+        text,
+        parsed.errors,
+        usage
+      );
+    }
+
+    return { data: parsed.data, text, model, usage, latencyMs: Date.now() - startedAt };
+  }
+
+  getUsage(): LLMUsageTotals {
+    return { ...this.totals };
+  }
+}
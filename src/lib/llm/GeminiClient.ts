@@ -0,0 +1,150 @@
+import { httpFetch } from '@/lib/utils/httpFixtures';
+import { estimateTokens } from '@/lib/documents/mainContent';
+import { BaseLLMClient, Completion } from './BaseLLMClient';
+import { GenerateJSONRequest, LLMMessage, LLMRequestError } from './LLMClient';
+import type { UsageLedger } from './usageLedger';
+
+const GEMINI_ENDPOINT = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-1.5-flash';
+
+export interface GeminiClientOptions {
+  apiKey?: string;
+  model?: string;
+  timeoutMs?: number; // Per attempt
+  retries?: number; // Extra attempts after 429, 5xx, timeouts and network errors
+  backoffMs?: number; // First retry delay, doubled on every further attempt
+  ledger?: UsageLedger; // Defaults to the shared ledger
+}
+
+interface GeminiResponse {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number };
+}
+
+/**
+ * LLM client for the Gemini `generateContent` API in JSON mode. The API key is sent in the
+ * `x-goog-api-key` header so it never appears in URLs, logs or recorded fixtures.
+ */
+export class GeminiClient extends BaseLLMClient {
+  readonly name = 'gemini';
+  readonly defaultModel: string;
+  private apiKey: string;
+  private timeoutMs: number;
+  private retries: number;
+  private backoffMs: number;
+
+  constructor(options: GeminiClientOptions = {}) {
+    super(options.ledger);
+    this.apiKey = options.apiKey ?? (process.env.GEMINI_API_KEY || 'YOUR_GEMINI_API_KEY');
+    this.defaultModel = options.model ?? (process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL);
+    this.timeoutMs = options.timeoutMs ?? readNumber('LLM_TIMEOUT_MS', 30000);
+    this.retries = options.retries ?? readNumber('LLM_MAX_RETRIES', 2);
+    this.backoffMs = options.backoffMs ?? 500;
+  }
+
+  protected async complete(messages: LLMMessage[], model: string, request: GenerateJSONRequest<unknown>): Promise<Completion> {
+    const body = JSON.stringify({
+      contents: messages.map(message => ({ role: message.role, parts: [{ text: message.text }] })),
+      generationConfig: { response_mime_type: 'application/json' },
+    });
+    const retries = request.retries ?? this.retries;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const data = await this.post(model, body, request.timeoutMs ?? this.timeoutMs, request.signal);
+        const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+        if (typeof text !== 'string') {
+          throw new LLMRequestError('Gemini returned no content');
+        }
+
+        const promptTokens = data.usageMetadata?.promptTokenCount ?? estimateTokens(messages.map(m => m.text).join('\n'));
+        const completionTokens = data.usageMetadata?.candidatesTokenCount ?? estimateTokens(text);
+        return {
+          text,
+          usage: {
+            promptTokens,
+            completionTokens,
+            totalTokens: data.usageMetadata?.totalTokenCount ?? promptTokens + completionTokens,
+          },
+        };
+      } catch (error) {
+        // Network errors are worth retrying; so are rate limits, server errors and timeouts
+        const retryable = error instanceof LLMRequestError ? error.retryable : !request.signal?.aborted;
+        if (!retryable || attempt >= retries) throw error;
+
+        const delay = (error instanceof LLMRequestError && error.retryAfterMs) || this.backoffMs * 2 ** attempt;
+        console.warn(`Gemini ${request.feature ?? 'request'} failed (attempt ${attempt + 1}), retrying in ${delay}ms:`, (error as Error).message);
+        await sleep(delay, request.signal);
+      }
+    }
+  }
+
+  /**
+   * One generateContent call with its own timeout.
+   */
+  private async post(model: string, body: string, timeoutMs: number, signal?: AbortSignal): Promise<GeminiResponse> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener('abort', forwardAbort);
+
+    try {
+      const response = await httpFetch(`${GEMINI_ENDPOINT}/${model}:generateContent`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-goog-api-key': this.apiKey,
+        },
+        body,
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const details = await response.text?.().catch(() => '') ?? '';
+        const retryable = response.status === 429 || response.status >= 500;
+        const retryAfter = Number(response.headers?.get('retry-after'));
+        throw new LLMRequestError(
+          `Gemini API error ${response.status}: ${details.slice(0, 500)}`,
+          response.status,
+          retryable,
+          retryAfter > 0 ? Math.min(retryAfter * 1000, 60000) : undefined
+        );
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (controller.signal.aborted && !signal?.aborted) {
+        throw new LLMRequestError(`Gemini request timed out after ${timeoutMs}ms`, undefined, true);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forwardAbort);
+    }
+  }
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new LLMRequestError('Aborted while waiting to retry'));
+      return;
+    }
+    // Removed once the wait ends, so retries do not pile listeners onto the caller's signal
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new LLMRequestError('Aborted while waiting to retry'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,73 @@
+import type { z } from 'zod';
+
+export interface LLMMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface GenerateJSONRequest<T> {
+  prompt: string | LLMMessage[]; // A single user prompt, or a conversation oldest first
+  schema?: z.ZodType<T>; // Output is validated against it; without one it is returned as parsed
+  feature?: string; // What the call is for, e.g. 'extract'; used in logs and usage accounting
+  model?: string; // Defaults to the client's model
+  timeoutMs?: number; // Per attempt
+  retries?: number; // Extra attempts after retryable failures
+  signal?: AbortSignal; // Cancels the call, including backoff waits
+}
+
+export interface GenerateJSONResult<T> {
+  data: T;
+  text: string; // Raw model output
+  model: string;
+  usage: LLMUsage;
+  latencyMs: number;
+}
+
+/**
+ * A JSON-producing language model (Gemini, a local stub, ...). Implementations retry
+ * transport failures themselves; invalid output is reported as `LLMOutputError` so
+ * callers can decide whether to ask for a repair.
+ */
+export interface LLMClient {
+  readonly name: string;
+  readonly defaultModel: string;
+  generateJSON<T = unknown>(request: GenerateJSONRequest<T>): Promise<GenerateJSONResult<T>>;
+  getUsage(): LLMUsageTotals;
+}
+
+// Running totals since the client was created
+export interface LLMUsageTotals extends LLMUsage {
+  requests: number;
+  failures: number;
+}
+
+/**
+ * The request failed: network error, timeout or a non-OK response.
+ */
+export class LLMRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    readonly retryable = false,
+    readonly retryAfterMs?: number // Server-requested wait before retrying
+  ) {
+    super(message);
+    this.name = 'LLMRequestError';
+  }
+}
+
+/**
+ * The model answered, but not with JSON matching the schema.
+ */
+export class LLMOutputError extends Error {
+  constructor(message: string, readonly text: string, readonly errors: string[], readonly usage?: LLMUsage) {
+    super(message);
+    this.name = 'LLMOutputError';
+  }
+}
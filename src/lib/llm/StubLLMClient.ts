@@ -0,0 +1,62 @@
+import { estimateTokens } from '@/lib/documents/mainContent';
+import { BaseLLMClient, Completion } from './BaseLLMClient';
+import { GenerateJSONRequest, LLMMessage, LLMRequestError } from './LLMClient';
+import type { UsageLedger } from './usageLedger';
+
+// Produces the JSON output for one call from the conversation
+export type StubResponder = (messages: LLMMessage[]) => unknown;
+
+/**
+ * Minimal, valid answers per feature so the search pipeline runs end to end without a model:
+ * extraction keeps the page's first heading as the name, reranking applies no boosts and
+ * NER finds nothing.
+ */
+export const DEFAULT_STUB_RESPONDERS: Record<string, StubResponder> = {
+  extract: messages => {
+    const prompt = messages[0]?.text ?? '';
+    const url = /PAGE_URL: (\S+)/.exec(prompt)?.[1] ?? 'https://example.com';
+    const heading = /^\s*(?:PAGE_TEXT: )?#{1,6} (.+)$/m.exec(prompt)?.[1];
+    return {
+      name: heading?.trim() || new URL(url).hostname,
+      country: 'Unknown',
+      degree_levels: ['Any'],
+      fields: [],
+      benefits: [],
+      stipend: null,
+      fullyFunded: false,
+      eligibility_summary: '',
+      eligibility_rules: [],
+      deadline: 'varies',
+      link: url,
+      source_domain: new URL(url).hostname,
+    };
+  },
+  rerank: () => ({ rankedBoosts: [] }),
+  ner: () => ({ degree: null, field_keywords: [], gpa: null, work_years: null, language_proofs: [] }),
+};
+
+/**
+ * Deterministic local client for development and tests: answers come from per-feature
+ * responders instead of a model, and token usage is estimated from the text.
+ */
+export class StubLLMClient extends BaseLLMClient {
+  readonly name = 'stub';
+  readonly defaultModel = 'stub';
+
+  constructor(private responders: Record<string, StubResponder> = DEFAULT_STUB_RESPONDERS, ledger?: UsageLedger) {
+    super(ledger);
+  }
+
+  protected async complete(messages: LLMMessage[], _model: string, request: GenerateJSONRequest<unknown>): Promise<Completion> {
+    const feature = request.feature ?? 'default';
+    const responder = this.responders[feature] ?? this.responders.default;
+    if (!responder) {
+      throw new LLMRequestError(`No stub response for feature "${feature}"`);
+    }
+
+    const text = JSON.stringify(responder(messages));
+    const promptTokens = estimateTokens(messages.map(message => message.text).join('\n'));
+    const completionTokens = estimateTokens(text);
+    return { text, usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens } };
+  }
+}
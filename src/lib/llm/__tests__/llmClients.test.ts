@@ -0,0 +1,131 @@
+/**
+ * @jest-environment node
+ */
+import { getEventListeners } from 'events'
+import { z } from 'zod'
+import {
+  createLLMClient,
+  GeminiClient,
+  LLMOutputError,
+  LLMRequestError,
+  StubLLMClient,
+} from '..'
+
+const geminiResponse = (output: unknown, usageMetadata?: object) => new Response(JSON.stringify({
+  candidates: [{ content: { parts: [{ text: typeof output === 'string' ? output : JSON.stringify(output) }] } }],
+  ...(usageMetadata ? { usageMetadata } : {}),
+}), { status: 200, headers: { 'content-type': 'application/json' } })
+
+const BoostsSchema = z.object({ rankedBoosts: z.array(z.object({ id: z.string(), boost: z.number() })) })
+
+describe('GeminiClient', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should send the key in a header, validate the output and account for tokens', async () => {
+    global.fetch = jest.fn(async () => geminiResponse(
+      { rankedBoosts: [{ id: 'a', boost: 0.1 }] },
+      { promptTokenCount: 120, candidatesTokenCount: 30, totalTokenCount: 150 }
+    )) as jest.Mock
+    const client = new GeminiClient({ apiKey: 'SECRET', model: 'gemini-test' })
+
+    const result = await client.generateJSON({ prompt: 'rank these', schema: BoostsSchema, feature: 'rerank' })
+
+    const [url, init] = (global.fetch as jest.Mock).mock.calls[0]
+    expect(url).toBe('https://generativelanguage.googleapis.com/v1beta/models/gemini-test:generateContent')
+    expect(new Headers(init.headers).get('x-goog-api-key')).toBe('SECRET')
+    expect(JSON.parse(init.body).contents).toEqual([{ role: 'user', parts: [{ text: 'rank these' }] }])
+
+    expect(result.data).toEqual({ rankedBoosts: [{ id: 'a', boost: 0.1 }] })
+    expect(result.model).toBe('gemini-test')
+    expect(result.usage).toEqual({ promptTokens: 120, completionTokens: 30, totalTokens: 150 })
+    expect(client.getUsage()).toMatchObject({ requests: 1, failures: 0, totalTokens: 150 })
+  })
+
+  it('should retry rate limits and server errors with backoff', async () => {
+    global.fetch = jest.fn()
+      .mockResolvedValueOnce(new Response('quota', { status: 429 }))
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(geminiResponse({ ok: true })) as jest.Mock
+    const client = new GeminiClient({ apiKey: 'k', retries: 2, backoffMs: 1 })
+
+    await expect(client.generateJSON({ prompt: 'p' })).resolves.toMatchObject({ data: { ok: true } })
+    expect(global.fetch).toHaveBeenCalledTimes(3)
+  })
+
+  it('should not leave abort listeners on the caller signal after retrying', async () => {
+    global.fetch = jest.fn()
+      .mockResolvedValueOnce(new Response('busy', { status: 503 }))
+      .mockResolvedValueOnce(new Response('busy', { status: 503 }))
+      .mockResolvedValueOnce(geminiResponse({ ok: true })) as jest.Mock
+    const client = new GeminiClient({ apiKey: 'k', retries: 2, backoffMs: 1 })
+    const controller = new AbortController()
+
+    await client.generateJSON({ prompt: 'p', signal: controller.signal })
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0)
+  })
+
+  it('should not retry client errors and should time out slow attempts', async () => {
+    global.fetch = jest.fn(async () => new Response('bad request', { status: 400 })) as jest.Mock
+    const client = new GeminiClient({ apiKey: 'k', retries: 2, backoffMs: 1 })
+
+    await expect(client.generateJSON({ prompt: 'p' })).rejects.toMatchObject({ name: 'LLMRequestError', status: 400 })
+    expect(global.fetch).toHaveBeenCalledTimes(1)
+
+    global.fetch = jest.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new Error('aborted')))
+    })) as jest.Mock
+
+    await expect(client.generateJSON({ prompt: 'p', timeoutMs: 20, retries: 1 }))
+      .rejects.toThrow('Gemini request timed out after 20ms')
+    expect(global.fetch).toHaveBeenCalledTimes(2)
+    expect(client.getUsage()).toMatchObject({ requests: 2, failures: 2 })
+  })
+
+  it('should report output that does not match the schema with the raw text', async () => {
+    global.fetch = jest.fn(async () => geminiResponse({ rankedBoosts: [{ id: 'a', boost: 'high' }] })) as jest.Mock
+    const client = new GeminiClient({ apiKey: 'k' })
+
+    const error = await client.generateJSON({ prompt: 'p', schema: BoostsSchema }).catch(e => e)
+
+    expect(error).toBeInstanceOf(LLMOutputError)
+    expect(error.text).toBe('{"rankedBoosts":[{"id":"a","boost":"high"}]}')
+    expect(error.errors).toEqual([expect.stringMatching(/^rankedBoosts\.0\.boost: /)])
+  })
+})
+
+describe('StubLLMClient', () => {
+  it('should answer deterministically per feature', async () => {
+    const client = new StubLLMClient()
+    const prompt = 'PAGE_URL: https://www.daad.de/epos\n      PAGE_TEXT: # EPOS Programme\nMonthly stipend'
+
+    const first = await client.generateJSON({ feature: 'extract', prompt })
+    const second = await client.generateJSON({ feature: 'extract', prompt })
+
+    expect(first.data).toEqual(second.data)
+    expect(first.data).toMatchObject({ name: 'EPOS Programme', link: 'https://www.daad.de/epos', deadline: 'varies' })
+    expect((await client.generateJSON({ feature: 'rerank', prompt: 'p' })).data).toEqual({ rankedBoosts: [] })
+    expect(client.getUsage().requests).toBe(3)
+  })
+
+  it('should use custom responders and reject unknown features', async () => {
+    const client = new StubLLMClient({ rerank: () => ({ rankedBoosts: [{ id: 'x', boost: 0.2 }] }) })
+
+    await expect(client.generateJSON({ feature: 'rerank', prompt: 'p', schema: BoostsSchema }))
+      .resolves.toMatchObject({ data: { rankedBoosts: [{ id: 'x', boost: 0.2 }] } })
+    await expect(client.generateJSON({ feature: 'ner', prompt: 'p' })).rejects.toBeInstanceOf(LLMRequestError)
+  })
+})
+
+describe('createLLMClient', () => {
+  it('should build clients by name', () => {
+    expect(createLLMClient('gemini')).toBeInstanceOf(GeminiClient)
+    expect(createLLMClient('stub')).toBeInstanceOf(StubLLMClient)
+    expect(() => createLLMClient('gpt')).toThrow('Unknown LLM provider "gpt"')
+  })
+})
@@ -0,0 +1,48 @@
+/**
+ * @jest-environment node
+ */
+import { LLMQuotaExceededError, RateLimitedLLMClient, RequestLimiter, StubLLMClient, UsageLedger } from '..'
+
+describe('RequestLimiter', () => {
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should make calls wait for room in the minute window', async () => {
+    jest.useFakeTimers({ now: new Date('2099-01-01T12:00:00Z') })
+    const limiter = new RequestLimiter({ maxRequestsPerMinute: 2, dailyRequestQuota: 100 })
+    const client = new RateLimitedLLMClient(new StubLLMClient({ extract: () => ({}) }, new UsageLedger({ budgets: {} })), limiter)
+
+    await client.generateJSON({ feature: 'extract', prompt: 'a' })
+    await client.generateJSON({ feature: 'extract', prompt: 'b' })
+    let done = false
+    const third = client.generateJSON({ feature: 'extract', prompt: 'c' }).then(() => { done = true })
+
+    await jest.advanceTimersByTimeAsync(59_000)
+    expect(done).toBe(false)
+    expect(() => limiter.reserve()).toThrow('Rate limit of 2 LLM requests per minute reached')
+
+    await jest.advanceTimersByTimeAsync(1_000)
+    await third
+    expect(limiter.status()).toMatchObject({ requestsThisMinute: 1, requestsToday: 3 })
+  })
+
+  it('should refuse calls once the daily quota is used up', async () => {
+    const limiter = new RequestLimiter({ maxRequestsPerMinute: 10, dailyRequestQuota: 1 })
+
+    await limiter.acquire()
+    await expect(limiter.acquire()).rejects.toBeInstanceOf(LLMQuotaExceededError)
+  })
+
+  it('should stop waiting when the call is aborted', async () => {
+    const limiter = new RequestLimiter({ maxRequestsPerMinute: 1, dailyRequestQuota: 10 })
+    const controller = new AbortController()
+
+    await limiter.acquire()
+    const waiting = limiter.acquire(controller.signal)
+    controller.abort()
+
+    await expect(waiting).rejects.toThrow('Aborted while waiting for the rate limit')
+    expect(limiter.status().requestsToday).toBe(1)
+  })
+})
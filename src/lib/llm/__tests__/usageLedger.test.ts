@@ -0,0 +1,61 @@
+/**
+ * @jest-environment node
+ */
+import { LLMBudgetExceededError, parseBudgets, StubLLMClient, UsageLedger } from '..'
+
+const call = { provider: 'gemini', model: 'gemini-1.5-flash', latencyMs: 100, cacheHit: false, success: true }
+
+describe('UsageLedger', () => {
+  it('should summarize tokens, cost, cache hits and latency per feature', () => {
+    const ledger = new UsageLedger({ budgets: {} })
+
+    ledger.record({ ...call, feature: 'extract', promptTokens: 1_000_000, completionTokens: 100_000, totalTokens: 1_100_000 })
+    ledger.record({ ...call, feature: 'extract', promptTokens: 0, completionTokens: 0, totalTokens: 0, latencyMs: 300, success: false })
+    ledger.record({ ...call, feature: 'rank', promptTokens: 0, completionTokens: 0, totalTokens: 0, latencyMs: 0, cacheHit: true })
+
+    const summary = ledger.summarize()
+    expect(summary).toMatchObject({ requests: 3, totalTokens: 1_100_000, costUsd: 0.105 })
+    expect(summary.features[0]).toEqual({
+      feature: 'extract',
+      requests: 2,
+      cacheHits: 0,
+      failures: 1,
+      promptTokens: 1_000_000,
+      completionTokens: 100_000,
+      totalTokens: 1_100_000,
+      costUsd: 0.105,
+      avgLatencyMs: 200,
+      budgetTokens: null,
+      remainingTokens: null,
+      exhausted: false
+    })
+    expect(summary.features[1]).toMatchObject({ feature: 'rank', requests: 1, cacheHits: 1, avgLatencyMs: 0 })
+    expect(ledger.getRecords({ feature: 'extract', limit: 1 })[0]).toMatchObject({ success: false, costUsd: 0 })
+    expect(ledger.summarize('2000-01-01')).toMatchObject({ requests: 0, features: [] })
+  })
+
+  it('should parse budgets from the environment format', () => {
+    expect(parseBudgets('rerank=200000, extract = 2000000,broken,ner=-1')).toEqual({ rerank: 200000, extract: 2000000 })
+  })
+
+  it('should refuse calls once a feature budget is spent and leave other features alone', async () => {
+    const ledger = new UsageLedger({ budgets: { rerank: 10 } })
+    const client = new StubLLMClient(undefined, ledger)
+
+    await client.generateJSON({ feature: 'rerank', prompt: 'a prompt long enough to use more than ten tokens of budget' })
+    expect(ledger.hasBudget('rerank')).toBe(false)
+
+    const error = await client.generateJSON({ feature: 'rerank', prompt: 'p' }).catch(e => e)
+    expect(error).toBeInstanceOf(LLMBudgetExceededError)
+    expect(error.message).toBe('Daily token budget of 10 for rerank is exhausted')
+    await expect(client.generateJSON({ feature: 'ner', prompt: 'p' })).resolves.toBeDefined()
+
+    expect(client.getUsage().requests).toBe(2)
+    expect(ledger.summarize().features.find(f => f.feature === 'rerank')).toMatchObject({
+      requests: 1,
+      budgetTokens: 10,
+      remainingTokens: 0,
+      exhausted: true
+    })
+  })
+})
@@ -0,0 +1,71 @@
+import type { LLMClient } from './LLMClient';
+import { GeminiClient } from './GeminiClient';
+import { StubLLMClient } from './StubLLMClient';
+import { getRequestLimiter, RateLimitedLLMClient } from './requestLimiter';
+
+export type {
+  LLMClient,
+  LLMMessage,
+  LLMUsage,
+  LLMUsageTotals,
+  GenerateJSONRequest,
+  GenerateJSONResult,
+} from './LLMClient';
+export { LLMRequestError, LLMOutputError } from './LLMClient';
+export { GeminiClient, DEFAULT_GEMINI_MODEL } from './GeminiClient';
+export { StubLLMClient, DEFAULT_STUB_RESPONDERS, type StubResponder } from './StubLLMClient';
+export { parseJsonResponse, type JsonValidation } from './json';
+export {
+  UsageLedger,
+  LLMBudgetExceededError,
+  MODEL_PRICING,
+  estimateCostUsd,
+  getUsageLedger,
+  parseBudgets,
+  type LLMUsageRecord,
+  type LLMUsageEntry,
+  type FeatureUsageSummary,
+  type DailyUsageSummary,
+  type UsageLedgerOptions,
+} from './usageLedger';
+export {
+  RequestLimiter,
+  RateLimitedLLMClient,
+  LLMQuotaExceededError,
+  getRequestLimiter,
+  type RequestLimiterOptions,
+  type RequestLimiterStatus,
+} from './requestLimiter';
+
+const CLIENT_FACTORIES: Record<string, () => LLMClient> = {
+  gemini: () => new GeminiClient(),
+  stub: () => new StubLLMClient(),
+};
+
+/**
+ * Builds the LLM client named by `LLM_PROVIDER` (default `gemini`).
+ * @param name - Client name; defaults to the environment setting.
+ * @returns A new client.
+ */
+export function createLLMClient(name: string = process.env.LLM_PROVIDER || 'gemini'): LLMClient {
+  const factory = CLIENT_FACTORIES[name.trim().toLowerCase()];
+  if (!factory) {
+    throw new Error(`Unknown LLM provider "${name}". Expected one of: ${Object.keys(CLIENT_FACTORIES).join(', ')}`);
+  }
+  return factory();
+}
+
+let sharedClient: LLMClient | null = null;
+
+/**
+ * Process-wide LLM client, so usage totals cover every call site. Gemini calls go through the
+ * shared request limiter, so extraction, NER, reranking and AI ranking share one rate limit.
+ * @returns The shared client.
+ */
+export function getLLMClient(): LLMClient {
+  if (!sharedClient) {
+    const client = createLLMClient();
+    sharedClient = client.name === 'gemini' ? new RateLimitedLLMClient(client, getRequestLimiter()) : client;
+  }
+  return sharedClient;
+}
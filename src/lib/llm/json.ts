@@ -0,0 +1,33 @@
+import type { z } from 'zod';
+
+export type JsonValidation<T> =
+  | { success: true; data: T }
+  | { success: false; errors: string[] };
+
+/**
+ * Parses a model response as JSON and validates it against a schema.
+ * @param text - Text returned by the model, expected to be JSON.
+ * @param schema - Optional schema; without one the parsed value is returned as is.
+ * @returns The typed value, or readable `path: message` errors that can be fed back to the model.
+ */
+export function parseJsonResponse<T>(text: string, schema?: z.ZodType<T>): JsonValidation<T> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    return { success: false, errors: [`Response is not valid JSON: ${(error as Error).message}`] };
+  }
+
+  if (!schema) {
+    return { success: true, data: raw as T };
+  }
+
+  const result = schema.safeParse(raw);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    errors: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+  };
+}
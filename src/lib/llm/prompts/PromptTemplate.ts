@@ -0,0 +1,48 @@
+/**
+ * A named, versioned prompt. `render` turns typed variables into the prompt text; any
+ * change to that text must come with a new `version`, so records can name the exact
+ * prompt that produced them.
+ */
+export interface PromptTemplate<V> {
+  readonly name: string;
+  readonly version: number;
+  readonly description: string;
+  render(variables: V): string;
+}
+
+export interface RenderedPrompt {
+  id: string; // `name@version`, e.g. 'scholarship-extraction@1'
+  text: string;
+}
+
+// Variables a template expects
+export type PromptVariables<T> = T extends PromptTemplate<infer V> ? V : never;
+
+/**
+ * Identifies a template version, as stored on records the prompt produced.
+ * @param template - Prompt template.
+ * @returns `name@version`.
+ */
+export function promptId(template: PromptTemplate<unknown>): string {
+  return `${template.name}@${template.version}`;
+}
+
+/**
+ * Renders a template and tags the text with its id.
+ * @param template - Prompt template.
+ * @param variables - Template variables.
+ * @returns Prompt id and text.
+ */
+export function renderPrompt<V>(template: PromptTemplate<V>, variables: V): RenderedPrompt {
+  return { id: promptId(template as PromptTemplate<unknown>), text: template.render(variables) };
+}
+
+/**
+ * Joins prompt lines, leaving out `false`/`null`/`undefined` entries so optional sections
+ * can be written inline.
+ * @param lines - Lines of the prompt.
+ * @returns The prompt text.
+ */
+export function lines(...lines: Array<string | false | null | undefined>): string {
+  return lines.filter((line): line is string => typeof line === 'string').join('\n');
+}
@@ -0,0 +1,92 @@
+import {
+  cvEntitiesPrompt,
+  extractionRepairPrompt,
+  listPromptVersions,
+  personalizedRecommendationsPrompt,
+  PROMPTS,
+  renderPrompt,
+  rerankPrompt,
+  scholarshipEnhancementPrompt,
+  scholarshipExtractionPrompt,
+  scholarshipRankingPrompt,
+} from '..'
+import { parseUserProfile } from '@/lib/profile/userProfile'
+
+const profile = parseUserProfile({
+  nationality: 'Kenya',
+  degreeTarget: 'Master',
+  fields: ['Computer Science'],
+  gpaBand: '80-89'
+})
+
+const scholarship = {
+  id: 'sch-1',
+  name: 'DAAD EPOS',
+  country: 'Germany',
+  degreeLevels: ['Master'],
+  fields: ['Computer Science'],
+  deadline: new Date('2099-10-31T00:00:00.000Z'),
+  stipend: 934,
+  tuitionCovered: true,
+  requirements: ['Two years of work experience'],
+  eligibilityText: 'Open to graduates from developing countries.'
+}
+
+// Golden renderings: a snapshot changes exactly when the text sent to the model changes,
+// and the snapshot name carries the version so a text change without a version bump is visible in review
+const GOLDEN = [
+  renderPrompt(scholarshipExtractionPrompt, {
+    pageUrl: 'https://www.daad.de/epos',
+    pageType: 'html',
+    pageText: '# EPOS\nMonthly stipend | 934 EUR'
+  }),
+  renderPrompt(scholarshipExtractionPrompt, {
+    pageUrl: 'https://www.daad.de/call.pdf',
+    pageType: 'pdf',
+    pageText: 'Call for applications\nDeadline: 31 October 2099'
+  }),
+  renderPrompt(extractionRepairPrompt, { errors: ['deadline: Invalid date', 'degree_levels: Too small'] }),
+  renderPrompt(cvEntitiesPrompt, { cvText: 'MSc Computer Science, GPA 3.6. IELTS 7.0.' }),
+  renderPrompt(rerankPrompt, {
+    profile: { degreeTarget: 'Master', fields: ['Computer Science'] },
+    candidates: [{ id: 'sch-1', name: 'DAAD EPOS', score: 0.72, deadline: '2099-10-31' }],
+    maxBoost: 0.2,
+    resultLimit: 25
+  }),
+  renderPrompt(scholarshipRankingPrompt, { profile, scholarships: [scholarship] }),
+  renderPrompt(personalizedRecommendationsPrompt, { profile, scholarships: [scholarship] }),
+  renderPrompt(scholarshipEnhancementPrompt, { profile, scholarship })
+]
+
+describe('prompt registry', () => {
+  it.each(GOLDEN.map(prompt => [prompt.id, prompt.text]))('should render %s as recorded', (_id, text) => {
+    expect(text).toMatchSnapshot()
+  })
+
+  it('should register every prompt once under its name with a version', () => {
+    expect(listPromptVersions()).toEqual({
+      'scholarship-extraction': 'scholarship-extraction@3',
+      'extraction-repair': 'extraction-repair@1',
+      'cv-entities': 'cv-entities@2',
+      'rerank': 'rerank@2',
+      'scholarship-ranking': 'scholarship-ranking@2',
+      'personalized-recommendations': 'personalized-recommendations@2',
+      'scholarship-enhancement': 'scholarship-enhancement@2'
+    })
+    for (const [name, template] of Object.entries(PROMPTS)) {
+      expect(template.name).toBe(name)
+      expect(template.description).not.toBe('')
+    }
+  })
+
+  it('should cut page text to the maximum length', () => {
+    const { text } = renderPrompt(scholarshipExtractionPrompt, {
+      pageUrl: 'https://example.org',
+      pageType: 'html',
+      pageText: 'x'.repeat(200000)
+    })
+
+    expect(text).toContain(`PAGE_TEXT: ${'x'.repeat(100000)}\n`)
+    expect(text).not.toContain('x'.repeat(100001))
+  })
+})
@@ -0,0 +1,26 @@
+import { lines, PromptTemplate } from './PromptTemplate';
+
+export interface CvEntitiesVariables {
+  cvText: string;
+}
+
+export const cvEntitiesPrompt: PromptTemplate<CvEntitiesVariables> = {
+  name: 'cv-entities',
+  version: 2,
+  description: 'Extracts degree, fields, GPA, work experience and language proofs from CV text',
+  render: ({ cvText }) => lines(
+    'Extract the following entities from the CV text in JSON format:',
+    '- degree (e.g., "Bachelor", "Master", "PhD")',
+    '- field_keywords (e.g., ["Computer Science", "Software Engineering"])',
+    '- gpa (numerical value, e.g., 3.7)',
+    '- work_years (numerical value, total years of work experience)',
+    '- language_proofs (e.g., ["IELTS 7.0", "TOEFL 100"])',
+    '',
+    'Personal details in the CV are masked as [NAME], [EMAIL], [PHONE], [ADDRESS] and [URL], optionally with a hash; ignore them.',
+    '',
+    'CV_TEXT:',
+    cvText,
+    '',
+    'Return JSON only.'
+  ),
+};
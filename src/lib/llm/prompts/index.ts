@@ -0,0 +1,53 @@
+import { cvEntitiesPrompt } from './cvEntities';
+import { rerankPrompt } from './rerank';
+import { extractionRepairPrompt, scholarshipExtractionPrompt } from './scholarshipExtraction';
+import {
+  personalizedRecommendationsPrompt,
+  scholarshipEnhancementPrompt,
+  scholarshipRankingPrompt,
+} from './scholarshipAdvice';
+import { promptId } from './PromptTemplate';
+
+export {
+  lines,
+  promptId,
+  renderPrompt,
+  type PromptTemplate,
+  type PromptVariables,
+  type RenderedPrompt,
+} from './PromptTemplate';
+export {
+  scholarshipExtractionPrompt,
+  extractionRepairPrompt,
+  MAX_PAGE_TEXT_CHARS,
+  type ScholarshipExtractionVariables,
+  type ExtractionRepairVariables,
+} from './scholarshipExtraction';
+export { cvEntitiesPrompt, type CvEntitiesVariables } from './cvEntities';
+export { rerankPrompt, type RerankVariables } from './rerank';
+export {
+  scholarshipRankingPrompt,
+  personalizedRecommendationsPrompt,
+  scholarshipEnhancementPrompt,
+  type ScholarshipAdviceVariables,
+  type ScholarshipEnhancementVariables,
+} from './scholarshipAdvice';
+
+// Every prompt the app sends, by name
+export const PROMPTS = {
+  [scholarshipExtractionPrompt.name]: scholarshipExtractionPrompt,
+  [extractionRepairPrompt.name]: extractionRepairPrompt,
+  [cvEntitiesPrompt.name]: cvEntitiesPrompt,
+  [rerankPrompt.name]: rerankPrompt,
+  [scholarshipRankingPrompt.name]: scholarshipRankingPrompt,
+  [personalizedRecommendationsPrompt.name]: personalizedRecommendationsPrompt,
+  [scholarshipEnhancementPrompt.name]: scholarshipEnhancementPrompt,
+};
+
+/**
+ * Current id (`name@version`) of every registered prompt, e.g. for admin views.
+ * @returns Prompt ids by name.
+ */
+export function listPromptVersions(): Record<string, string> {
+  return Object.fromEntries(Object.entries(PROMPTS).map(([name, template]) => [name, promptId(template)]));
+}
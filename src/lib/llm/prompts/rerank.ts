@@ -0,0 +1,32 @@
+import { lines, PromptTemplate } from './PromptTemplate';
+
+export interface RerankVariables {
+  profile: Record<string, unknown>; // Profile fields relevant to ranking
+  candidates: Array<Record<string, unknown>>; // Scored scholarships, best first, each with `id` and `score`
+  maxBoost: number; // Largest boost, in either direction, that is applied
+  resultLimit: number; // How many results are kept after boosting
+}
+
+export const rerankPrompt: PromptTemplate<RerankVariables> = {
+  name: 'rerank',
+  version: 2,
+  description: 'Asks for bounded, explained score boosts that reorder rule-scored scholarships for a profile',
+  render: ({ profile, candidates, maxBoost, resultLimit }) => lines(
+    'You reorder scholarships that were already scored by rules for one applicant.',
+    '',
+    'PROFILE:',
+    JSON.stringify(profile, null, 2),
+    '',
+    'CANDIDATES (highest score first):',
+    JSON.stringify(candidates, null, 2),
+    '',
+    'Return {"rankedBoosts": [{"id": string, "boost": number, "rationale": string}]}:',
+    '- id must be the id of one of CANDIDATES. Do not invent candidates and do not return an id twice.',
+    `- boost is added to the candidate's score and must be between -${maxBoost} and ${maxBoost}; larger values are clamped.`,
+    '- Use a positive boost when the applicant fits better than the score suggests, a negative one when worse.',
+    '- rationale is one sentence for the applicant explaining the fit, using only facts from PROFILE and CANDIDATES.',
+    '- Candidates you leave out keep their score.',
+    `- Only the top ${resultLimit} candidates after boosting are shown, so focus on which candidates belong there and in what order.`,
+    'Return JSON only.'
+  ),
+};
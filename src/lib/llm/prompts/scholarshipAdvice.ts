@@ -0,0 +1,88 @@
+import type { AIScholarship } from '@/lib/services/geminiAI';
+import type { UserProfile } from '@/types/profile';
+import { lines, PromptTemplate } from './PromptTemplate';
+
+export interface ScholarshipAdviceVariables {
+  profile: UserProfile;
+  scholarships: AIScholarship[];
+}
+
+export interface ScholarshipEnhancementVariables {
+  profile: UserProfile;
+  scholarship: AIScholarship;
+}
+
+export const scholarshipRankingPrompt: PromptTemplate<ScholarshipAdviceVariables> = {
+  name: 'scholarship-ranking',
+  version: 2,
+  description: 'Scores and explains the fit of each scholarship for one applicant',
+  render: ({ profile, scholarships }) => lines(
+    'You rank scholarships for one applicant.',
+    '',
+    `PROFILE: ${JSON.stringify(summarizeProfile(profile))}`,
+    `SCHOLARSHIPS: ${JSON.stringify(scholarships.map(summarizeScholarship))}`,
+    '',
+    'For every scholarship return {scholarshipId, enhancedScore, aiRationale, matchStrengths[], potentialConcerns[], applicationTips[]}:',
+    '- enhancedScore: 0-100 fit of this applicant for this scholarship.',
+    '- aiRationale: one or two sentences explaining the score.',
+    '- Use only facts from PROFILE and SCHOLARSHIPS.',
+    'Return a JSON array only.'
+  ),
+};
+
+export const personalizedRecommendationsPrompt: PromptTemplate<ScholarshipAdviceVariables> = {
+  name: 'personalized-recommendations',
+  version: 2,
+  description: 'Writes a summary and next steps per scholarship for one applicant',
+  render: ({ profile, scholarships }) => lines(
+    'You advise one scholarship applicant.',
+    '',
+    `PROFILE: ${JSON.stringify(summarizeProfile(profile))}`,
+    `SCHOLARSHIPS: ${JSON.stringify(scholarships.map(summarizeScholarship))}`,
+    '',
+    "Return {summary, recommendations[]} where summary is two or three sentences about the applicant's options",
+    'and each recommendation is {scholarshipId, personalizedMessage, actionItems[], timeline}.',
+    'timeline names concrete steps before the deadline when one is known.',
+    'Return JSON only.'
+  ),
+};
+
+export const scholarshipEnhancementPrompt: PromptTemplate<ScholarshipEnhancementVariables> = {
+  name: 'scholarship-enhancement',
+  version: 2,
+  description: 'Describes one scholarship for an applicant, with highlights and an application strategy',
+  render: ({ profile, scholarship }) => lines(
+    'Describe this scholarship for the applicant below.',
+    '',
+    `SCHOLARSHIP: ${JSON.stringify(summarizeScholarship(scholarship))}`,
+    `PROFILE: ${JSON.stringify(summarizeProfile(profile))}`,
+    '',
+    'Return {enhancedDescription, keyHighlights[], applicationStrategy, matchAnalysis}.',
+    'Use only facts from SCHOLARSHIP; do not invent amounts, dates or requirements.',
+    'Return JSON only.'
+  ),
+};
+
+// The answered fields only, so unanswered ones are not read as facts
+function summarizeProfile(profile: UserProfile) {
+  return Object.fromEntries(Object.entries(profile).filter(([, value]) =>
+    value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0)
+  ));
+}
+
+// The fields the model needs, with long texts cut short
+function summarizeScholarship(scholarship: AIScholarship) {
+  const { deadline } = scholarship;
+  return {
+    id: scholarship.id,
+    name: scholarship.name,
+    country: scholarship.country,
+    degreeLevels: scholarship.degreeLevels,
+    fields: scholarship.fields,
+    deadline: deadline instanceof Date ? deadline.toISOString().slice(0, 10) : deadline,
+    stipend: scholarship.stipend,
+    tuitionCovered: scholarship.tuitionCovered,
+    requirements: scholarship.requirements?.slice(0, 10),
+    eligibility: scholarship.eligibilityText?.slice(0, 500),
+  };
+}
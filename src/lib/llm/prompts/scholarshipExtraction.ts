@@ -0,0 +1,63 @@
+import type { PageType } from '@/lib/services/dataIngestion';
+import { DEGREE_LEVELS } from '@/lib/services/extractionSchema';
+import { lines, PromptTemplate } from './PromptTemplate';
+
+// Longer page texts are cut off; official pages rarely need more
+export const MAX_PAGE_TEXT_CHARS = 100000;
+
+const PAGE_TYPE_DESCRIPTIONS: Record<PageType, string> = {
+  html: 'HTML page (main content only; tables as " | "-separated rows)',
+  pdf: 'PDF document (text extracted from the file, layout and tables may be flattened)',
+};
+
+export interface ScholarshipExtractionVariables {
+  pageUrl: string;
+  pageType: PageType;
+  pageText: string; // Main content of an HTML page, or the text of a PDF
+}
+
+export const scholarshipExtractionPrompt: PromptTemplate<ScholarshipExtractionVariables> = {
+  name: 'scholarship-extraction',
+  version: 3,
+  description: 'Extracts one scholarship from an official page into the extraction schema',
+  render: ({ pageUrl, pageType, pageText }) => lines(
+    'SCHEMA:',
+    '{id,name,country,degree_levels[],fields[],benefits[],stipend,fullyFunded,eligibility_summary,eligibility_rules[],deadline,link,source_domain,updatedAt}',
+    '',
+    `PAGE_URL: ${pageUrl}`,
+    `PAGE_TYPE: ${PAGE_TYPE_DESCRIPTIONS[pageType]}`,
+    `PAGE_TEXT: ${pageText.substring(0, MAX_PAGE_TEXT_CHARS)}`,
+    '',
+    'REQUIREMENTS:',
+    '- Derive country from owning organization if obvious (e.g., Chevening→UK).',
+    `- degree_levels must be a non-empty subset of ${JSON.stringify(DEGREE_LEVELS)}.`,
+    '- stipend = monthly stipend as a number if stated, otherwise null.',
+    '- fullyFunded = true only if tuition + stipend are present on page.',
+    '- deadline must be ISO YYYY-MM-DD if an exact date is stated; otherwise "varies".',
+    '- eligibility_rules: list of structured constraints {rule, ...} where rule is one of',
+    '  nationality or residency (allowed: country names), gpa_min (value: number, scale: "4.0",',
+    '  "4.3", "5.0", "10", "20" or "100"; for a UK degree class, value "First", "2:1" or "2:2"',
+    '  with scale "UK"), language (values: accepted tests with thresholds, e.g. "IELTS 6.5"),',
+    '  work_years_min or age_max (value: number), graduation_year (min and/or max: years the',
+    '  qualifying degree must be completed in). Add optional: true for preferences.',
+    '- link = PAGE_URL unless the page names a more specific official application page.',
+    '- source_domain = domain of PAGE_URL.',
+    '- updatedAt = today’s date in ISO.',
+    'Return JSON only.'
+  ),
+};
+
+export interface ExtractionRepairVariables {
+  errors: string[]; // Validation errors as `path: message`
+}
+
+export const extractionRepairPrompt: PromptTemplate<ExtractionRepairVariables> = {
+  name: 'extraction-repair',
+  version: 1,
+  description: 'Follow-up asking the model to fix an extraction that failed schema validation',
+  render: ({ errors }) => lines(
+    'Your JSON does not match SCHEMA and REQUIREMENTS:',
+    ...errors.map(error => `- ${error}`),
+    'Return the corrected JSON object only. Keep every value that is supported by the page and do not invent missing facts.'
+  ),
+};
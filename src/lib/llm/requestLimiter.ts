@@ -0,0 +1,198 @@
+import {
+  GenerateJSONRequest,
+  GenerateJSONResult,
+  LLMClient,
+  LLMRequestError,
+  LLMUsageTotals,
+} from './LLMClient';
+import { getUsageLedger, UsageLedger } from './usageLedger';
+
+export interface RequestLimiterOptions {
+  maxRequestsPerMinute?: number;
+  dailyRequestQuota?: number;
+}
+
+export interface RequestLimiterStatus {
+  requestsThisMinute: number;
+  maxRequestsPerMinute: number;
+  resetTime: Date; // When the oldest request in the window expires
+  requestsToday: number;
+  dailyRequestQuota: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * The daily request quota is used up, so the call was not made.
+ */
+export class LLMQuotaExceededError extends LLMRequestError {
+  constructor(readonly dailyRequestQuota: number, retryAfterMs: number) {
+    super(`Daily quota of ${dailyRequestQuota} LLM requests used up`, 429, false, retryAfterMs);
+    this.name = 'LLMQuotaExceededError';
+  }
+}
+
+/**
+ * Requests per minute and per UTC day across every caller of a model, so the provider's
+ * limits (the Gemini free tier by default) are never exceeded by one feature alone.
+ */
+export class RequestLimiter {
+  readonly maxRequestsPerMinute: number;
+  readonly dailyRequestQuota: number;
+
+  private recentRequests: number[] = []; // Timestamps within the last minute
+  private usageDay = currentDay(Date.now());
+  private requestsToday = 0;
+
+  constructor(options: RequestLimiterOptions = {}) {
+    this.maxRequestsPerMinute = options.maxRequestsPerMinute ?? readLimit('GEMINI_MAX_REQUESTS_PER_MINUTE', 15);
+    this.dailyRequestQuota = options.dailyRequestQuota ?? readLimit('GEMINI_DAILY_REQUEST_QUOTA', 1500);
+  }
+
+  /**
+   * Waits for a free slot in the minute window and counts the request.
+   * @param signal - Stops the wait.
+   */
+  async acquire(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      const wait = this.waitMs(Date.now());
+      if (wait === 0) {
+        this.reserve(Date.now());
+        return;
+      }
+      await sleep(wait, signal);
+    }
+  }
+
+  /**
+   * Counts the request, or refuses it at once when the minute window is full or the daily
+   * quota is used up.
+   * @param now - Current time in ms.
+   */
+  reserve(now: number = Date.now()): void {
+    this.assertQuota(now);
+    const wait = this.waitMs(now);
+    if (wait > 0) {
+      throw new LLMRequestError(`Rate limit of ${this.maxRequestsPerMinute} LLM requests per minute reached`, 429, true, wait);
+    }
+
+    this.recentRequests.push(now);
+    this.requestsToday++;
+  }
+
+  /**
+   * Current window and daily counts.
+   * @param now - Current time in ms.
+   * @returns The limiter status.
+   */
+  status(now: number = Date.now()): RequestLimiterStatus {
+    this.rollOver(now);
+    return {
+      requestsThisMinute: this.recentRequests.length,
+      maxRequestsPerMinute: this.maxRequestsPerMinute,
+      resetTime: new Date((this.recentRequests[0] ?? now - MINUTE_MS) + MINUTE_MS),
+      requestsToday: this.requestsToday,
+      dailyRequestQuota: this.dailyRequestQuota,
+    };
+  }
+
+  // Ms until the minute window has room; throws once the daily quota is used up
+  private waitMs(now: number): number {
+    this.assertQuota(now);
+    if (this.recentRequests.length < this.maxRequestsPerMinute) return 0;
+    return Math.max(1, this.recentRequests[0] + MINUTE_MS - now);
+  }
+
+  private assertQuota(now: number): void {
+    this.rollOver(now);
+    if (this.requestsToday >= this.dailyRequestQuota) {
+      const tomorrow = new Date(now);
+      tomorrow.setUTCHours(24, 0, 0, 0);
+      throw new LLMQuotaExceededError(this.dailyRequestQuota, tomorrow.getTime() - now);
+    }
+  }
+
+  // Drops requests older than a minute and resets the daily count at UTC midnight
+  private rollOver(now: number): void {
+    while (this.recentRequests.length > 0 && this.recentRequests[0] <= now - MINUTE_MS) {
+      this.recentRequests.shift();
+    }
+
+    const day = currentDay(now);
+    if (day !== this.usageDay) {
+      this.usageDay = day;
+      this.requestsToday = 0;
+    }
+  }
+}
+
+/**
+ * An LLM client whose calls first take a slot from a request limiter. Calls wait for room in
+ * the minute window and fail with `LLMQuotaExceededError` once the daily quota is used up.
+ */
+export class RateLimitedLLMClient implements LLMClient {
+  constructor(
+    private client: LLMClient,
+    readonly limiter: RequestLimiter,
+    private ledger: UsageLedger = getUsageLedger()
+  ) {}
+
+  get name(): string {
+    return this.client.name;
+  }
+
+  get defaultModel(): string {
+    return this.client.defaultModel;
+  }
+
+  async generateJSON<T = unknown>(request: GenerateJSONRequest<T>): Promise<GenerateJSONResult<T>> {
+    // Checked before waiting so a spent budget does not use up rate limit or quota
+    this.ledger.assertBudget(request.feature ?? 'default');
+    await this.limiter.acquire(request.signal);
+    return this.client.generateJSON(request);
+  }
+
+  getUsage(): LLMUsageTotals {
+    return this.client.getUsage();
+  }
+}
+
+let sharedLimiter: RequestLimiter | null = null;
+
+/**
+ * Process-wide limiter in front of the shared LLM client.
+ * @returns The shared limiter.
+ */
+export function getRequestLimiter(): RequestLimiter {
+  if (!sharedLimiter) {
+    sharedLimiter = new RequestLimiter();
+  }
+  return sharedLimiter;
+}
+
+function readLimit(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function currentDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new LLMRequestError('Aborted while waiting for the rate limit'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new LLMRequestError('Aborted while waiting for the rate limit'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
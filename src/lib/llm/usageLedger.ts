@@ -0,0 +1,286 @@
+import { LLMRequestError } from './LLMClient';
+
+export interface LLMUsageRecord {
+  timestamp: string; // ISO
+  feature: string; // e.g. 'extract', 'ner', 'rerank', 'rank', 'enhance'
+  provider: string; // Client name
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  cacheHit: boolean; // Answered from a cache; no tokens spent
+  success: boolean;
+  costUsd: number;
+}
+
+export type LLMUsageEntry = Omit<LLMUsageRecord, 'timestamp' | 'costUsd'>;
+
+export interface FeatureUsageSummary {
+  feature: string;
+  requests: number; // Including cache hits and failures
+  cacheHits: number;
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  avgLatencyMs: number; // Over calls that reached the model
+  budgetTokens: number | null; // Daily budget; null when unlimited
+  remainingTokens: number | null;
+  exhausted: boolean;
+}
+
+export interface DailyUsageSummary {
+  day: string; // YYYY-MM-DD, UTC
+  requests: number;
+  totalTokens: number;
+  costUsd: number;
+  features: FeatureUsageSummary[]; // Most tokens first
+}
+
+export interface UsageLedgerOptions {
+  budgets?: Record<string, number>; // Daily token budget per feature
+  maxRecords?: number; // Individual records kept in memory
+  retentionDays?: number; // Days of per-feature totals kept
+}
+
+// USD per million tokens; models that are not listed are counted at zero cost
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-flash-8b': { input: 0.0375, output: 0.15 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  stub: { input: 0, output: 0 },
+};
+
+type FeatureTotals = Omit<FeatureUsageSummary, 'feature' | 'avgLatencyMs' | 'budgetTokens' | 'remainingTokens' | 'exhausted'> & {
+  latencyMs: number;
+  modelCalls: number;
+};
+
+/**
+ * The feature's daily token budget is used up, so the call was not made. Callers treat it
+ * like any other unavailable model and fall back to their non-LLM behaviour.
+ */
+export class LLMBudgetExceededError extends LLMRequestError {
+  constructor(readonly feature: string, readonly budgetTokens: number) {
+    super(`Daily token budget of ${budgetTokens} for ${feature} is exhausted`);
+    this.name = 'LLMBudgetExceededError';
+  }
+}
+
+/**
+ * Estimated cost of one call from the model's list price.
+ * @param model - Model name.
+ * @param promptTokens - Input tokens.
+ * @param completionTokens - Output tokens.
+ * @returns Cost in USD; 0 for unknown models.
+ */
+export function estimateCostUsd(model: string, promptTokens: number, completionTokens: number): number {
+  const pricing = MODEL_PRICING[model];
+  if (!pricing) return 0;
+  return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Parses `LLM_DAILY_TOKEN_BUDGETS`, e.g. `rerank=200000,extract=2000000`.
+ * @param value - Comma-separated `feature=tokens` pairs.
+ * @returns Budget per feature; malformed pairs are ignored.
+ */
+export function parseBudgets(value: string = process.env.LLM_DAILY_TOKEN_BUDGETS || ''): Record<string, number> {
+  const budgets: Record<string, number> = {};
+  for (const pair of value.split(',')) {
+    const [feature, tokens] = pair.split('=').map(part => part?.trim());
+    const budget = Number(tokens);
+    if (feature && tokens && Number.isFinite(budget) && budget >= 0) {
+      budgets[feature] = budget;
+    }
+  }
+  return budgets;
+}
+
+/**
+ * Records every LLM call with its tokens, latency and cost, keeps per-feature daily totals
+ * and enforces daily token budgets. Totals are kept per UTC day for `retentionDays`, so budget
+ * checks do not depend on how many individual records are still in memory.
+ */
+export class UsageLedger {
+  private budgets: Record<string, number>;
+  private maxRecords: number;
+  private retentionDays: number;
+  private records: LLMUsageRecord[] = [];
+  private days = new Map<string, Map<string, FeatureTotals>>();
+
+  constructor(options: UsageLedgerOptions = {}) {
+    this.budgets = { ...(options.budgets ?? parseBudgets()) };
+    this.maxRecords = options.maxRecords ?? 5000;
+    this.retentionDays = options.retentionDays ?? 30;
+  }
+
+  /**
+   * Adds one call to the ledger.
+   * @param entry - The call; cost and timestamp are filled in.
+   * @returns The stored record.
+   */
+  record(entry: LLMUsageEntry): LLMUsageRecord {
+    const record: LLMUsageRecord = {
+      ...entry,
+      timestamp: new Date().toISOString(),
+      costUsd: estimateCostUsd(entry.model, entry.promptTokens, entry.completionTokens),
+    };
+
+    this.records.push(record);
+    if (this.records.length > this.maxRecords) {
+      this.records.shift();
+    }
+
+    const totals = this.totalsFor(record.timestamp.slice(0, 10), record.feature);
+    totals.requests++;
+    if (record.cacheHit) totals.cacheHits++;
+    if (!record.success) totals.failures++;
+    if (!record.cacheHit) {
+      totals.modelCalls++;
+      totals.latencyMs += record.latencyMs;
+    }
+    totals.promptTokens += record.promptTokens;
+    totals.completionTokens += record.completionTokens;
+    totals.totalTokens += record.totalTokens;
+    totals.costUsd += record.costUsd;
+    return record;
+  }
+
+  /**
+   * Sets or removes a feature's daily token budget.
+   * @param feature - Feature name.
+   * @param tokens - Budget, or null for unlimited.
+   */
+  setBudget(feature: string, tokens: number | null): void {
+    if (tokens === null) {
+      delete this.budgets[feature];
+    } else {
+      this.budgets[feature] = tokens;
+    }
+  }
+
+  /**
+   * Whether a feature may still call the model today. The call that crosses the budget is
+   * allowed, so a budget can be overshot by at most one call.
+   * @param feature - Feature name.
+   * @returns False once today's tokens reach the budget.
+   */
+  hasBudget(feature: string): boolean {
+    const remaining = this.remainingTokens(feature);
+    return remaining === null || remaining > 0;
+  }
+
+  /**
+   * Throws when the feature's budget is exhausted.
+   * @param feature - Feature name.
+   */
+  assertBudget(feature: string): void {
+    if (!this.hasBudget(feature)) {
+      throw new LLMBudgetExceededError(feature, this.budgets[feature]);
+    }
+  }
+
+  /**
+   * Tokens left in today's budget.
+   * @param feature - Feature name.
+   * @returns Remaining tokens, or null when the feature has no budget.
+   */
+  remainingTokens(feature: string): number | null {
+    const budget = this.budgets[feature];
+    if (budget === undefined) return null;
+    const used = this.days.get(currentDay())?.get(feature)?.totalTokens ?? 0;
+    return Math.max(0, budget - used);
+  }
+
+  /**
+   * Per-feature totals for one day, including features that only have a budget.
+   * @param day - UTC day as YYYY-MM-DD; defaults to today.
+   * @returns The day's summary.
+   */
+  summarize(day: string = currentDay()): DailyUsageSummary {
+    const totalsByFeature = this.days.get(day) ?? new Map<string, FeatureTotals>();
+    const features = new Set([...Array.from(totalsByFeature.keys()), ...Object.keys(this.budgets)]);
+    const isToday = day === currentDay();
+
+    const summaries = Array.from(features).map(feature => {
+      const { latencyMs, modelCalls, ...totals } = totalsByFeature.get(feature) ?? emptyTotals();
+      const budgetTokens = this.budgets[feature] ?? null;
+      const remainingTokens = budgetTokens === null ? null : Math.max(0, budgetTokens - totals.totalTokens);
+      return {
+        feature,
+        ...totals,
+        costUsd: roundCost(totals.costUsd),
+        avgLatencyMs: modelCalls > 0 ? Math.round(latencyMs / modelCalls) : 0,
+        budgetTokens,
+        remainingTokens,
+        exhausted: isToday && remainingTokens === 0,
+      };
+    }).sort((a, b) => b.totalTokens - a.totalTokens || a.feature.localeCompare(b.feature));
+
+    return {
+      day,
+      requests: summaries.reduce((sum, feature) => sum + feature.requests, 0),
+      totalTokens: summaries.reduce((sum, feature) => sum + feature.totalTokens, 0),
+      costUsd: roundCost(summaries.reduce((sum, feature) => sum + feature.costUsd, 0)),
+      features: summaries,
+    };
+  }
+
+  /**
+   * Most recent records, newest first.
+   * @param options - Optional feature filter and maximum count.
+   * @returns Matching records.
+   */
+  getRecords(options: { feature?: string; limit?: number } = {}): LLMUsageRecord[] {
+    const matching = options.feature ? this.records.filter(record => record.feature === options.feature) : this.records;
+    return matching.slice(-(options.limit ?? 100)).reverse();
+  }
+
+  private totalsFor(day: string, feature: string): FeatureTotals {
+    let features = this.days.get(day);
+    if (!features) {
+      features = new Map();
+      this.days.set(day, features);
+      // Map iteration order is insertion order, so the first days are the oldest
+      while (this.days.size > this.retentionDays) {
+        this.days.delete(this.days.keys().next().value as string);
+      }
+    }
+
+    let totals = features.get(feature);
+    if (!totals) {
+      totals = emptyTotals();
+      features.set(feature, totals);
+    }
+    return totals;
+  }
+}
+
+let sharedLedger: UsageLedger | null = null;
+
+/**
+ * Process-wide ledger shared by every LLM client.
+ * @returns The shared ledger.
+ */
+export function getUsageLedger(): UsageLedger {
+  if (!sharedLedger) {
+    sharedLedger = new UsageLedger();
+  }
+  return sharedLedger;
+}
+
+function emptyTotals(): FeatureTotals {
+  return { requests: 0, cacheHits: 0, failures: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, latencyMs: 0, modelCalls: 0 };
+}
+
+function roundCost(costUsd: number): number {
+  return Math.round(costUsd * 1_000_000) / 1_000_000;
+}
+
+function currentDay(): string {
+  return new Date().toISOString().slice(0, 10);
+}
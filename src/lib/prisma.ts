@@ -0,0 +1,26 @@
+import { PrismaClient } from '@prisma/client'
+
+// Reuse a single client across hot reloads in development so we don't
+// exhaust the database connection pool.
+const globalForPrisma = globalThis as unknown as { prisma?: PrismaClient }
+
+/**
+ * Returns the shared Prisma client, creating it on first use.
+ * The client is created lazily so modules that only need the in-memory
+ * store (tests, local development without DATABASE_URL) never touch Prisma.
+ */
+export function getPrisma(): PrismaClient {
+  if (!globalForPrisma.prisma) {
+    globalForPrisma.prisma = new PrismaClient({
+      log: process.env.NODE_ENV === 'development' ? ['warn', 'error'] : ['error']
+    })
+  }
+  return globalForPrisma.prisma
+}
+
+/**
+ * Whether a database connection has been configured.
+ */
+export function isDatabaseConfigured(): boolean {
+  return Boolean(process.env.DATABASE_URL)
+}
@@ -0,0 +1,139 @@
+import { extractCVFields, ExtractedField, LLM_SOURCE, mergeCVExtraction } from '../cvExtraction';
+import { fromCVEntities } from '../userProfile';
+
+const NOW = new Date('2025-07-01T00:00:00Z');
+
+const cv = [
+  'Amina Yusuf',
+  'Nairobi, Kenya',
+  '',
+  '# Education',
+  'MSc Computer Science, University of Nairobi, 2019 - 2021',
+  'GPA 3.7/4.0',
+  'BSc Mathematics, Kenyatta University, 2014 - 2018',
+  '',
+  '# Experience',
+  'Data analyst, Safaricom, Mar 2021 - Present',
+  'Research assistant, University of Nairobi, Jan 2020 - Jun 2021',
+  '',
+  '# Publications',
+  '- Yusuf, A. (2022). Mobile money and credit scoring. Journal of Fintech.',
+  '- Yusuf, A. and Otieno, B. (2023). Fraud detection at scale. KDD Workshop.',
+  '',
+  '# Languages',
+  'IELTS Academic 7.5 (May 2023)',
+  'GRE General 321',
+].join('\n');
+
+const valueOf = (fields: ExtractedField[], field: string) => fields.find(entry => entry.field === field)?.value;
+
+describe('extractCVFields', () => {
+  it('reads degree, GPA, tests, work years and publications with their source lines', () => {
+    const fields = extractCVFields(cv, NOW);
+
+    expect(fields.find(entry => entry.field === 'degree')).toEqual({
+      field: 'degree',
+      value: 'Master',
+      confidence: 0.9,
+      source: 'MSc Computer Science, University of Nairobi, 2019 - 2021',
+    });
+    expect(valueOf(fields, 'fieldOfStudy')).toBe('Computer Science');
+    expect(valueOf(fields, 'graduationYear')).toBe('2021');
+    expect(valueOf(fields, 'gpa')).toBe(3.7);
+    expect(valueOf(fields, 'gpaScale')).toBe('4.0');
+    expect(fields.filter(entry => entry.field === 'languageProof').map(entry => entry.value)).toEqual(['IELTS 7.5', 'GRE 321']);
+    expect(valueOf(fields, 'languageTestDate')).toBe('IELTS 2023-05');
+    expect(valueOf(fields, 'workYears')).toBe(5.6); // Jan 2020 to Jul 2025 inclusive, the overlap counted once
+    expect(valueOf(fields, 'publications')).toBe(2);
+  });
+
+  it('reads GPAs on 10-point and percentage scales', () => {
+    expect(valueOf(extractCVFields('CGPA: 8.6'), 'gpaScale')).toBe('10');
+    expect(valueOf(extractCVFields('Aggregate: 78% (First Division)'), 'gpa')).toBe(78);
+    expect(valueOf(extractCVFields('GPA 85%'), 'gpaScale')).toBe('100');
+  });
+
+  it('reads French marks out of 20 and UK degree classes', () => {
+    const french = extractCVFields('# Education\nLicence Economie, Université Paris 1, 2020\nMoyenne générale : 14,5/20');
+    expect(valueOf(french, 'gpa')).toBe(14.5);
+    expect(valueOf(french, 'gpaScale')).toBe('20');
+
+    const uk = extractCVFields('# Education\nBSc (Hons) Economics, University of Leeds, 2:1');
+    expect(valueOf(uk, 'gpa')).toBe('2:1');
+    expect(valueOf(uk, 'gpaScale')).toBe('UK');
+    expect(valueOf(extractCVFields('BA History, First Class Honours'), 'gpa')).toBe('First');
+  });
+
+  it('ignores scores outside the test scale', () => {
+    expect(extractCVFields('TOEFL iBT 180\nGRE 150')).toEqual([]);
+  });
+
+  it('counts ranges outside the education section when there is no experience heading', () => {
+    const fields = extractCVFields('Engineer, Acme, 2018 - 2020\n# Education\nBSc Physics, 2014 - 2018');
+    expect(fields.find(entry => entry.field === 'workYears')).toMatchObject({ value: 2, confidence: 0.55 });
+  });
+
+  it('counts the end month of a period', () => {
+    expect(valueOf(extractCVFields('# Experience\nEngineer, Acme, Jan 2020 - Dec 2022'), 'workYears')).toBe(3);
+    expect(valueOf(extractCVFields('# Experience\nIntern, Acme, Jun 2019 - Jun 2019'), 'workYears')).toBe(0.1);
+  });
+});
+
+describe('mergeCVExtraction', () => {
+  const rules = extractCVFields(cv, NOW);
+
+  it('raises the confidence of facts the model agrees with and adds its other facts', () => {
+    const { fields } = mergeCVExtraction(rules, {
+      nationality: 'Kenyan',
+      degree: 'Master',
+      gpa: 3.7,
+      language_proofs: ['IELTS 7.5', 'TOEFL 100'],
+    });
+
+    expect(fields.find(entry => entry.field === 'degree')?.confidence).toBe(0.99);
+    expect(fields.find(entry => entry.field === 'gpa')?.confidence).toBeCloseTo(0.99);
+    expect(fields.find(entry => entry.field === 'nationality')).toEqual({
+      field: 'nationality', value: 'Kenyan', confidence: 0.6, source: LLM_SOURCE,
+    });
+    expect(fields.filter(entry => entry.field === 'languageProof').map(entry => entry.value))
+      .toEqual(['IELTS 7.5', 'GRE 321', 'TOEFL 100']);
+  });
+
+  it('keeps the rule-based value on disagreement and asks the applicant to check it', () => {
+    const { fields, suggestions } = mergeCVExtraction(rules, { gpa: 3.5, work_years: 2, language_proofs: ['IELTS 7.0'] });
+
+    expect(valueOf(fields, 'gpa')).toBe(3.7);
+    expect(valueOf(fields, 'workYears')).toBe(5.6);
+    expect(fields.filter(entry => entry.field === 'languageProof').map(entry => entry.value)).toEqual(['IELTS 7.5', 'GRE 321']);
+    expect(suggestions).toEqual(expect.arrayContaining([
+      'Check your GPA: the CV text says "3.7" but the AI read "3.5".',
+      'Check your language test score: the CV text says "IELTS 7.5" but the AI read "IELTS 7.0".',
+    ]));
+  });
+
+  it('prefers the model over weak rule matches', () => {
+    const weak = extractCVFields('Engineer, Acme, 2018 - 2020');
+    const { fields } = mergeCVExtraction(weak, { work_years: 4 });
+    expect(fields.find(entry => entry.field === 'workYears')).toMatchObject({ value: 4, source: LLM_SOURCE });
+  });
+
+  it('builds entities the profile conversion understands', () => {
+    const { entities, confidence, suggestions } = mergeCVExtraction(rules, null);
+
+    expect(fromCVEntities(entities)).toMatchObject({
+      degreeTarget: 'PhD',
+      fields: ['Computer Science'],
+      gpaBand: '>=90',
+      graduationYear: '2021',
+      workResearchYears: '4+',
+      languageProofs: ['IELTS 7.5', 'GRE 321'],
+      publications: 2,
+    });
+    expect(confidence).toBeGreaterThan(0.7);
+    expect(suggestions).toEqual(['Add your nationality; most scholarships depend on it.']);
+  });
+
+  it('reports zero confidence when nothing was found', () => {
+    expect(mergeCVExtraction([], null)).toMatchObject({ fields: [], confidence: 0 });
+  });
+});
@@ -0,0 +1,73 @@
+import { convertGrade, gradeToPercent, inferGradeScale, parseGradeScale, parseUKClass, percentToGrade } from '../gradeScales';
+
+describe('gradeToPercent', () => {
+  it('should read proportional scales as a share of their maximum', () => {
+    expect(gradeToPercent(3.6, '4.0')).toBeCloseTo(90);
+    expect(gradeToPercent(4.3, '4.3')).toBe(100);
+    expect(gradeToPercent('4,0', 5)).toBeCloseTo(80);
+    expect(gradeToPercent(8.6, '10')).toBeCloseTo(86);
+    expect(gradeToPercent(78, '%')).toBe(78);
+  });
+
+  it('should map French marks and UK classes onto their 4.0 equivalents', () => {
+    expect(gradeToPercent(10, '20')).toBe(50);
+    expect(gradeToPercent(14, '20')).toBe(87.5);
+    expect(gradeToPercent(15, '20')).toBeCloseTo(91.25);
+    expect(gradeToPercent('Upper Second Class Honours')).toBe(85);
+    expect(gradeToPercent('First', 'UK')).toBe(95);
+  });
+
+  it('should infer the scale when none is stated', () => {
+    expect(gradeToPercent(3.6)).toBeCloseTo(90);
+    expect(gradeToPercent(4.2)).toBeCloseTo(97.67, 1);
+    expect(gradeToPercent(16)).toBe(95);
+    expect(gradeToPercent(72)).toBe(72);
+  });
+
+  it('should read other stated maximums proportionally', () => {
+    expect(gradeToPercent(6, '7')).toBeCloseTo(85.71, 1);
+  });
+
+  it('should reject grades that do not fit the scale', () => {
+    expect(gradeToPercent(4.5, '4.0')).toBeUndefined();
+    expect(gradeToPercent(150)).toBeUndefined();
+    expect(gradeToPercent(-1)).toBeUndefined();
+    expect(gradeToPercent('2:1', '4.0')).toBeUndefined();
+    expect(gradeToPercent('excellent')).toBeUndefined();
+  });
+});
+
+describe('scale helpers', () => {
+  it('should recognise the ways scales are written', () => {
+    expect(parseGradeScale(4)).toBe('4.0');
+    expect(parseGradeScale('out of 20')).toBe('20');
+    expect(parseGradeScale('percentage')).toBe('100');
+    expect(parseGradeScale('UK classification')).toBe('UK');
+    expect(parseGradeScale('7')).toBeUndefined();
+    expect(inferGradeScale(4.1)).toBe('4.3');
+    expect(inferGradeScale(101)).toBeUndefined();
+  });
+
+  it('should read UK degree classes in their common spellings', () => {
+    expect(parseUKClass('2.1')).toBe('2:1');
+    expect(parseUKClass('Lower Second')).toBe('2:2');
+    expect(parseUKClass('1st class')).toBe('First');
+    expect(parseUKClass('Third')).toBe('Third');
+    expect(parseUKClass('Distinction')).toBeUndefined();
+  });
+});
+
+describe('convertGrade', () => {
+  it('should convert between scales through the percent equivalent', () => {
+    expect(convertGrade(14, '20', '4.0')).toBe(3.5);
+    expect(convertGrade(3.5, '4.0', '20')).toBe(14);
+    expect(convertGrade(86, '100', '10')).toBe(8.6);
+    expect(convertGrade('2:1', 'UK', '4.3')).toBe(3.66);
+    expect(convertGrade(3.5, '4.0', 'UK')).toBe('2:1');
+  });
+
+  it('should have no UK class below a pass', () => {
+    expect(percentToGrade(40, 'UK')).toBeUndefined();
+    expect(convertGrade(5, '4.0', '10')).toBeUndefined();
+  });
+});
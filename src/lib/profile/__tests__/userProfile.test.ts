@@ -0,0 +1,196 @@
+import { ZodError } from 'zod';
+import {
+  CVEntitiesSchema,
+  fromCVEntities,
+  fromQuestionnaire,
+  gpaBandFromScore,
+  mergeUserProfiles,
+  nextDegreeTarget,
+  normalizeDegree,
+  parseUserProfile,
+  toUserProfile,
+  workYearsBand,
+} from '../userProfile';
+
+describe('UserProfileSchema', () => {
+  it('fills defaults for a partial profile', () => {
+    expect(parseUserProfile({ degreeTarget: 'Master' })).toEqual({
+      degreeTarget: 'Master',
+      fields: [],
+      nationality: '',
+      currentCountryOfResidence: '',
+      languageProofs: [],
+      gpaBand: '',
+      graduationYear: '',
+      workResearchYears: '',
+      specialStatuses: [],
+      deadlineWindow: 'Any',
+    });
+  });
+
+  it('rejects unknown options and malformed values', () => {
+    expect(() => parseUserProfile({ degreeTarget: 'master' })).toThrow(ZodError);
+    expect(() => parseUserProfile({ gpaBand: '3.6' })).toThrow(ZodError);
+    expect(() => parseUserProfile({ graduationYear: '24' })).toThrow(ZodError);
+    expect(() => parseUserProfile({ fields: 'Computer Science' })).toThrow(ZodError);
+  });
+});
+
+describe('toUserProfile', () => {
+  it('passes canonical profiles through', () => {
+    const profile = parseUserProfile({ degreeTarget: 'PhD', fields: ['Physics'], nationality: 'Kenya' });
+    expect(toUserProfile(profile)).toEqual(profile);
+  });
+
+  it('converts legacy profiles', () => {
+    expect(toUserProfile({
+      nationality: 'Kenya',
+      degreeTarget: 'master',
+      fieldKeywords: ['computer science'],
+      specialStatus: ['refugee'],
+      gpa: 3.6,
+      languageTests: { IELTS: 7 },
+      publications: 2,
+      workExperience: 3,
+    })).toMatchObject({
+      nationality: 'Kenya',
+      degreeTarget: 'Master',
+      fields: ['Computer Science'],
+      specialStatuses: ['refugee'],
+      gpaBand: '>=90',
+      languageProofs: ['IELTS 7'],
+      publications: 2,
+      workResearchYears: '2-3',
+    });
+  });
+});
+
+describe('fromQuestionnaire', () => {
+  it('converts the answers', () => {
+    expect(fromQuestionnaire({
+      nationality: 'Nigeria',
+      degreeTarget: 'phd',
+      fieldKeywords: ['engineering', 'environmental science'],
+      gpa: 3.9,
+      specialStatus: ['first-generation'],
+      languageTests: 'IELTS 7.5, TOEFL 100',
+      experience: '3 years as a research assistant, 2 publications',
+    })).toMatchObject({
+      nationality: 'Nigeria',
+      degreeTarget: 'PhD',
+      fields: ['Engineering', 'Environmental Science'],
+      gpaBand: '>=90',
+      specialStatuses: ['first-generation'],
+      languageProofs: ['IELTS 7.5', 'TOEFL 100'],
+      workResearchYears: '2-3',
+      publications: 2,
+    });
+  });
+
+  it('leaves unanswered and "other" answers empty', () => {
+    const profile = fromQuestionnaire({ nationality: 'other', degreeTarget: 'master', fieldKeywords: ['law'] });
+    expect(profile.nationality).toBe('');
+    expect(profile.gpaBand).toBe('');
+    expect(profile.workResearchYears).toBe('');
+    expect(profile.languageProofs).toEqual([]);
+  });
+
+  it('reads grades on the chosen scale', () => {
+    expect(fromQuestionnaire({ gpa: { value: '14', scale: '20' } }).gpaBand).toBe('80-89');
+    expect(fromQuestionnaire({ gpa: { value: 'First', scale: 'UK' } }).gpaBand).toBe('>=90');
+    expect(fromQuestionnaire({ gpa: { value: '', scale: '10' } }).gpaBand).toBe('');
+  });
+
+  it('reads language tests given as JSON', () => {
+    expect(fromQuestionnaire({ languageTests: '{"IELTS": 7, "TOEFL": 95}' }).languageProofs).toEqual(['IELTS 7', 'TOEFL 95']);
+  });
+});
+
+describe('CVEntitiesSchema', () => {
+  it('keeps the readable entities and drops null or mistyped ones', () => {
+    expect(CVEntitiesSchema.parse({
+      nationality: null,
+      degree: 'MSc',
+      field_keywords: ['Data Science'],
+      gpa: '2:1',
+      work_years: 'three',
+      graduation_year: 2021,
+    })).toEqual({
+      degree: 'MSc',
+      field_keywords: ['Data Science'],
+      gpa: '2:1',
+      graduation_year: '2021',
+    });
+  });
+});
+
+describe('fromCVEntities', () => {
+  it('converts the extracted entities', () => {
+    expect(fromCVEntities({
+      nationality: 'Ghana',
+      degree: 'MSc',
+      field_keywords: ['Data Science', ''],
+      gpa: 8.7,
+      work_years: 1,
+      language_proofs: ['IELTS 7.0'],
+    })).toMatchObject({
+      nationality: 'Ghana',
+      degreeTarget: 'PhD',
+      fields: ['Data Science'],
+      gpaBand: '80-89',
+      workResearchYears: '1',
+      languageProofs: ['IELTS 7.0'],
+    });
+  });
+
+  it('returns an empty profile when nothing was extracted', () => {
+    expect(fromCVEntities(null)).toEqual(parseUserProfile({}));
+  });
+});
+
+describe('mergeUserProfiles', () => {
+  it('keeps entered values unless the update answers them', () => {
+    const entered = parseUserProfile({ degreeTarget: 'Master', nationality: 'Kenya', fields: ['Physics'], deadlineWindow: '<=60' });
+    const fromCV = fromCVEntities({ degree: 'MSc', gpa: 3.7, language_proofs: ['IELTS 7.5'] });
+
+    expect(mergeUserProfiles(entered, fromCV)).toMatchObject({
+      degreeTarget: 'PhD',
+      nationality: 'Kenya',
+      fields: ['Physics'],
+      gpaBand: '>=90',
+      languageProofs: ['IELTS 7.5'],
+      deadlineWindow: '<=60',
+    });
+  });
+});
+
+describe('conversion helpers', () => {
+  it('normalizes degree names', () => {
+    expect(normalizeDegree('Doctorate')).toBe('PhD');
+    expect(normalizeDegree('post-doc')).toBe('Postdoc');
+    expect(normalizeDegree('B.Sc')).toBe('Bachelor');
+    expect(normalizeDegree('diploma')).toBe('');
+  });
+
+  it('targets the degree after the one held', () => {
+    expect(nextDegreeTarget('Bachelor')).toBe('Master');
+    expect(nextDegreeTarget('PhD')).toBe('Postdoc');
+    expect(nextDegreeTarget('Postdoc')).toBe('');
+    expect(nextDegreeTarget('')).toBe('');
+  });
+
+  it('bands GPAs on inferred and given scales', () => {
+    expect(gpaBandFromScore(3.6)).toBe('>=90');
+    expect(gpaBandFromScore(3.2)).toBe('80-89');
+    expect(gpaBandFromScore(72)).toBe('70-79');
+    expect(gpaBandFromScore(3.6, 5)).toBe('70-79');
+    expect(gpaBandFromScore(4.5, 4)).toBe('');
+  });
+
+  it('bands work years', () => {
+    expect(workYearsBand(0.5)).toBe('0');
+    expect(workYearsBand(3)).toBe('2-3');
+    expect(workYearsBand(6)).toBe('4+');
+    expect(workYearsBand(undefined)).toBe('');
+  });
+});
@@ -0,0 +1,431 @@
+import { CVEntities, normalizeDegree } from '@/lib/profile/userProfile';
+import { GRADE_SCALES, gradeToPercent, inferGradeScale, parseGradeScale, parseUKClass } from '@/lib/profile/gradeScales';
+
+/**
+ * One fact read from a CV, with how sure the extractor is and where it was found.
+ */
+export interface ExtractedField {
+  field: CVField;
+  value: string | number;
+  confidence: number; // 0..1
+  source: string; // The CV line it was read from, or LLM_SOURCE
+}
+
+export type CVField =
+  | 'nationality'
+  | 'degree' // Highest degree held, as a degree target ('Master')
+  | 'fieldOfStudy'
+  | 'graduationYear'
+  | 'gpa' // A number, or a UK class ('2:1')
+  | 'gpaScale' // A `GradeScale` id ('4.0', '20', '100', 'UK')
+  | 'languageProof' // e.g. 'IELTS 7.5'
+  | 'languageTestDate' // e.g. 'IELTS 2023-05'
+  | 'workYears'
+  | 'publications';
+
+export interface CVExtraction {
+  fields: ExtractedField[];
+  entities: CVEntities; // The merged facts, for `fromCVEntities`
+  confidence: number; // Mean confidence of the fields; 0 when nothing was found
+  suggestions: string[]; // What the applicant should check or add
+}
+
+export const LLM_SOURCE = 'LLM entity extraction';
+
+// Facts from the model carry no snippet, so they rank below explicit matches in the text
+const LLM_CONFIDENCE = 0.6;
+const AGREEMENT_BONUS = 0.1;
+
+type Section = 'education' | 'experience' | 'publications' | 'other';
+
+const SECTION_HEADINGS: Array<[Section, RegExp]> = [
+  ['education', /^(education|academic (background|history|qualifications)|qualifications|degrees?)$/i],
+  ['experience', /^((work|professional|research|employment|relevant|teaching) )?(experience|history)$|^employment( history)?$|^work$/i],
+  ['publications', /^(selected )?(publications|papers|research output|peer-reviewed publications)$/i],
+  ['other', /^(skills|technical skills|languages?( skills)?|certifications?|awards|honou?rs|projects|references|interests|summary|profile|objective|personal (details|information)|contact|volunteering|activities|tests?|test scores)$/i],
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+const DATE = `(?:${MONTH}\\s+|\\d{1,2}[/.])?(?:19|20)\\d{2}`;
+const DATE_RANGE = `(${DATE})\\s*(?:-|–|—|to|until)\\s*(${DATE}|present|current|now|today|ongoing)`;
+
+const GPA_WITH_SCALE = /\b(?:c?gpa|grade point average)\b[^\d\n]{0,15}(\d{1,2}(?:\.\d{1,2})?)\s*(?:\/|out of)\s*(\d{1,3}(?:\.\d{1,2})?)\b/i;
+const GPA_LABELED = /\b(?:c?gpa|grade point average)\b[^\d\n]{0,15}(\d{1,3}(?:\.\d{1,2})?)\b\s*(%)?/i;
+const FRENCH_GRADE = /\b(?:moyenne|mention|note|average)\b[^\d\n]{0,30}(\d{1,2}(?:[.,]\d{1,2})?)\s*\/\s*20\b|(\d{1,2}(?:[.,]\d{1,2})?)\s*\/\s*20\b/i;
+const UK_CLASS = /\b(?:first|upper second|lower second|third)[\s-]+class\b|\b(?:first|2\s*:\s*[12]|upper second|lower second)\b[^\n]{0,20}\bhono(?:u)?rs\b|\bhono(?:u)?rs\b[^\n]{0,40}?(?:\(|,|\s)(?:first|2\s*:\s*[12])(?=[\s),.]|$)|(?:\(|,\s*)2\s*:\s*[12]\)?(?=[\s,.]|$)/i;
+const PERCENT_GRADE = /\b(?:average|aggregate|marks|percentage|overall grade)\b[^\d\n]{0,15}(\d{2}(?:\.\d{1,2})?)\s*%|(\d{2}(?:\.\d{1,2})?)\s*%\s*(?:average|aggregate|marks|overall)/i;
+
+const LANGUAGE_TESTS: Array<{ name: string; pattern: RegExp; min: number; max: number }> = [
+  { name: 'IELTS', pattern: /\bIELTS\b(?:\s+academic)?[^\d\n]{0,20}(\d(?:\.[05])?)\b/i, min: 0, max: 9 },
+  { name: 'TOEFL', pattern: /\bTOEFL\b(?:\s*i?BT)?[^\d\n]{0,20}(\d{2,3})\b/i, min: 0, max: 120 },
+  { name: 'GRE', pattern: /\bGRE\b(?:\s+general)?[^\d\n]{0,20}(\d{3})\b/i, min: 260, max: 340 },
+];
+
+// Longest spellings first, so "Master of Science" wins over "Master"
+const DEGREE_TITLE = /\b(ph\.?\s?d|d\.?phil|doctor(?:ate| of [a-z]+)|post-?doc(?:toral)?|master(?:['’]?s)?(?: of [a-z]+)?|m\.?sc|m\.?eng|m\.?phil|mba|m\.a\.|b\.?sc|b\.?eng|b\.?tech|bachelor(?:['’]?s)?(?: of [a-z]+)?|b\.a\.)(?=[\s,.(]|$)/i;
+const DEGREE_RANK: Record<string, number> = { Bachelor: 1, Master: 2, PhD: 3, Postdoc: 4 };
+
+/**
+ * Reads profile facts from CV text with fixed patterns: GPAs on the scales of `GRADE_SCALES`,
+ * IELTS, TOEFL and GRE scores with their dates, degree titles, date ranges in the experience
+ * section (as years of work) and the entries of a publications section.
+ * @param text - CV text, as extracted by `extractDocumentText`.
+ * @param now - Date that open-ended ranges ("2021 - present") run to.
+ * @returns Every fact found, with a confidence and the line it came from.
+ */
+export function extractCVFields(text: string, now = new Date()): ExtractedField[] {
+  const lines = sectionLines(text);
+  const fields: ExtractedField[] = [];
+  const add = (field: CVField, value: string | number, confidence: number, source: string) => {
+    fields.push({ field, value, confidence, source: snippet(source) });
+  };
+
+  // Degree: the highest title, preferring the education section
+  const degrees = lines
+    .map(line => ({ line, match: DEGREE_TITLE.exec(line.text) }))
+    .filter((entry): entry is { line: SectionLine; match: RegExpExecArray } => entry.match !== null)
+    .map(entry => ({ ...entry, degree: toDegree(entry.match[1]) }))
+    .filter(entry => entry.degree && (entry.line.section === 'education' || entry.line.section === 'other'));
+  const best = degrees.sort((a, b) =>
+    DEGREE_RANK[b.degree] - DEGREE_RANK[a.degree] || sectionRank(a.line.section) - sectionRank(b.line.section)
+  )[0];
+  if (best) {
+    const inEducation = best.line.section === 'education';
+    add('degree', best.degree, inEducation ? 0.9 : 0.65, best.line.text);
+
+    const rest = best.line.text.slice(best.match.index + best.match[0].length);
+    const field = /^(?:\s+(?:in|of))?\s+([A-Z][A-Za-z&/\- ]{2,60}?)\s*(?=[,(;|]|\s+[-–—]\s|\s+\d|$)/.exec(rest);
+    if (field && !/universit|college|institute|school/i.test(field[1])) {
+      add('fieldOfStudy', field[1].trim(), 0.6, best.line.text);
+    }
+
+    const years = best.line.text.match(/\b(?:19|20)\d{2}\b/g);
+    if (years) {
+      add('graduationYear', years[years.length - 1], inEducation ? 0.75 : 0.6, best.line.text);
+    }
+  }
+
+  // GPA: an explicit scale beats an inferred one
+  for (const line of lines) {
+    const withScale = GPA_WITH_SCALE.exec(line.text);
+    if (withScale && parseFloat(withScale[1]) <= parseFloat(withScale[2])) {
+      add('gpa', parseFloat(withScale[1]), 0.95, line.text);
+      add('gpaScale', parseGradeScale(withScale[2]) ?? withScale[2], 0.95, line.text);
+      break;
+    }
+    const labeled = GPA_LABELED.exec(line.text);
+    if (labeled) {
+      const gpa = parseFloat(labeled[1]);
+      const scale = labeled[2] ? '100' : inferGradeScale(gpa);
+      if (scale) {
+        add('gpa', gpa, 0.8, line.text);
+        add('gpaScale', scale, 0.6, line.text);
+        break;
+      }
+    }
+    if (line.section === 'experience') continue;
+    const french = FRENCH_GRADE.exec(line.text);
+    if (french) {
+      add('gpa', parseFloat((french[1] ?? french[2]).replace(',', '.')), french[1] ? 0.85 : 0.7, line.text);
+      add('gpaScale', '20', 0.85, line.text);
+      break;
+    }
+    const ukClass = UK_CLASS.exec(line.text) && parseUKClass(line.text);
+    if (ukClass) {
+      add('gpa', ukClass, 0.85, line.text);
+      add('gpaScale', 'UK', 0.85, line.text);
+      break;
+    }
+    const percent = PERCENT_GRADE.exec(line.text);
+    if (percent) {
+      add('gpa', parseFloat(percent[1] ?? percent[2]), 0.7, line.text);
+      add('gpaScale', '100', 0.7, line.text);
+      break;
+    }
+  }
+
+  // Language tests, each once, with the date on the same line when there is one
+  for (const test of LANGUAGE_TESTS) {
+    for (const line of lines) {
+      const match = test.pattern.exec(line.text);
+      const score = match ? parseFloat(match[1]) : NaN;
+      if (!match || score < test.min || score > test.max) continue;
+
+      add('languageProof', `${test.name} ${match[1]}`, 0.95, line.text);
+      const date = new RegExp(DATE, 'i').exec(line.text.slice(match.index + match[0].length))
+        ?? new RegExp(DATE, 'i').exec(line.text.slice(0, match.index));
+      if (date) add('languageTestDate', `${test.name} ${formatDate(parseDate(date[0]))}`, 0.8, line.text);
+      break;
+    }
+  }
+
+  // Work experience: date ranges in the experience section, overlaps counted once
+  const hasExperienceSection = lines.some(line => line.section === 'experience');
+  const workLines = lines.filter(line => hasExperienceSection ? line.section === 'experience' : line.section === 'other');
+  const periods: Array<{ start: MonthYear; end: MonthYear; line: SectionLine }> = [];
+  for (const line of workLines) {
+    const ranges = new RegExp(DATE_RANGE, 'gi');
+    let range: RegExpExecArray | null;
+    while ((range = ranges.exec(line.text)) !== null) {
+      const start = parseDate(range[1]);
+      const end = /^(present|current|now|today|ongoing)$/i.test(range[2])
+        ? { year: now.getFullYear(), month: now.getMonth(), hasMonth: true }
+        : parseDate(range[2]);
+      if (monthIndex(end) >= monthIndex(start)) periods.push({ start, end, line });
+    }
+  }
+  if (periods.length > 0) {
+    // A named end month is worked in, so "Jan 2020 - Dec 2022" is three years
+    const months = countMonths(periods.map(period => [
+      monthIndex(period.start),
+      monthIndex(period.end) + (period.end.hasMonth ? 1 : 0),
+    ]));
+    add('workYears', Math.round((months / 12) * 10) / 10, hasExperienceSection ? 0.85 : 0.55,
+      periods.map(period => period.line.text).join('; '));
+  }
+
+  // Publications: the entries under a publications heading
+  const publications = lines.filter(line => line.section === 'publications');
+  if (publications.length > 0) {
+    add('publications', publications.length, 0.8, publications[0].text);
+  }
+
+  return fields;
+}
+
+/**
+ * Combines the rule-based facts with the LLM's entities. Where both name a fact and agree,
+ * its confidence rises; where they disagree, the more confident value is kept and the
+ * applicant is asked to check it.
+ * @param ruleFields - Output of `extractCVFields`.
+ * @param entities - Output of the CV entity prompt, or null when it failed.
+ * @returns The merged fields and entities, an overall confidence and suggestions.
+ */
+export function mergeCVExtraction(ruleFields: ExtractedField[], entities: CVEntities | null | undefined): CVExtraction {
+  const fields = ruleFields.map(field => ({ ...field }));
+  const suggestions: string[] = [];
+
+  for (const llmField of entitiesToFields(entities)) {
+    const existing = fields.find(field => field.field === llmField.field && sameKey(field, llmField));
+    if (!existing) {
+      fields.push(llmField);
+    } else if (sameValue(existing, llmField)) {
+      existing.confidence = Math.min(0.99, Math.max(existing.confidence, llmField.confidence) + AGREEMENT_BONUS);
+    } else {
+      suggestions.push(`Check your ${CV_FIELD_LABELS[existing.field]}: the CV text says "${existing.value}" but the AI read "${llmField.value}".`);
+      if (llmField.confidence > existing.confidence) {
+        Object.assign(existing, llmField);
+      }
+    }
+  }
+
+  const has = (field: CVField) => fields.some(entry => entry.field === field);
+  if (!has('nationality')) suggestions.push('Add your nationality; most scholarships depend on it.');
+  if (!has('gpa')) suggestions.push('Add your GPA or final grade.');
+  if (!has('languageProof')) suggestions.push('Add your language test scores (IELTS, TOEFL) if you have them.');
+  if (!has('degree')) suggestions.push('Add your highest degree.');
+
+  const confidence = fields.length > 0
+    ? Math.round((fields.reduce((sum, field) => sum + field.confidence, 0) / fields.length) * 100) / 100
+    : 0;
+
+  return { fields, entities: toCVEntities(fields), confidence, suggestions };
+}
+
+export const CV_FIELD_LABELS: Record<CVField, string> = {
+  nationality: 'nationality',
+  degree: 'degree',
+  fieldOfStudy: 'field of study',
+  graduationYear: 'graduation year',
+  gpa: 'GPA',
+  gpaScale: 'GPA scale',
+  languageProof: 'language test score',
+  languageTestDate: 'language test date',
+  workYears: 'years of work experience',
+  publications: 'number of publications',
+};
+
+const NUMERIC_FIELDS = new Set<CVField>(['workYears', 'publications']);
+
+export const EDITED_SOURCE = 'Edited by you';
+
+/**
+ * Applies the applicant's correction to a field. Numeric fields are stored as numbers, a GPA
+ * as a number or UK class and a GPA scale as a `GradeScale` id.
+ * @param field - The extracted field.
+ * @param value - The corrected value as typed.
+ * @returns The field with the new value, fully trusted.
+ * @throws When a numeric field gets a value that is not a number, or a grade cannot be read.
+ */
+export function editCVField(field: ExtractedField, value: string): ExtractedField {
+  const trimmed = value.trim();
+  const edited = (newValue: string | number): ExtractedField => ({ ...field, value: newValue, confidence: 1, source: EDITED_SOURCE });
+
+  if (field.field === 'gpa') {
+    if (gradeToPercent(trimmed) === undefined) throw new Error('Enter your GPA as a number, or a UK class such as 2:1');
+    const ukClass = /^\d+(?:[.,]\d+)?$/.test(trimmed) ? undefined : parseUKClass(trimmed);
+    return edited(ukClass ?? parseFloat(trimmed.replace(',', '.')));
+  }
+  if (field.field === 'gpaScale') {
+    const scale = parseGradeScale(trimmed);
+    if (!scale) throw new Error(`Enter one of these GPA scales: ${GRADE_SCALES.join(', ')}`);
+    return edited(scale);
+  }
+  if (NUMERIC_FIELDS.has(field.field)) {
+    const number = Number(trimmed);
+    if (!trimmed || !Number.isFinite(number) || number < 0) {
+      throw new Error(`Enter a number for the ${CV_FIELD_LABELS[field.field]}`);
+    }
+    return edited(number);
+  }
+  return edited(trimmed);
+}
+
+function entitiesToFields(entities: CVEntities | null | undefined): ExtractedField[] {
+  if (!entities) return [];
+  const llm = (field: CVField, value: string | number): ExtractedField => ({ field, value, confidence: LLM_CONFIDENCE, source: LLM_SOURCE });
+  const strings = (values: unknown) => (Array.isArray(values) ? values : [])
+    .filter((value): value is string => typeof value === 'string' && value.trim() !== '');
+  const degree = normalizeDegree(typeof entities.degree === 'string' ? entities.degree : undefined);
+  const gpa = typeof entities.gpa === 'string' ? parseUKClass(entities.gpa) : entities.gpa;
+
+  return [
+    ...(typeof entities.nationality === 'string' && entities.nationality.trim() ? [llm('nationality', entities.nationality.trim())] : []),
+    ...(degree ? [llm('degree', degree)] : []),
+    ...strings(entities.field_keywords).map(field => llm('fieldOfStudy', field.trim())),
+    ...(typeof gpa === 'string' || (typeof gpa === 'number' && gpa > 0) ? [llm('gpa', gpa)] : []),
+    ...(typeof entities.work_years === 'number' && entities.work_years >= 0 ? [llm('workYears', entities.work_years)] : []),
+    ...strings(entities.language_proofs).map(proof => llm('languageProof', proof.trim())),
+  ];
+}
+
+/**
+ * Turns reviewed fields back into entities for `fromCVEntities`. The first value of a
+ * single-valued field wins; numeric fields given as text are ignored.
+ * @param fields - Extracted or reviewed fields.
+ * @returns The entities.
+ */
+export function toCVEntities(fields: ExtractedField[]): CVEntities {
+  const first = (field: CVField) => fields.find(entry => entry.field === field)?.value;
+  const all = (field: CVField) => fields.filter(entry => entry.field === field).map(entry => String(entry.value));
+  const number = (value: string | number | undefined) => (typeof value === 'number' ? value : undefined);
+
+  return {
+    nationality: first('nationality') as string | undefined,
+    degree: first('degree') as string | undefined,
+    field_keywords: all('fieldOfStudy'),
+    gpa: first('gpa'),
+    gpa_scale: first('gpaScale'),
+    work_years: number(first('workYears')),
+    language_proofs: all('languageProof'),
+    publications: number(first('publications')),
+    graduation_year: first('graduationYear') as string | undefined,
+  };
+}
+
+// Multi-valued fields are matched by test name or field, single-valued ones by field alone
+function sameKey(a: ExtractedField, b: ExtractedField): boolean {
+  if (a.field === 'languageProof') return testName(a.value) === testName(b.value);
+  if (a.field === 'fieldOfStudy') return String(a.value).toLowerCase() === String(b.value).toLowerCase();
+  return true;
+}
+
+function sameValue(a: ExtractedField, b: ExtractedField): boolean {
+  if (typeof a.value === 'number' && typeof b.value === 'number') {
+    const tolerance = a.field === 'gpa' ? 0.05 : a.field === 'workYears' ? 0.5 : 0;
+    return Math.abs(a.value - b.value) <= tolerance;
+  }
+  if (a.field === 'languageProof') {
+    return parseFloat(String(a.value).replace(/^\D+/, '')) === parseFloat(String(b.value).replace(/^\D+/, ''));
+  }
+  return String(a.value).trim().toLowerCase() === String(b.value).trim().toLowerCase();
+}
+
+function testName(value: string | number): string {
+  return String(value).trim().split(/\s+/)[0].toUpperCase();
+}
+
+interface SectionLine {
+  text: string;
+  section: Section;
+}
+
+// Non-empty lines with the CV section each belongs to; headings and page markers are left out
+function sectionLines(text: string): SectionLine[] {
+  let section: Section = 'other';
+  const lines: SectionLine[] = [];
+
+  for (const raw of text.split('\n')) {
+    const line = raw.trim();
+    if (!line || /^--- Page \d+ ---$/.test(line)) continue;
+
+    const heading = line.replace(/^#+\s*/, '').replace(/:$/, '').trim();
+    const match = heading.length <= 40 ? SECTION_HEADINGS.find(([, pattern]) => pattern.test(heading)) : undefined;
+    if (match) {
+      section = match[0];
+      continue;
+    }
+    if (line.startsWith('#')) {
+      section = 'other'; // An unknown section ends the previous one
+      continue;
+    }
+    lines.push({ text: line.replace(/^[-•*▪◦]\s*/, ''), section });
+  }
+  return lines;
+}
+
+function sectionRank(section: Section): number {
+  return section === 'education' ? 0 : 1;
+}
+
+function toDegree(title: string): string {
+  const value = title.toLowerCase().replace(/\s/g, '');
+  if (/^d\.?phil/.test(value)) return 'PhD';
+  if (/^mba$|^m\.a\.$/.test(value)) return 'Master';
+  if (/^b\.?tech$|^b\.a\.$/.test(value)) return 'Bachelor';
+  return normalizeDegree(value);
+}
+
+interface MonthYear {
+  year: number;
+  month: number; // 0-11
+  hasMonth: boolean; // False for a bare year, whose month defaults to January
+}
+
+// "Mar 2021", "03/2021" and "2021" (January)
+function parseDate(value: string): MonthYear {
+  const year = parseInt(/(?:19|20)\d{2}/.exec(value)?.[0] ?? '0', 10);
+  const name = MONTHS.findIndex(month => value.toLowerCase().startsWith(month));
+  const numeric = /^(\d{1,2})[/.]/.exec(value);
+  const month = name >= 0 ? name : numeric ? Math.min(11, Math.max(0, parseInt(numeric[1], 10) - 1)) : 0;
+  return { year, month, hasMonth: name >= 0 || numeric !== null };
+}
+
+function formatDate({ year, month }: MonthYear): string {
+  return `${year}-${String(month + 1).padStart(2, '0')}`;
+}
+
+function monthIndex({ year, month }: MonthYear): number {
+  return year * 12 + month;
+}
+
+// Months covered by a set of [start, end) periods, overlaps counted once
+function countMonths(periods: Array<[number, number]>): number {
+  const sorted = [...periods].sort((a, b) => a[0] - b[0]);
+  let total = 0;
+  let current: [number, number] | null = null;
+  for (const [start, end] of sorted) {
+    if (current && start <= current[1]) {
+      current[1] = Math.max(current[1], end);
+    } else {
+      if (current) total += current[1] - current[0];
+      current = [start, end];
+    }
+  }
+  return total + (current ? current[1] - current[0] : 0);
+}
+
+function snippet(text: string): string {
+  return text.length > 160 ? `${text.slice(0, 157)}...` : text;
+}
@@ -0,0 +1,151 @@
+/**
+ * Grade scales applicants and scholarships state GPAs on. Numeric ids name the scale's maximum;
+ * '100' is a percentage and 'UK' the UK degree classification.
+ */
+export const GRADE_SCALES = ['4.0', '4.3', '5.0', '10', '20', '100', 'UK'] as const;
+
+export type GradeScale = typeof GRADE_SCALES[number];
+
+export const GRADE_SCALE_LABELS: Record<GradeScale, string> = {
+  '4.0': 'GPA out of 4.0',
+  '4.3': 'GPA out of 4.3',
+  '5.0': 'GPA out of 5.0',
+  '10': 'Out of 10',
+  '20': 'Out of 20 (French system)',
+  '100': 'Percentage',
+  'UK': 'UK degree classification',
+};
+
+export const UK_CLASSES = ['First', '2:1', '2:2', 'Third', 'Pass'] as const;
+
+export type UKClass = typeof UK_CLASSES[number];
+
+type NumericScale = Exclude<GradeScale, 'UK'>;
+
+// Grade on the scale -> percent equivalent, interpolated linearly between points. Proportional
+// scales are a share of their maximum; French marks and UK classes follow the usual 4.0
+// equivalents (10/20 is a pass, about 2.0; 16/20 and a First about 3.8)
+const NUMERIC_SCALES: Record<NumericScale, Array<[number, number]>> = {
+  '4.0': [[0, 0], [4, 100]],
+  '4.3': [[0, 0], [4.3, 100]],
+  '5.0': [[0, 0], [5, 100]],
+  '10': [[0, 0], [10, 100]],
+  '20': [[0, 0], [10, 50], [12, 75], [14, 87.5], [16, 95], [20, 100]],
+  '100': [[0, 0], [100, 100]],
+};
+
+const UK_PERCENT: Record<UKClass, number> = {
+  'First': 95,
+  '2:1': 85,
+  '2:2': 75,
+  'Third': 62.5,
+  'Pass': 50,
+};
+
+const UK_CLASS_PATTERNS: Array<[UKClass, RegExp]> = [
+  ['2:1', /\b2\s*[:.]\s*1\b|\bii\s*[:.]\s*i\b|\bupper\s+second\b/i],
+  ['2:2', /\b2\s*[:.]\s*2\b|\bii\s*[:.]\s*ii\b|\blower\s+second\b/i],
+  ['First', /\bfirst(?:\s*-?\s*class)?\b|\b1st\b/i],
+  ['Third', /\bthird(?:\s*-?\s*class)?\b|\b3rd\b/i],
+  ['Pass', /\bpass\b|\bordinary\s+degree\b/i],
+];
+
+/**
+ * Recognises a grade scale in the ways CVs and scholarship calls write it.
+ * @param scale - e.g. 4, '4.0', '20', '%', 'percentage' or 'UK classification'.
+ * @returns The scale id, or undefined when it is not one of `GRADE_SCALES`.
+ */
+export function parseGradeScale(scale: string | number | undefined): GradeScale | undefined {
+  if (scale === undefined) return undefined;
+  const text = String(scale).trim().toLowerCase();
+  if (/^(%|percent(age)?)$/.test(text)) return '100';
+  if (/^uk\b|classification|honou?rs/.test(text)) return 'UK';
+
+  const max = parseFloat(text.replace(/^out of\s*/, ''));
+  return (GRADE_SCALES as readonly string[]).find(id => parseFloat(id) === max) as GradeScale | undefined;
+}
+
+/**
+ * Guesses the scale of a grade stated without one, from the smallest scale it fits.
+ * @param grade - Numeric grade.
+ * @returns The scale, or undefined for negative grades and grades above 100.
+ */
+export function inferGradeScale(grade: number): NumericScale | undefined {
+  if (!Number.isFinite(grade) || grade < 0) return undefined;
+  return GRADE_SCALES.filter((id): id is NumericScale => id !== 'UK')
+    .find(id => grade <= NUMERIC_SCALES[id][NUMERIC_SCALES[id].length - 1][0]);
+}
+
+/**
+ * Reads a UK degree classification, e.g. 'First Class Honours', 'Upper Second' or '2:1'.
+ * @param text - Classification as written.
+ * @returns The class, or undefined when none is named.
+ */
+export function parseUKClass(text: string): UKClass | undefined {
+  return UK_CLASS_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+}
+
+/**
+ * Converts a grade to its percent equivalent, the common measure that profile GPA bands and
+ * `gpa_min` checks compare. A stated scale outside `GRADE_SCALES`, e.g. 7, is read as a
+ * share of its maximum.
+ * @param grade - Numeric grade, or a UK classification.
+ * @param scale - Scale id or maximum; inferred from the grade when omitted.
+ * @returns Percent equivalent (0-100), or undefined when the grade does not fit the scale.
+ */
+export function gradeToPercent(grade: number | string, scale?: string | number): number | undefined {
+  const stated = scale === undefined || scale === '' ? undefined : String(scale);
+  const id = parseGradeScale(stated);
+  const text = String(grade).trim();
+
+  if (!/^\d+(?:[.,]\d+)?$/.test(text)) {
+    const ukClass = !stated || id === 'UK' ? parseUKClass(text) : undefined;
+    return ukClass && UK_PERCENT[ukClass];
+  }
+  const number = parseFloat(text.replace(',', '.'));
+  if (stated && !id) {
+    const max = parseFloat(stated);
+    return Number.isFinite(max) && max > 0 && number <= max ? (number / max) * 100 : undefined;
+  }
+
+  const numericId = id ?? inferGradeScale(number);
+  if (!numericId || numericId === 'UK') return undefined;
+  const points = NUMERIC_SCALES[numericId];
+  return number <= points[points.length - 1][0] ? interpolate(points, number, 0, 1) : undefined;
+}
+
+/**
+ * Expresses a percent equivalent on a scale; the inverse of `gradeToPercent`.
+ * @param percent - Percent equivalent (0-100).
+ * @param scale - Target scale.
+ * @returns The grade, rounded to two decimals, or the highest UK class the percent reaches
+ *   (undefined below a pass).
+ */
+export function percentToGrade(percent: number, scale: GradeScale): number | string | undefined {
+  if (!Number.isFinite(percent) || percent < 0 || percent > 100) return undefined;
+  if (scale === 'UK') return UK_CLASSES.find(ukClass => percent >= UK_PERCENT[ukClass]);
+  return Math.round(interpolate(NUMERIC_SCALES[scale], percent, 1, 0) * 100) / 100;
+}
+
+/**
+ * Converts a grade between scales, e.g. 14/20 to 3.5 on the 4.0 scale.
+ * @param grade - Numeric grade, or a UK classification.
+ * @param from - Scale of the grade; inferred when omitted.
+ * @param to - Target scale.
+ * @returns The converted grade, or undefined when the grade does not fit `from`.
+ */
+export function convertGrade(grade: number | string, from: string | number | undefined, to: GradeScale): number | string | undefined {
+  const percent = gradeToPercent(grade, from);
+  return percent === undefined ? undefined : percentToGrade(percent, to);
+}
+
+// Piecewise-linear lookup of `value` in column `from`, answered from column `to`
+function interpolate(points: Array<[number, number]>, value: number, from: 0 | 1, to: 0 | 1): number {
+  for (let i = 1; i < points.length; i++) {
+    const [low, high] = [points[i - 1], points[i]];
+    if (value <= high[from]) {
+      return low[to] + ((value - low[from]) / (high[from] - low[from])) * (high[to] - low[to]);
+    }
+  }
+  return points[points.length - 1][to];
+}
@@ -0,0 +1,269 @@
+import { z } from 'zod';
+import { gradeToPercent } from '@/lib/profile/gradeScales';
+
+export const DEGREE_TARGETS = ['Bachelor', 'Master', 'PhD', 'Postdoc'] as const;
+export const GPA_BANDS = ['>=90', '80-89', '70-79', '<70'] as const;
+export const WORK_YEAR_BANDS = ['0', '1', '2-3', '4+'] as const;
+export const DEADLINE_WINDOWS = ['Any', '<=30', '<=60', '<=120'] as const;
+export const FUNDING_TOLERANCES = ['Fully funded only', 'Allow partial if stipend >= X'] as const;
+
+// '' means the applicant has not answered
+const optionalChoice = <T extends readonly [string, ...string[]]>(values: T) =>
+  z.union([z.enum(values), z.literal('')]).default('');
+
+/**
+ * The one applicant profile used across the app: search form, questionnaire, CV parsing,
+ * scoring, reranking and AI recommendations. Every field has a default, so partial input
+ * (an unfinished form, a sparse CV) still parses.
+ */
+export const UserProfileSchema = z.object({
+  degreeTarget: optionalChoice(DEGREE_TARGETS),
+  fields: z.array(z.string().trim().min(1)).default([]), // e.g. 'Computer Science'
+  nationality: z.string().trim().default(''), // Country name, e.g. 'Kenya'
+  currentCountryOfResidence: z.string().trim().default(''),
+  languageProofs: z.array(z.string().trim().min(1)).default([]), // e.g. 'IELTS 7.0', 'Goethe C1'
+  gpaBand: optionalChoice(GPA_BANDS), // GPA by its percent equivalent (`gradeToPercent`)
+  graduationYear: z.string().regex(/^(\d{4})?$/, 'Expected a four-digit year').default(''),
+  age: z.number().int().min(10).max(100).optional(),
+  workResearchYears: optionalChoice(WORK_YEAR_BANDS),
+  publications: z.number().int().min(0).optional(),
+  specialStatuses: z.array(z.string().trim().min(1)).default([]),
+  deadlineWindow: z.union([z.enum(DEADLINE_WINDOWS), z.literal('')]).default('Any'),
+  cheveningWorkYears: z.boolean().optional(),
+  ageCapConflict: z.boolean().optional(), // Over the common age caps
+  engineeringSubfield: z.string().optional(),
+  fundingTolerance: z.enum(FUNDING_TOLERANCES).optional(),
+});
+
+export type UserProfile = z.infer<typeof UserProfileSchema>;
+
+/**
+ * The older profile shape sent by the questionnaire, the AI recommendations API and early
+ * CV parsing: keywords instead of fields, a numeric GPA and test scores by test name.
+ */
+export interface LegacyUserProfile {
+  nationality?: string;
+  degreeTarget?: string;
+  fieldKeywords?: string[];
+  specialStatus?: string[];
+  gpa?: number | string; // On a 4.0 scale unless `gpaScale` says otherwise; or a UK class
+  gpaScale?: number | string; // Anything `parseGradeScale` reads
+  languageTests?: Record<string, unknown> | Array<{ type: string; score: number | string }>;
+  publications?: number;
+  workExperience?: number; // Years
+}
+
+// A value the model left out, set to null or got the type of wrong is treated as not stated
+const statedEntity = <T extends z.ZodType>(schema: T) => schema.optional().catch(undefined);
+
+/**
+ * Entities returned by the CV entity prompt (`cv-entities`), merged with rule-based extraction.
+ * One unreadable entity does not discard the others.
+ */
+export const CVEntitiesSchema = z.object({
+  nationality: statedEntity(z.string()),
+  degree: statedEntity(z.string()),
+  field_keywords: statedEntity(z.array(z.string())),
+  gpa: statedEntity(z.union([z.number(), z.string()])), // A UK classification ('2:1') is a string
+  gpa_scale: statedEntity(z.union([z.number(), z.string()])), // Inferred from the GPA when absent
+  work_years: statedEntity(z.number().min(0)),
+  language_proofs: statedEntity(z.array(z.string())),
+  publications: statedEntity(z.number().int().min(0)),
+  graduation_year: statedEntity(z.union([z.string(), z.number().int()]).transform(String)),
+});
+
+export type CVEntities = z.infer<typeof CVEntitiesSchema>;
+
+/**
+ * Validates a canonical profile, as sent by the search form.
+ * @param input - Profile JSON.
+ * @returns The profile with defaults filled in.
+ * @throws ZodError when a field has the wrong type or an unknown option.
+ */
+export function parseUserProfile(input: unknown): UserProfile {
+  return UserProfileSchema.parse(input);
+}
+
+/**
+ * Accepts a canonical or a legacy profile, so API routes keep serving older clients.
+ * @param input - Profile JSON in either shape.
+ * @returns The canonical profile.
+ */
+export function toUserProfile(input: unknown): UserProfile {
+  if (input && typeof input === 'object' && 'fieldKeywords' in input) {
+    return fromLegacyProfile(input as LegacyUserProfile);
+  }
+  return parseUserProfile(input);
+}
+
+/**
+ * Converts a legacy profile.
+ * @param legacy - Profile with `fieldKeywords`, numeric `gpa` and `languageTests`.
+ * @returns The canonical profile.
+ */
+export function fromLegacyProfile(legacy: LegacyUserProfile): UserProfile {
+  return parseUserProfile({
+    degreeTarget: normalizeDegree(legacy.degreeTarget),
+    fields: (legacy.fieldKeywords ?? []).map(titleCase),
+    nationality: legacy.nationality,
+    languageProofs: languageProofsFromTests(legacy.languageTests),
+    gpaBand: legacy.gpa === undefined ? '' : gpaBandFromScore(legacy.gpa, legacy.gpaScale ?? (typeof legacy.gpa === 'number' ? '4.0' : undefined)),
+    workResearchYears: workYearsBand(legacy.workExperience),
+    publications: legacy.publications,
+    specialStatuses: legacy.specialStatus,
+  });
+}
+
+/**
+ * Converts the answers of the guided questionnaire.
+ * @param answers - Answers by question id (`nationality`, `degreeTarget`, `fieldKeywords`,
+ *   `gpa`, `specialStatus`, `languageTests`, `experience`). `gpa` is `{ value, scale }`, or a
+ *   number on the 4.0 scale from older clients.
+ * @returns The canonical profile.
+ */
+export function fromQuestionnaire(answers: Record<string, unknown>): UserProfile {
+  const experience = typeof answers.experience === 'string' ? answers.experience : '';
+  const years = /(\d+)\s*(?:\+\s*)?years?/i.exec(experience);
+  const publications = /(\d+)\s*(?:publications?|papers?)/i.exec(experience);
+  const grade = parseGradeAnswer(answers.gpa);
+
+  return fromLegacyProfile({
+    nationality: typeof answers.nationality === 'string' && answers.nationality !== 'other' ? answers.nationality : '',
+    degreeTarget: typeof answers.degreeTarget === 'string' ? answers.degreeTarget : '',
+    fieldKeywords: Array.isArray(answers.fieldKeywords) ? answers.fieldKeywords : [],
+    specialStatus: Array.isArray(answers.specialStatus) ? answers.specialStatus : [],
+    gpa: grade?.value,
+    gpaScale: grade?.scale,
+    languageTests: parseLanguageTestsAnswer(answers.languageTests),
+    workExperience: years ? parseInt(years[1], 10) : undefined,
+    publications: publications ? parseInt(publications[1], 10) : undefined,
+  });
+}
+
+/**
+ * Converts the entities the CV parser extracted. Fields the CV does not state stay empty
+ * for the applicant to fill in, and the degree target is the level after the degree held.
+ * @param entities - Output of the CV entity prompt.
+ * @returns The canonical profile.
+ */
+export function fromCVEntities(entities: CVEntities | null | undefined): UserProfile {
+  const stated = entities?.gpa;
+  const gpa = (typeof stated === 'number' && stated > 0) || (typeof stated === 'string' && stated.trim()) ? stated : undefined;
+  return parseUserProfile({
+    degreeTarget: nextDegreeTarget(normalizeDegree(entities?.degree)),
+    fields: (entities?.field_keywords ?? []).filter(field => typeof field === 'string' && field.trim()),
+    nationality: typeof entities?.nationality === 'string' ? entities.nationality : '',
+    languageProofs: (entities?.language_proofs ?? []).filter(proof => typeof proof === 'string' && proof.trim()),
+    gpaBand: gpa === undefined ? '' : gpaBandFromScore(gpa, entities?.gpa_scale),
+    graduationYear: /^\d{4}$/.test(entities?.graduation_year ?? '') ? entities?.graduation_year : '',
+    workResearchYears: workYearsBand(entities?.work_years),
+    publications: typeof entities?.publications === 'number' ? entities.publications : undefined,
+  });
+}
+
+/**
+ * Lays the answered fields of one profile over another, e.g. facts confirmed from a CV over
+ * what the applicant already entered.
+ * @param base - The current profile.
+ * @param update - Profile whose non-empty fields win.
+ * @returns The combined profile.
+ */
+export function mergeUserProfiles(base: UserProfile, update: UserProfile): UserProfile {
+  const answered = Object.fromEntries(Object.entries(update).filter(([, value]) =>
+    value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0)
+  ));
+  // The default deadline window is not an answer
+  if (answered.deadlineWindow === 'Any') delete answered.deadlineWindow;
+  return parseUserProfile({ ...base, ...answered });
+}
+
+/**
+ * Maps a degree name in any common spelling onto a degree target.
+ * @param degree - e.g. 'master', 'MSc', 'Doctorate'.
+ * @returns The degree target, or '' when unrecognized.
+ */
+export function normalizeDegree(degree: string | undefined): UserProfile['degreeTarget'] {
+  const value = (degree || '').trim().toLowerCase();
+  if (!value) return '';
+  if (/post-?doc/.test(value)) return 'Postdoc';
+  if (/ph\.?d|doctor/.test(value)) return 'PhD';
+  if (/master|^m\.?(sc|a|eng|ba|phil)\b/.test(value)) return 'Master';
+  if (/bachelor|undergrad|^b\.?(sc|a|eng)\b/.test(value)) return 'Bachelor';
+  return '';
+}
+
+/**
+ * The degree an applicant holding `held` would apply for next, e.g. a Master after a Bachelor.
+ * @param held - Degree already completed.
+ * @returns The next degree target, or '' when unknown or after a postdoc.
+ */
+export function nextDegreeTarget(held: UserProfile['degreeTarget']): UserProfile['degreeTarget'] {
+  const index = DEGREE_TARGETS.indexOf(held as typeof DEGREE_TARGETS[number]);
+  return index === -1 ? '' : DEGREE_TARGETS[index + 1] ?? '';
+}
+
+/**
+ * Puts a GPA into a band by its percent equivalent (`gradeToPercent`).
+ * @param gpa - GPA value, or a UK classification.
+ * @param scale - Scale id or maximum; inferred from the value when omitted.
+ * @returns The band, or '' for values outside the scale.
+ */
+export function gpaBandFromScore(gpa: number | string, scale?: number | string): UserProfile['gpaBand'] {
+  const percent = gradeToPercent(gpa, scale);
+  if (percent === undefined) return '';
+  if (percent >= 90) return '>=90';
+  if (percent >= 80) return '80-89';
+  if (percent >= 70) return '70-79';
+  return '<70';
+}
+
+/**
+ * Puts years of work experience into a band.
+ * @param years - Whole or fractional years.
+ * @returns The band, or '' when unknown.
+ */
+export function workYearsBand(years: number | undefined): UserProfile['workResearchYears'] {
+  if (typeof years !== 'number' || !Number.isFinite(years) || years < 0) return '';
+  const whole = Math.floor(years);
+  if (whole >= 4) return '4+';
+  if (whole >= 2) return '2-3';
+  return whole === 1 ? '1' : '0';
+}
+
+function languageProofsFromTests(tests: LegacyUserProfile['languageTests']): string[] {
+  if (!tests) return [];
+  const entries = Array.isArray(tests)
+    ? tests.map(test => [test.type, test.score] as const)
+    : Object.entries(tests);
+  return entries
+    .filter(([name, score]) => name && (typeof score === 'number' || typeof score === 'string'))
+    .map(([name, score]) => `${name} ${score}`.trim());
+}
+
+// The questionnaire's grade answer: { value, scale }, or a legacy number on the 4.0 scale
+function parseGradeAnswer(answer: unknown): { value: number | string; scale?: string } | undefined {
+  if (typeof answer === 'number') return { value: answer, scale: '4.0' };
+  if (!answer || typeof answer !== 'object') return undefined;
+  const { value, scale } = answer as Record<string, unknown>;
+  if ((typeof value !== 'number' && typeof value !== 'string') || value === '') return undefined;
+  return { value, scale: typeof scale === 'string' ? scale : undefined };
+}
+
+// The questionnaire's free-text answer: JSON such as {"IELTS": 7}, or "IELTS 7.0, TOEFL 95"
+function parseLanguageTestsAnswer(answer: unknown): Record<string, unknown> | undefined {
+  if (typeof answer !== 'string' || !answer.trim()) return undefined;
+  try {
+    const parsed = JSON.parse(answer);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed;
+  } catch {
+    // Not JSON; read it as a list
+  }
+  return Object.fromEntries(answer.split(/[,;\n]/)
+    .map(part => /^\s*(.*?)\s*(\d+(?:\.\d+)?|[ABC][12])\s*$/i.exec(part))
+    .filter((match): match is RegExpExecArray => match !== null && match[1] !== '')
+    .map(match => [match[1], match[2]]));
+}
+
+function titleCase(value: string): string {
+  return value.trim().replace(/\b\w/g, letter => letter.toUpperCase());
+}
@@ -0,0 +1,34 @@
+// Shared repository contracts
+// Concrete repositories delegate persistence to a store (Prisma or in-memory)
+// and expose the same CRUD surface regardless of the backing database.
+
+export interface PaginationOptions {
+  limit?: number
+  offset?: number
+}
+
+export interface PaginatedResult<T> {
+  items: T[]
+  total: number
+  limit: number
+  offset: number
+}
+
+export const DEFAULT_PAGE_SIZE = 25
+export const MAX_PAGE_SIZE = 200
+
+export abstract class BaseRepository<T extends { id: string }, TCreate, TUpdate> {
+  abstract findById(id: string): Promise<T | null>
+  abstract create(data: TCreate): Promise<T>
+  abstract update(id: string, data: TUpdate): Promise<T | null>
+  abstract softDelete(id: string): Promise<boolean>
+
+  /**
+   * Clamps pagination input to sane bounds.
+   */
+  protected normalizePagination(options: PaginationOptions = {}): Required<PaginationOptions> {
+    const limit = Math.min(Math.max(options.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE)
+    const offset = Math.max(options.offset ?? 0, 0)
+    return { limit, offset }
+  }
+}
@@ -0,0 +1,180 @@
+// In-memory scholarship store
+// Used for tests and for local development when no DATABASE_URL is set.
+// Behaves like the Prisma store: ids are generated, rows are copied on the way
+// in and out, and soft-deleted rows are hidden unless explicitly requested.
+
+import crypto from 'crypto'
+import type { Scholarship, ScholarshipFieldChange, ScholarshipRevision } from '@/types/database'
+import type { PaginationOptions } from './BaseRepository'
+import type {
+  ScholarshipCreateInput,
+  ScholarshipFilters,
+  ScholarshipStore,
+  ScholarshipUpdateInput
+} from './ScholarshipRepository'
+
+export class InMemoryScholarshipStore implements ScholarshipStore {
+  private rows = new Map<string, Scholarship>()
+  private revisions = new Map<string, ScholarshipRevision[]>()
+
+  async findById(id: string, options: { includeDeleted?: boolean } = {}): Promise<Scholarship | null> {
+    const row = this.rows.get(id)
+    if (!row || (row.deletedAt && !options.includeDeleted)) {
+      return null
+    }
+    return cloneRow(row)
+  }
+
+  async findBySourceUrl(sourceUrl: string, options: { includeDeleted?: boolean } = {}): Promise<Scholarship | null> {
+    const row = this.findRowBySourceUrl(sourceUrl)
+    if (!row || (row.deletedAt && !options.includeDeleted)) {
+      return null
+    }
+    return cloneRow(row)
+  }
+
+  async findMany(
+    filters: ScholarshipFilters,
+    pagination: Required<PaginationOptions>
+  ): Promise<{ items: Scholarship[]; total: number }> {
+    const matches = Array.from(this.rows.values())
+      .filter(row => matchesFilters(row, filters))
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+
+    return {
+      items: matches.slice(pagination.offset, pagination.offset + pagination.limit).map(cloneRow),
+      total: matches.length
+    }
+  }
+
+  async create(data: ScholarshipCreateInput): Promise<Scholarship> {
+    if (this.findRowBySourceUrl(data.sourceUrl)) {
+      throw new Error(`Scholarship with sourceUrl ${data.sourceUrl} already exists`)
+    }
+
+    const now = new Date()
+    const row = cloneRow({
+      ...data,
+      id: data.id || `sch_${crypto.randomUUID()}`,
+      createdAt: now,
+      updatedAt: now,
+      deletedAt: null
+    })
+
+    if (this.rows.has(row.id)) {
+      throw new Error(`Scholarship with id ${row.id} already exists`)
+    }
+
+    this.rows.set(row.id, row)
+    return cloneRow(row)
+  }
+
+  async update(id: string, data: ScholarshipUpdateInput): Promise<Scholarship | null> {
+    const row = this.rows.get(id)
+    if (!row || row.deletedAt) {
+      return null
+    }
+
+    const updated = cloneRow({
+      ...row,
+      ...data,
+      id: row.id,
+      createdAt: row.createdAt,
+      updatedAt: new Date()
+    })
+    this.rows.set(id, updated)
+    return cloneRow(updated)
+  }
+
+  async upsertBySourceUrl(data: ScholarshipCreateInput): Promise<{ scholarship: Scholarship; created: boolean }> {
+    const existing = this.findRowBySourceUrl(data.sourceUrl)
+    if (!existing) {
+      return { scholarship: await this.create(data), created: true }
+    }
+
+    const updated = cloneRow({
+      ...existing,
+      ...data,
+      id: existing.id,
+      createdAt: existing.createdAt,
+      deletedAt: existing.deletedAt,
+      updatedAt: new Date()
+    })
+    this.rows.set(existing.id, updated)
+    return { scholarship: cloneRow(updated), created: false }
+  }
+
+  async softDelete(id: string): Promise<boolean> {
+    const row = this.rows.get(id)
+    if (!row || row.deletedAt) {
+      return false
+    }
+    row.deletedAt = new Date()
+    return true
+  }
+
+  async addRevision(scholarshipId: string, changes: ScholarshipFieldChange[]): Promise<ScholarshipRevision> {
+    const revision: ScholarshipRevision = {
+      id: `rev_${crypto.randomUUID()}`,
+      scholarshipId,
+      changes: changes.map(change => ({ ...change })),
+      createdAt: new Date()
+    }
+    this.revisions.set(scholarshipId, [...(this.revisions.get(scholarshipId) || []), revision])
+    return { ...revision }
+  }
+
+  async getRevisions(scholarshipId: string): Promise<ScholarshipRevision[]> {
+    return [...(this.revisions.get(scholarshipId) || [])].reverse().map(revision => ({ ...revision }))
+  }
+
+  private findRowBySourceUrl(sourceUrl: string): Scholarship | undefined {
+    return Array.from(this.rows.values()).find(row => row.sourceUrl === sourceUrl)
+  }
+}
+
+function matchesFilters(row: Scholarship, filters: ScholarshipFilters): boolean {
+  if (row.deletedAt && !filters.includeDeleted) return false
+
+  if (filters.countries?.length && !filters.countries.includes(row.country)) return false
+
+  if (filters.degreeLevels?.length && !row.degreeLevels.some(level => filters.degreeLevels!.includes(level))) {
+    return false
+  }
+
+  if (filters.fields?.length && !row.fields.some(field => filters.fields!.includes(field))) return false
+
+  if (filters.domains?.length && !filters.domains.includes(row.domain)) return false
+
+  // A deadline that "varies" never satisfies an explicit deadline window
+  if (filters.deadlineBefore || filters.deadlineAfter) {
+    if (row.deadline === 'varies') return false
+    if (filters.deadlineBefore && row.deadline > filters.deadlineBefore) return false
+    if (filters.deadlineAfter && row.deadline < filters.deadlineAfter) return false
+  }
+
+  if (filters.minStipend && (!row.stipend || row.stipend < filters.minStipend)) return false
+
+  if (filters.promptVersionNot && row.promptVersion === filters.promptVersionNot) return false
+
+  if (filters.search) {
+    const term = filters.search.toLowerCase()
+    const text = `${row.name} ${row.eligibilityText}`.toLowerCase()
+    if (!text.includes(term)) return false
+  }
+
+  return true
+}
+
+// Copies a row so callers can never mutate stored state
+function cloneRow(row: Scholarship): Scholarship {
+  return {
+    ...row,
+    degreeLevels: [...row.degreeLevels],
+    fields: [...row.fields],
+    requirements: [...row.requirements],
+    tags: [...row.tags],
+    deadline: row.deadline === 'varies' ? 'varies' : new Date(row.deadline),
+    eligibility_rules: row.eligibility_rules?.map(rule => ({ ...rule }))
+  }
+}
@@ -0,0 +1,196 @@
+// Prisma scholarship store
+// Maps between the Scholarship domain type and the `Scholarship` table defined
+// in prisma/schema.prisma. A NULL deadline column represents 'varies'.
+
+import type { PrismaClient } from '@prisma/client'
+import type { Scholarship, ScholarshipFieldChange, ScholarshipRevision } from '@/types/database'
+import type { PaginationOptions } from './BaseRepository'
+import type {
+  ScholarshipCreateInput,
+  ScholarshipFilters,
+  ScholarshipStore,
+  ScholarshipUpdateInput
+} from './ScholarshipRepository'
+
+interface ScholarshipRow {
+  id: string
+  name: string
+  sourceUrl: string
+  domain: string
+  country: string
+  degreeLevels: string[]
+  fields: string[]
+  deadline: Date | null
+  stipend: number | null
+  tuitionCovered: boolean
+  travelSupport: boolean
+  eligibilityText: string
+  requirements: string[]
+  tags: string[]
+  confidence: number
+  eligibilityRules: unknown
+  promptVersion: string | null
+  createdAt: Date
+  updatedAt: Date
+  deletedAt: Date | null
+}
+
+interface RevisionRow {
+  id: string
+  scholarshipId: string
+  changes: unknown
+  createdAt: Date
+}
+
+export class PrismaScholarshipStore implements ScholarshipStore {
+  constructor(private readonly client: PrismaClient) {}
+
+  async findById(id: string, options: { includeDeleted?: boolean } = {}): Promise<Scholarship | null> {
+    const row: ScholarshipRow | null = await this.client.scholarship.findFirst({
+      where: options.includeDeleted ? { id } : { id, deletedAt: null }
+    })
+    return row ? toScholarship(row) : null
+  }
+
+  async findBySourceUrl(sourceUrl: string, options: { includeDeleted?: boolean } = {}): Promise<Scholarship | null> {
+    const row: ScholarshipRow | null = await this.client.scholarship.findFirst({
+      where: options.includeDeleted ? { sourceUrl } : { sourceUrl, deletedAt: null }
+    })
+    return row ? toScholarship(row) : null
+  }
+
+  async findMany(
+    filters: ScholarshipFilters,
+    pagination: Required<PaginationOptions>
+  ): Promise<{ items: Scholarship[]; total: number }> {
+    const where = buildWhere(filters)
+    const [rows, total]: [ScholarshipRow[], number] = await Promise.all([
+      this.client.scholarship.findMany({
+        where,
+        orderBy: { updatedAt: 'desc' },
+        skip: pagination.offset,
+        take: pagination.limit
+      }),
+      this.client.scholarship.count({ where })
+    ])
+
+    return { items: rows.map(toScholarship), total }
+  }
+
+  async create(data: ScholarshipCreateInput): Promise<Scholarship> {
+    const row: ScholarshipRow = await this.client.scholarship.create({
+      data: { ...toRowData(data), ...(data.id ? { id: data.id } : {}) }
+    })
+    return toScholarship(row)
+  }
+
+  async update(id: string, data: ScholarshipUpdateInput): Promise<Scholarship | null> {
+    const existing = await this.findById(id)
+    if (!existing) {
+      return null
+    }
+
+    const row: ScholarshipRow = await this.client.scholarship.update({
+      where: { id },
+      data: toRowData(data)
+    })
+    return toScholarship(row)
+  }
+
+  async upsertBySourceUrl(data: ScholarshipCreateInput): Promise<{ scholarship: Scholarship; created: boolean }> {
+    const existing: ScholarshipRow | null = await this.client.scholarship.findUnique({
+      where: { sourceUrl: data.sourceUrl }
+    })
+
+    const row: ScholarshipRow = await this.client.scholarship.upsert({
+      where: { sourceUrl: data.sourceUrl },
+      create: { ...toRowData(data), ...(data.id ? { id: data.id } : {}) },
+      update: toRowData(data)
+    })
+
+    return { scholarship: toScholarship(row), created: !existing }
+  }
+
+  async softDelete(id: string): Promise<boolean> {
+    const { count }: { count: number } = await this.client.scholarship.updateMany({
+      where: { id, deletedAt: null },
+      data: { deletedAt: new Date() }
+    })
+    return count > 0
+  }
+
+  async addRevision(scholarshipId: string, changes: ScholarshipFieldChange[]): Promise<ScholarshipRevision> {
+    const row: RevisionRow = await this.client.scholarshipRevision.create({
+      data: { scholarshipId, changes: JSON.parse(JSON.stringify(changes)) }
+    })
+    return toRevision(row)
+  }
+
+  async getRevisions(scholarshipId: string): Promise<ScholarshipRevision[]> {
+    const rows: RevisionRow[] = await this.client.scholarshipRevision.findMany({
+      where: { scholarshipId },
+      orderBy: { createdAt: 'desc' }
+    })
+    return rows.map(toRevision)
+  }
+}
+
+function buildWhere(filters: ScholarshipFilters) {
+  const and: object[] = []
+
+  if (!filters.includeDeleted) and.push({ deletedAt: null })
+  if (filters.countries?.length) and.push({ country: { in: filters.countries } })
+  if (filters.degreeLevels?.length) and.push({ degreeLevels: { hasSome: filters.degreeLevels } })
+  if (filters.fields?.length) and.push({ fields: { hasSome: filters.fields } })
+  if (filters.domains?.length) and.push({ domain: { in: filters.domains } })
+  if (filters.deadlineBefore) and.push({ deadline: { lte: filters.deadlineBefore } })
+  if (filters.deadlineAfter) and.push({ deadline: { gte: filters.deadlineAfter } })
+  if (filters.minStipend) and.push({ stipend: { gte: filters.minStipend } })
+  if (filters.promptVersionNot) {
+    and.push({ OR: [{ promptVersion: null }, { promptVersion: { not: filters.promptVersionNot } }] })
+  }
+  if (filters.search) {
+    and.push({
+      OR: [
+        { name: { contains: filters.search, mode: 'insensitive' } },
+        { eligibilityText: { contains: filters.search, mode: 'insensitive' } }
+      ]
+    })
+  }
+
+  return { AND: and }
+}
+
+function toRowData(data: ScholarshipUpdateInput & { id?: string }) {
+  const { deadline, eligibility_rules, ...rest } = data
+  // Ids are only ever set on create, never overwritten by an update, and
+  // timestamps are managed by the database even if the caller passes them
+  delete rest.id
+  for (const key of ['createdAt', 'updatedAt', 'deletedAt']) {
+    delete (rest as Record<string, unknown>)[key]
+  }
+  return {
+    ...rest,
+    ...(deadline !== undefined ? { deadline: deadline === 'varies' ? null : deadline } : {}),
+    // Round-trip through JSON so the rules are plain JSON values for Prisma
+    ...(eligibility_rules !== undefined ? { eligibilityRules: JSON.parse(JSON.stringify(eligibility_rules)) } : {})
+  }
+}
+
+function toScholarship(row: ScholarshipRow): Scholarship {
+  const { deadline, stipend, eligibilityRules, promptVersion, ...rest } = row
+  return {
+    ...rest,
+    deadline: deadline ?? 'varies',
+    stipend: stipend ?? undefined,
+    promptVersion: promptVersion ?? undefined,
+    eligibility_rules: Array.isArray(eligibilityRules) ? eligibilityRules : undefined
+  }
+}
+
+function toRevision(row: RevisionRow): ScholarshipRevision {
+  return {
+    ...row,
+    changes: Array.isArray(row.changes) ? row.changes : []
+  }
+}
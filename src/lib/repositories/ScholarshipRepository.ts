@@ -0,0 +1,197 @@
+// Scholarship repository
+// Persists scholarships through a pluggable store: Prisma/PostgreSQL when
+// DATABASE_URL is configured, otherwise a process-local in-memory store that
+// tests and local development can use without any outside services.
+
+import type { Scholarship, ScholarshipFieldChange, ScholarshipRevision } from '@/types/database'
+import { BaseRepository, type PaginatedResult, type PaginationOptions } from './BaseRepository'
+import { InMemoryScholarshipStore } from './InMemoryScholarshipStore'
+import { PrismaScholarshipStore } from './PrismaScholarshipStore'
+import { getPrisma, isDatabaseConfigured } from '../prisma'
+
+export type ScholarshipCreateInput = Omit<Scholarship, 'id' | 'createdAt' | 'updatedAt' | 'deletedAt'> & {
+  id?: string
+}
+
+export type ScholarshipUpdateInput = Partial<Omit<ScholarshipCreateInput, 'id'>>
+
+export interface ScholarshipFilters {
+  countries?: string[]
+  degreeLevels?: string[]
+  fields?: string[]
+  deadlineBefore?: Date
+  deadlineAfter?: Date
+  minStipend?: number
+  domains?: string[]
+  search?: string
+  includeDeleted?: boolean
+  promptVersionNot?: string // Records extracted with any other prompt version or none, e.g. to re-extract them
+}
+
+export interface ScholarshipStore {
+  findById(id: string, options?: { includeDeleted?: boolean }): Promise<Scholarship | null>
+  findBySourceUrl(sourceUrl: string, options?: { includeDeleted?: boolean }): Promise<Scholarship | null>
+  findMany(
+    filters: ScholarshipFilters,
+    pagination: Required<PaginationOptions>
+  ): Promise<{ items: Scholarship[]; total: number }>
+  create(data: ScholarshipCreateInput): Promise<Scholarship>
+  update(id: string, data: ScholarshipUpdateInput): Promise<Scholarship | null>
+  upsertBySourceUrl(data: ScholarshipCreateInput): Promise<{ scholarship: Scholarship; created: boolean }>
+  softDelete(id: string): Promise<boolean>
+  addRevision(scholarshipId: string, changes: ScholarshipFieldChange[]): Promise<ScholarshipRevision>
+  getRevisions(scholarshipId: string): Promise<ScholarshipRevision[]>
+}
+
+export interface ScholarshipSearchResult {
+  scholarships: Scholarship[]
+  total: number
+  limit: number
+  offset: number
+}
+
+export interface ScholarshipUpsertResult {
+  scholarship: Scholarship
+  created: boolean
+  changes: ScholarshipFieldChange[]
+}
+
+// Fields whose changes are worth keeping in a scholarship's history
+const TRACKED_FIELDS = [
+  'name',
+  'country',
+  'degreeLevels',
+  'fields',
+  'deadline',
+  'stipend',
+  'tuitionCovered',
+  'travelSupport',
+  'eligibilityText',
+  'requirements',
+  'eligibility_rules'
+] as const satisfies ReadonlyArray<keyof Scholarship>
+
+/**
+ * Computes field-level differences between two versions of a scholarship.
+ */
+export function diffScholarships(previous: Scholarship, current: Scholarship): ScholarshipFieldChange[] {
+  const changes: ScholarshipFieldChange[] = []
+
+  for (const field of TRACKED_FIELDS) {
+    const before = toComparable(previous[field])
+    const after = toComparable(current[field])
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      changes.push({ field, previous: before, current: after })
+    }
+  }
+
+  return changes
+}
+
+function toComparable(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString()
+  return value ?? null
+}
+
+// Shared in-memory store so every repository instance sees the same data
+// within a process when no database is configured.
+let defaultMemoryStore: InMemoryScholarshipStore | null = null
+
+function getDefaultScholarshipStore(): ScholarshipStore {
+  if (isDatabaseConfigured()) {
+    return new PrismaScholarshipStore(getPrisma())
+  }
+  if (!defaultMemoryStore) {
+    defaultMemoryStore = new InMemoryScholarshipStore()
+  }
+  return defaultMemoryStore
+}
+
+export class ScholarshipRepository extends BaseRepository<
+  Scholarship,
+  ScholarshipCreateInput,
+  ScholarshipUpdateInput
+> {
+  private store: ScholarshipStore
+
+  constructor(store: ScholarshipStore = getDefaultScholarshipStore()) {
+    super()
+    this.store = store
+  }
+
+  async findById(id: string): Promise<Scholarship | null> {
+    return this.store.findById(id)
+  }
+
+  async findBySourceUrl(sourceUrl: string): Promise<Scholarship | null> {
+    return this.store.findBySourceUrl(sourceUrl)
+  }
+
+  async findMany(filters: ScholarshipFilters = {}, pagination: PaginationOptions = {}): Promise<Scholarship[]> {
+    const { items } = await this.store.findMany(filters, this.normalizePagination(pagination))
+    return items
+  }
+
+  async search(filters: ScholarshipFilters = {}, pagination: PaginationOptions = {}): Promise<ScholarshipSearchResult> {
+    const page = this.normalizePagination(pagination)
+    const result: PaginatedResult<Scholarship> = {
+      ...(await this.store.findMany(filters, page)),
+      ...page
+    }
+
+    return {
+      scholarships: result.items,
+      total: result.total,
+      limit: result.limit,
+      offset: result.offset
+    }
+  }
+
+  async create(data: ScholarshipCreateInput): Promise<Scholarship> {
+    this.assertValid(data)
+    return this.store.create(data)
+  }
+
+  async update(id: string, data: ScholarshipUpdateInput): Promise<Scholarship | null> {
+    return this.store.update(id, data)
+  }
+
+  /**
+   * Inserts a scholarship or updates the existing record with the same sourceUrl.
+   * Soft-deleted records are updated in place but stay deleted.
+   * When an update changes tracked fields, a revision with the diff is stored.
+   */
+  async upsertBySourceUrl(data: ScholarshipCreateInput): Promise<ScholarshipUpsertResult> {
+    this.assertValid(data)
+
+    const previous = await this.store.findBySourceUrl(data.sourceUrl, { includeDeleted: true })
+    const { scholarship, created } = await this.store.upsertBySourceUrl(data)
+
+    const changes = previous ? diffScholarships(previous, scholarship) : []
+    if (changes.length > 0) {
+      await this.store.addRevision(scholarship.id, changes)
+    }
+
+    return { scholarship, created, changes }
+  }
+
+  /**
+   * Returns the revision history of a scholarship, newest first.
+   */
+  async getHistory(id: string): Promise<ScholarshipRevision[]> {
+    return this.store.getRevisions(id)
+  }
+
+  async softDelete(id: string): Promise<boolean> {
+    return this.store.softDelete(id)
+  }
+
+  private assertValid(data: ScholarshipCreateInput): void {
+    if (!data.name?.trim()) {
+      throw new Error('Scholarship name is required')
+    }
+    if (!data.sourceUrl?.trim()) {
+      throw new Error('Scholarship sourceUrl is required')
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import { ScholarshipRepository, type ScholarshipCreateInput } from '../ScholarshipRepository'
+import { InMemoryScholarshipStore } from '../InMemoryScholarshipStore'
+
+const futureDate = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000)
+
+const buildScholarship = (overrides: Partial<ScholarshipCreateInput> = {}): ScholarshipCreateInput => ({
+  name: 'DAAD Graduate School Scholarship',
+  sourceUrl: 'https://www.daad.de/en/scholarships/graduate',
+  domain: 'daad.de',
+  country: 'Germany',
+  degreeLevels: ['Master', 'PhD'],
+  fields: ['Computer Science'],
+  deadline: futureDate(60),
+  stipend: 934,
+  tuitionCovered: true,
+  travelSupport: true,
+  eligibilityText: 'Open to international graduates with two years of work experience',
+  requirements: [],
+  tags: ['fully-funded'],
+  confidence: 0.9,
+  eligibility_rules: [{ rule: 'work_years_min', value: 2 }],
+  ...overrides,
+})
+
+describe('ScholarshipRepository', () => {
+  let repository: ScholarshipRepository
+
+  beforeEach(() => {
+    repository = new ScholarshipRepository(new InMemoryScholarshipStore())
+  })
+
+  it('should create and find a scholarship by id', async () => {
+    const created = await repository.create(buildScholarship())
+
+    expect(created.id).toBeDefined()
+    expect(created.createdAt).toBeInstanceOf(Date)
+
+    const found = await repository.findById(created.id)
+    expect(found?.name).toBe('DAAD Graduate School Scholarship')
+    expect(found?.eligibility_rules).toEqual([{ rule: 'work_years_min', value: 2 }])
+  })
+
+  it('should reject scholarships without a sourceUrl', async () => {
+    await expect(repository.create(buildScholarship({ sourceUrl: '' }))).rejects.toThrow('sourceUrl is required')
+  })
+
+  it('should filter scholarships', async () => {
+    await repository.create(buildScholarship())
+    await repository.create(buildScholarship({
+      name: 'Chevening Scholarship',
+      sourceUrl: 'https://www.chevening.org/scholarships',
+      domain: 'chevening.org',
+      country: 'UK',
+      degreeLevels: ['Master'],
+      deadline: 'varies',
+      stipend: undefined,
+    }))
+
+    expect(await repository.findMany({ countries: ['UK'] })).toHaveLength(1)
+    expect(await repository.findMany({ degreeLevels: ['PhD'] })).toHaveLength(1)
+    expect(await repository.findMany({ minStipend: 500 })).toHaveLength(1)
+    expect(await repository.findMany({ search: 'chevening' })).toHaveLength(1)
+
+    // A 'varies' deadline never matches an explicit deadline window
+    const beforeDeadline = await repository.findMany({ deadlineBefore: futureDate(90) })
+    expect(beforeDeadline.map(s => s.domain)).toEqual(['daad.de'])
+
+    const page = await repository.search({}, { limit: 1 })
+    expect(page.scholarships).toHaveLength(1)
+    expect(page.total).toBe(2)
+  })
+
+  it('should find scholarships extracted with another prompt version', async () => {
+    await repository.create(buildScholarship({ promptVersion: 'scholarship-extraction@2' }))
+    await repository.create(buildScholarship({ sourceUrl: 'https://www.daad.de/old', promptVersion: 'scholarship-extraction@1' }))
+    await repository.create(buildScholarship({ sourceUrl: 'https://www.daad.de/legacy' }))
+
+    const stale = await repository.findMany({ promptVersionNot: 'scholarship-extraction@2' })
+    expect(stale.map(s => s.sourceUrl).sort()).toEqual(['https://www.daad.de/legacy', 'https://www.daad.de/old'])
+  })
+
+  it('should upsert by sourceUrl', async () => {
+    const first = await repository.upsertBySourceUrl(buildScholarship())
+    const second = await repository.upsertBySourceUrl(buildScholarship({ stipend: 1200 }))
+
+    expect(first.created).toBe(true)
+    expect(second.created).toBe(false)
+    expect(second.scholarship.id).toBe(first.scholarship.id)
+    expect(second.scholarship.stipend).toBe(1200)
+    expect(await repository.findMany()).toHaveLength(1)
+  })
+
+  it('should record field-level history when an upsert changes a scholarship', async () => {
+    const newDeadline = futureDate(90)
+    const { scholarship } = await repository.upsertBySourceUrl(buildScholarship())
+    const unchanged = await repository.upsertBySourceUrl(buildScholarship({ deadline: scholarship.deadline }))
+    const updated = await repository.upsertBySourceUrl(buildScholarship({ stipend: 1200, deadline: newDeadline }))
+
+    expect(unchanged.changes).toEqual([])
+    expect(updated.changes).toEqual([
+      { field: 'deadline', previous: (scholarship.deadline as Date).toISOString(), current: newDeadline.toISOString() },
+      { field: 'stipend', previous: 934, current: 1200 },
+    ])
+
+    const history = await repository.getHistory(scholarship.id)
+    expect(history).toHaveLength(1)
+    expect(history[0].scholarshipId).toBe(scholarship.id)
+    expect(history[0].changes.map(change => change.field)).toEqual(['deadline', 'stipend'])
+  })
+
+  it('should hide soft-deleted scholarships', async () => {
+    const created = await repository.create(buildScholarship())
+
+    expect(await repository.softDelete(created.id)).toBe(true)
+    expect(await repository.softDelete(created.id)).toBe(false)
+    expect(await repository.findById(created.id)).toBeNull()
+    expect(await repository.findMany()).toHaveLength(0)
+    expect(await repository.findMany({ includeDeleted: true })).toHaveLength(1)
+  })
+})
@@ -0,0 +1,5 @@
+// Repository exports
+export * from './BaseRepository'
+export * from './ScholarshipRepository'
+export { InMemoryScholarshipStore } from './InMemoryScholarshipStore'
+export { PrismaScholarshipStore } from './PrismaScholarshipStore'
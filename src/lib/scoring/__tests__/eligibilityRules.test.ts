@@ -0,0 +1,87 @@
+import { evaluateRule, evaluateRules, toEligibilityProfile } from '../eligibilityRules';
+
+describe('eligibility rule engine', () => {
+  const profile = toEligibilityProfile({
+    nationality: 'Sudanese',
+    currentCountryOfResidence: 'Egypt',
+    age: 29,
+    graduationYear: '2021',
+    workResearchYears: '2-3',
+    gpaBand: '80-89',
+    languageProofs: ['IELTS 7.0', 'Goethe B2'],
+  });
+
+  it('should check age caps against the age, or the age cap conflict flag', () => {
+    expect(evaluateRule({ rule: 'age_max', value: 35 }, profile)).toMatchObject({
+      outcome: 'pass',
+      explanation: 'Age limit 35; you are 29.',
+    });
+    expect(evaluateRule({ rule: 'age_max', value: 28 }, profile).outcome).toBe('fail');
+    expect(evaluateRule({ rule: 'age_max', value: 35 }, toEligibilityProfile({ ageCapConflict: true })).outcome).toBe('fail');
+    expect(evaluateRule({ rule: 'age_max', value: 35 }, toEligibilityProfile({})).outcome).toBe('unknown');
+  });
+
+  it('should check residency separately from nationality', () => {
+    expect(evaluateRule({ rule: 'residency', allowed: ['egypt', 'Jordan'] }, profile)).toMatchObject({
+      outcome: 'pass',
+      explanation: 'Open to residents of egypt, Jordan; your country of residence is Egypt.',
+    });
+    expect(evaluateRule({ rule: 'nationality', allowed: ['Egypt'] }, profile).outcome).toBe('fail');
+    expect(evaluateRule({ rule: 'nationality', allowed: ['International'] }, profile).outcome).toBe('pass');
+  });
+
+  it('should check graduation year windows', () => {
+    expect(evaluateRule({ rule: 'graduation_year', min: 2020, max: 2023 }, profile)).toMatchObject({
+      outcome: 'pass',
+      explanation: 'Requires graduating between 2020 and 2023; you graduated in 2021.',
+    });
+    expect(evaluateRule({ rule: 'graduation_year', min: 2022 }, profile).outcome).toBe('fail');
+    expect(evaluateRule({ rule: 'graduation_year' }, profile).outcome).toBe('unknown');
+  });
+
+  it('should compare numeric scores and CEFR levels per language test', () => {
+    expect(evaluateRule({ rule: 'language', values: ['IELTS 6.5', 'TOEFL iBT 90'] }, profile)).toMatchObject({
+      outcome: 'pass',
+      explanation: 'Requires IELTS 6.5 or TOEFL iBT 90; you have IELTS 7.0.',
+    });
+    expect(evaluateRule({ rule: 'language', values: ['IELTS 7.5'] }, profile).outcome).toBe('fail');
+    expect(evaluateRule({ rule: 'language', values: ['Goethe C1'] }, profile).outcome).toBe('fail');
+    expect(evaluateRule({ rule: 'language', values: ['Goethe B1'] }, profile).outcome).toBe('pass');
+    expect(evaluateRule({ rule: 'language', values: ['TOEFL 100'] }, profile).outcome).toBe('fail');
+  });
+
+  it('should report bands that straddle a threshold as unknown', () => {
+    expect(evaluateRule({ rule: 'work_years_min', value: 2 }, profile).outcome).toBe('pass');
+    expect(evaluateRule({ rule: 'work_years_min', value: 3 }, profile).outcome).toBe('unknown');
+    expect(evaluateRule({ rule: 'gpa_min', value: 3.0, scale: '4.0' }, profile).outcome).toBe('pass');
+    expect(evaluateRule({ rule: 'gpa_min', value: 85 }, profile)).toMatchObject({
+      outcome: 'unknown',
+      explanation: 'Requires a GPA of at least 85 on a 100 scale; your GPA band (80-89) may or may not meet it.',
+    });
+  });
+
+  it('should compare minimum grades on French and UK scales', () => {
+    expect(evaluateRule({ rule: 'gpa_min', value: 12, scale: '20' }, profile).outcome).toBe('pass');
+    expect(evaluateRule({ rule: 'gpa_min', value: 16, scale: '20' }, profile).outcome).toBe('fail');
+    expect(evaluateRule({ rule: 'gpa_min', value: '2:2', scale: 'UK' }, profile)).toMatchObject({
+      outcome: 'pass',
+      explanation: expect.stringMatching(/^Requires at least a 2:2 degree \(UK classification\)/),
+    });
+    expect(evaluateRule({ rule: 'gpa_min', value: 'First', scale: 'UK' }, profile).outcome).toBe('fail');
+  });
+
+  it('should mark optional rules as preferences and unknown kinds as unknown', () => {
+    const [preferred, unrecognized] = evaluateRules(
+      [{ rule: 'age_max', value: 25, optional: true }, { rule: 'publications_min', value: 2 }],
+      profile
+    );
+
+    expect(preferred).toEqual({
+      rule: 'age_max',
+      outcome: 'fail',
+      optional: true,
+      explanation: 'Preferred, not required. Age limit 25; you are 29.',
+    });
+    expect(unrecognized).toMatchObject({ outcome: 'unknown', optional: false });
+  });
+});
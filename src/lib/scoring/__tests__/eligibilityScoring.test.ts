@@ -1,17 +1,20 @@
 import { scoreAll } from '../eligibilityScoring';
 import { Scholarship } from '@/types/database';
+import { UserProfile } from '@/types/profile';
 
 describe('scoreAll - Eligibility', () => {
   it('should correctly score a scholarship against a user profile based on Chevening rules', () => {
-    const userProfile = {
+    const userProfile: UserProfile = {
       degreeTarget: 'Master',
       fields: ['Maritime'],
       nationality: 'Sudanese',
-      workYears: 2,
+      currentCountryOfResidence: '',
+      workResearchYears: '2-3',
       gpaBand: '80-89', // Represents 82
+      graduationYear: '',
       languageProofs: ['IELTS 7.0'],
       specialStatuses: [],
-      deadlineWindowDays: 'Any',
+      deadlineWindow: 'Any',
     };
 
     const cheveningScholarship: Scholarship = {
@@ -43,4 +46,104 @@ describe('scoreAll - Eligibility', () => {
     expect(scoredChevening).toBeDefined();
     expect(scoredChevening.acceptanceScore).toBeGreaterThanOrEqual(0.75);
   });
-});
\ No newline at end of file
+
+  it('should break the fit score down into explained components', () => {
+    const userProfile: UserProfile = {
+      degreeTarget: 'Master',
+      fields: ['Maritime', 'Logistics'],
+      nationality: 'Sudanese',
+      currentCountryOfResidence: 'Sudan',
+      languageProofs: ['IELTS 6.0'],
+      gpaBand: '80-89',
+      graduationYear: '2020',
+      workResearchYears: '2-3',
+      specialStatuses: [],
+      deadlineWindow: 'Any',
+    };
+    const scholarship: Scholarship = {
+      id: 'imo-1',
+      name: 'IMO Maritime Scholarship',
+      sourceUrl: 'https://www.imo.org/scholarship',
+      domain: 'imo.org',
+      country: 'Sweden',
+      degreeLevels: ['Master'],
+      fields: ['Maritime'],
+      deadline: new Date(Date.now() + 45.5 * 24 * 60 * 60 * 1000),
+      tuitionCovered: true,
+      travelSupport: false,
+      eligibilityText: '',
+      requirements: [],
+      tags: [],
+      confidence: 1.0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      eligibility_rules: [
+        { rule: 'work_years_min', value: 2 },
+        { rule: 'language', values: ['IELTS 6.5'] },
+        { rule: 'age_max', value: 35 },
+      ],
+    };
+
+    const [scored] = scoreAll([scholarship], userProfile);
+
+    expect(scored.scoreBreakdown).toEqual([
+      {
+        component: 'acceptance',
+        weight: 0.6,
+        value: scored.acceptanceScore,
+        explanation: 'Offered for Master degrees; covers Maritime; meets 1 of 3 requirements, 1 not checked, 1 not met.',
+      },
+      { component: 'funding', weight: 0.25, value: 0.8, explanation: 'Covers tuition, no stipend stated.' },
+      { component: 'deadline', weight: 0.15, value: 0.7, explanation: 'Deadline in 46 days; sooner deadlines rank higher.' },
+    ]);
+    const total = scored.scoreBreakdown.reduce((sum, item) => sum + item.weight * item.value, 0);
+    expect(total).toBeCloseTo(scored.fitScore);
+  });
+
+  it('should classify scholarships as eligible, likely or ineligible with reasons', () => {
+    const userProfile: UserProfile = {
+      degreeTarget: 'Master',
+      fields: ['Computer Science'],
+      nationality: 'Kenya',
+      currentCountryOfResidence: 'Kenya',
+      languageProofs: ['IELTS 7.0'],
+      gpaBand: '80-89',
+      graduationYear: '2022',
+      workResearchYears: '2-3',
+      specialStatuses: [],
+      deadlineWindow: 'Any',
+    };
+    const scholarship = (id: string, rules: object[]): Scholarship => ({
+      id,
+      name: id,
+      sourceUrl: `https://example.org/${id}`,
+      domain: 'example.org',
+      country: 'Germany',
+      degreeLevels: ['Master'],
+      fields: ['Computer Science'],
+      deadline: 'varies',
+      tuitionCovered: true,
+      travelSupport: false,
+      eligibilityText: '',
+      // Normalized scholarships keep their rules as JSON strings
+      requirements: [...rules.map(rule => JSON.stringify(rule)), 'Two reference letters'],
+      tags: [],
+      confidence: 1.0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    const [eligible, likely, ineligible] = scoreAll([
+      scholarship('open', [{ rule: 'nationality', allowed: ['Kenya', 'Ghana'] }, { rule: 'age_max', value: 30, optional: true }]),
+      scholarship('unchecked', [{ rule: 'age_max', value: 35 }]),
+      scholarship('closed', [{ rule: 'nationality', allowed: ['Egypt'] }, { rule: 'language', values: ['IELTS 6.5'] }]),
+    ], userProfile);
+
+    expect(eligible).toMatchObject({ eligibility: 'eligible', eligibilityReasons: [] });
+    expect(likely).toMatchObject({ eligibility: 'likely', eligibilityReasons: ['Age limit 35; add your age to check.'] });
+    expect(ineligible).toMatchObject({
+      eligibility: 'ineligible',
+      eligibilityReasons: ['Open to nationals of Egypt; your nationality is Kenya.'],
+    });
+  });
+});
@@ -1,18 +1,22 @@
 import { geminiRerank } from '../reranking';
 import { Scholarship } from '@/types/database';
+import { getUsageLedger } from '@/lib/llm';
+import { parseUserProfile } from '@/lib/profile/userProfile';
+import { UserProfile } from '@/types/profile';
 
 describe('geminiRerank', () => {
   it('should rerank scholarships, preferring those with closer deadlines', async () => {
-    const userProfile = {
+    const userProfile: UserProfile = {
       degreeTarget: 'Master',
       fields: ['Computer Science'],
       nationality: 'USA',
-      residence: 'USA',
+      currentCountryOfResidence: 'USA',
       languageProofs: ['TOEFL 90'],
       gpaBand: '80-89',
-      workYears: 0,
+      graduationYear: '',
+      workResearchYears: '0',
       specialStatuses: [],
-      deadlineWindowDays: 'Any',
+      deadlineWindow: 'Any',
     };
 
     const scholarshipVaries: Scholarship & { acceptanceScore: number; deadlineUrgency: number; fitScore: number; fundingStrength: number; } = {
@@ -88,4 +92,194 @@ describe('geminiRerank', () => {
     expect(reranked[1].id).toBe('sch-varies');
     expect(reranked[0].fitScore).toBeGreaterThan(reranked[1].fitScore);
   });
-});
\ No newline at end of file
+
+  it('should clamp boosts, ignore unknown ids and attach the rationale', async () => {
+    const base = {
+      sourceUrl: 'https://example.com',
+      domain: 'example.com',
+      country: 'Germany',
+      degreeLevels: ['Master'],
+      fields: ['Computer Science'],
+      deadline: 'varies' as const,
+      eligibilityText: '...',
+      requirements: [],
+      tags: [],
+      confidence: 1.0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      tuitionCovered: false,
+      travelSupport: false,
+      acceptanceScore: 0.5,
+      deadlineUrgency: 0,
+      fundingStrength: 0,
+      scoreBreakdown: [],
+    };
+    const scoredScholarships = [
+      { ...base, id: 'a', name: 'A', fitScore: 0.9 },
+      { ...base, id: 'b', name: 'B', fitScore: 0.6 },
+      { ...base, id: 'c', name: 'C', fitScore: 0.5 },
+    ];
+    global.fetch = jest.fn(async () => ({
+      ok: true,
+      json: async () => ({
+        candidates: [{
+          content: {
+            parts: [{
+              text: JSON.stringify({
+                rankedBoosts: [
+                  { id: 'c', boost: 5, rationale: 'Strong field match. ' },
+                  { id: 'c', boost: -1, rationale: 'Duplicate' },
+                  { id: 'a', boost: -0.05 },
+                  { id: 'ghost', boost: 0.2, rationale: 'Invented' },
+                ],
+              }),
+            }],
+          },
+        }],
+      }),
+    })) as jest.Mock;
+
+    const reranked = await geminiRerank({
+      degreeTarget: 'Master',
+      fields: ['Computer Science'],
+    } as unknown as Parameters<typeof geminiRerank>[0], scoredScholarships);
+
+    expect(reranked.map(s => [s.id, Number(s.fitScore.toFixed(2))])).toEqual([['a', 0.85], ['c', 0.7], ['b', 0.6]]);
+    expect(reranked.find(s => s.id === 'c')?.llmRationale).toBe('Strong field match.');
+    expect(reranked.find(s => s.id === 'a')?.llmRationale).toBeUndefined();
+    expect(reranked.some(s => s.id === 'ghost')).toBe(false);
+    expect(reranked.find(s => s.id === 'c')?.scoreBreakdown).toEqual([
+      { component: 'rerank', weight: 1, value: 0.2, explanation: 'Strong field match.' },
+    ]);
+    expect(reranked.find(s => s.id === 'a')?.scoreBreakdown).toEqual([
+      { component: 'rerank', weight: 1, value: -0.05, explanation: 'Adjusted by the AI reranker.' },
+    ]);
+    expect(reranked.find(s => s.id === 'b')?.scoreBreakdown).toEqual([]);
+
+    const prompt: string = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body).contents[0].parts[0].text;
+    expect(prompt).toContain('must be between -0.2 and 0.2');
+    expect(prompt).toContain('Do not invent candidates');
+  });
+
+  it('should skip the model and keep fitScore order once the rerank budget is spent', async () => {
+    const base = {
+      sourceUrl: 'https://example.com',
+      domain: 'example.com',
+      country: 'Germany',
+      degreeLevels: ['Master'],
+      fields: ['Computer Science'],
+      deadline: 'varies' as const,
+      eligibilityText: '...',
+      requirements: [],
+      tags: [],
+      confidence: 1.0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      tuitionCovered: false,
+      travelSupport: false,
+      acceptanceScore: 0.5,
+      deadlineUrgency: 0,
+      fundingStrength: 0,
+      scoreBreakdown: [],
+    };
+    const scoredScholarships = [
+      { ...base, id: 'low', name: 'Low fit', fitScore: 0.4 },
+      { ...base, id: 'high', name: 'High fit', fitScore: 0.9 },
+    ];
+    global.fetch = jest.fn() as jest.Mock;
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    getUsageLedger().setBudget('rerank', 0);
+
+    try {
+      const reranked = await geminiRerank(parseUserProfile({
+        degreeTarget: 'Master',
+        fields: ['Computer Science'],
+        nationality: 'USA',
+        gpaBand: '80-89',
+      }), scoredScholarships);
+
+      expect(reranked.map(s => s.id)).toEqual(['high', 'low']);
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(console.warn).toHaveBeenCalledWith('Skipping Gemini rerank: Daily token budget of 0 for rerank is exhausted');
+    } finally {
+      getUsageLedger().setBudget('rerank', null);
+      jest.restoreAllMocks();
+    }
+  });
+
+  it('should send the best-scoring candidates to the model', async () => {
+    const scoredScholarships = Array.from({ length: 110 }, (_, i) => ({
+      id: `sch-${i}`,
+      name: `Scholarship ${i}`,
+      sourceUrl: `https://example.com/${i}`,
+      domain: 'example.com',
+      country: 'Germany',
+      degreeLevels: ['Master'],
+      fields: ['Computer Science'],
+      deadline: 'varies' as const,
+      eligibilityText: '...',
+      requirements: [],
+      tags: [],
+      confidence: 1.0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      tuitionCovered: false,
+      travelSupport: false,
+      acceptanceScore: 0.5,
+      deadlineUrgency: 0,
+      fundingStrength: 0,
+      scoreBreakdown: [],
+      fitScore: i / 110,
+    }));
+    global.fetch = jest.fn(async () => ({
+      ok: true,
+      json: async () => ({ candidates: [{ content: { parts: [{ text: '{"rankedBoosts": []}' }] } }] }),
+    })) as jest.Mock;
+
+    await geminiRerank(parseUserProfile({ degreeTarget: 'Master' }), scoredScholarships);
+
+    const prompt: string = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body).contents[0].parts[0].text;
+    expect(prompt).toContain('"sch-109"');
+    expect(prompt).toContain('"sch-10"');
+    expect(prompt).not.toContain('"sch-9"');
+  });
+
+  it('should return as many results without the model as with it', async () => {
+    const scoredScholarships = Array.from({ length: 30 }, (_, i) => ({
+      id: `sch-${i}`,
+      name: `Scholarship ${i}`,
+      sourceUrl: `https://example.com/${i}`,
+      domain: 'example.com',
+      country: 'Germany',
+      degreeLevels: ['Master'],
+      fields: ['Computer Science'],
+      deadline: 'varies' as const,
+      eligibilityText: '...',
+      requirements: [],
+      tags: [],
+      confidence: 1.0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      tuitionCovered: false,
+      travelSupport: false,
+      acceptanceScore: 0.5,
+      deadlineUrgency: 0,
+      fundingStrength: 0,
+      scoreBreakdown: [],
+      fitScore: i / 30,
+    }));
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    getUsageLedger().setBudget('rerank', 0);
+
+    try {
+      const reranked = await geminiRerank(parseUserProfile({ degreeTarget: 'Master' }), scoredScholarships);
+
+      expect(reranked).toHaveLength(25);
+      expect(reranked[0].id).toBe('sch-29');
+      expect(scoredScholarships[0].id).toBe('sch-0'); // The caller's array is left in order
+    } finally {
+      getUsageLedger().setBudget('rerank', null);
+      jest.restoreAllMocks();
+    }
+  });
+});
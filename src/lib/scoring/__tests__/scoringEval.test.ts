@@ -0,0 +1,59 @@
+import { evaluateScoringProfiles, ndcgAtK } from '../scoringEval';
+import { DEFAULT_SCORING_PROFILE, parseScoringProfiles } from '../scoringProfiles';
+
+describe('scoring evaluation', () => {
+  const labeledSet = {
+    profiles: {
+      applicant: { degreeTarget: 'Master', fields: ['Computer Science'], nationality: 'Kenya' },
+    },
+    pairs: [
+      {
+        profile: 'applicant',
+        scholarship: { id: 'funded', name: 'Funded', degreeLevels: ['Master'], fields: ['Computer Science'], tuitionCovered: true, stipend: 900 },
+        relevant: true,
+      },
+      {
+        profile: 'applicant',
+        scholarship: { id: 'urgent', name: 'Urgent', degreeLevels: ['PhD'], fields: ['Economics'], deadlineInDays: 10 },
+        relevant: false,
+      },
+      {
+        profile: 'applicant',
+        scholarship: {
+          id: 'closed',
+          name: 'Closed',
+          degreeLevels: ['Master'],
+          fields: ['Computer Science'],
+          eligibility_rules: [{ rule: 'nationality', allowed: ['Egypt'] }],
+        },
+        relevant: true,
+      },
+    ],
+  };
+
+  it('should compute NDCG@k from graded gains', () => {
+    expect(ndcgAtK([1, 0, 1], [1, 1, 0], 3)).toBeCloseTo((1 + 0.5) / (1 + 1 / Math.log2(3)));
+    expect(ndcgAtK([0, 0], [0, 0], 2)).toBe(0);
+  });
+
+  it('should rank each query per profile and count ineligible results as misses', () => {
+    const { relevanceFirst } = parseScoringProfiles({
+      relevanceFirst: { weights: { baseAcceptance: 0, fit: { deadline: 0 } } },
+    });
+
+    const [defaults, relevance] = evaluateScoringProfiles(labeledSet, [DEFAULT_SCORING_PROFILE, relevanceFirst], 2);
+
+    // The default acceptance score saturates, so the closer deadline wins
+    expect(defaults).toMatchObject({ profile: 'default', k: 2, queries: 1, precision: 0.5 });
+    expect(defaults.perQuery[0].ranking).toEqual(['urgent', 'funded']);
+    expect(relevance.perQuery[0].ranking).toEqual(['funded', 'urgent']);
+    expect(relevance.ndcg).toBeGreaterThan(defaults.ndcg);
+  });
+
+  it('should reject pairs that name an unknown profile', () => {
+    expect(() => evaluateScoringProfiles({
+      profiles: {},
+      pairs: [{ profile: 'nobody', scholarship: { id: 'x', name: 'X' }, relevant: true }],
+    }, [DEFAULT_SCORING_PROFILE])).toThrow(/Unknown profile/);
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * @jest-environment node
+ */
+import path from 'path';
+import {
+  DEFAULT_SCORING_WEIGHTS,
+  loadScoringProfiles,
+  parseScoringProfiles,
+} from '../scoringProfiles';
+
+describe('scoring profiles', () => {
+  it('should lay configured weights over the defaults and keep the built-in profile', () => {
+    const profiles = parseScoringProfiles({
+      strict: { description: 'Strict', weights: { conflictPenalty: 0.4, fit: { funding: 0.3 } } },
+    });
+
+    expect(Object.keys(profiles)).toEqual(['default', 'strict']);
+    expect(profiles.default.weights).toEqual(DEFAULT_SCORING_WEIGHTS);
+    expect(profiles.strict.weights).toEqual({
+      ...DEFAULT_SCORING_WEIGHTS,
+      conflictPenalty: 0.4,
+      fit: { acceptance: 0.6, funding: 0.3, deadline: 0.15 },
+    });
+  });
+
+  it('should reject malformed profiles', () => {
+    expect(() => parseScoringProfiles({ strict: { weights: { degreeMatch: 'high' } } })).toThrow();
+    expect(() => parseScoringProfiles({ 'not a name': {} })).toThrow();
+  });
+
+  it('should load the shipped config and fall back to the defaults without one', () => {
+    const shipped = loadScoringProfiles(path.join(__dirname, '../../../../config/scoring-profiles.json'));
+    expect(shipped.default.weights).toEqual(DEFAULT_SCORING_WEIGHTS);
+    expect(Object.keys(shipped)).toEqual(expect.arrayContaining(['eligibility-first', 'funding-first']));
+
+    expect(Object.keys(loadScoringProfiles(path.join(__dirname, 'missing.json')))).toEqual(['default']);
+  });
+});
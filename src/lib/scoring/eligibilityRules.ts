@@ -0,0 +1,259 @@
+import { Scholarship } from '@/types/database';
+import { UserProfile } from '@/types/profile';
+import { gradeToPercent, inferGradeScale, parseUKClass } from '@/lib/profile/gradeScales';
+
+export type ScholarshipRule = NonNullable<Scholarship['eligibility_rules']>[number];
+
+export type RuleOutcome = 'pass' | 'fail' | 'unknown';
+
+export interface RuleEvaluation {
+  rule: string;
+  outcome: RuleOutcome; // 'unknown' when the profile or the rule lacks what is needed to decide
+  optional: boolean; // A preference: never makes the applicant ineligible
+  explanation: string; // For the applicant, e.g. "Requires IELTS 6.5; you have IELTS 7.0"
+}
+
+// Inclusive bounds, for profile answers given as bands
+interface Range {
+  min: number;
+  max: number;
+}
+
+/**
+ * The profile facts the rules are checked against. Bands (GPA, work years) stay ranges so a
+ * threshold inside the band is reported as unknown rather than guessed.
+ */
+export interface EligibilityProfile {
+  nationality?: string;
+  residence?: string;
+  age?: number;
+  ageCapConflict?: boolean; // The applicant said they are over common age caps
+  graduationYear?: number;
+  workYears?: Range;
+  gpaPercent?: Range; // GPA as a percent equivalent (`gradeToPercent`)
+  languageProofs: string[]; // e.g. "IELTS 7.0", "TOEFL 95", "Goethe C1"
+}
+
+
+type Evaluator = (rule: ScholarshipRule, profile: EligibilityProfile) => Pick<RuleEvaluation, 'outcome' | 'explanation'>;
+
+const WORK_YEAR_BANDS: Record<string, Range> = {
+  '0': { min: 0, max: 0 },
+  '1': { min: 1, max: 1 },
+  '2-3': { min: 2, max: 3 },
+  '4+': { min: 4, max: Infinity },
+};
+
+const GPA_BANDS: Record<string, Range> = {
+  '>=90': { min: 90, max: 100 },
+  '80-89': { min: 80, max: 89.99 },
+  '70-79': { min: 70, max: 79.99 },
+  '<70': { min: 0, max: 69.99 },
+};
+
+const CEFR_LEVELS = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+// Country lists that mean "everyone"
+const ANY_COUNTRY = new Set(['any', 'all', 'all countries', 'international', 'worldwide']);
+
+// Different spellings of the same language test
+const TEST_ALIASES: Record<string, string> = {
+  TOEFLIBT: 'TOEFL',
+  IELTSACADEMIC: 'IELTS',
+  PTEACADEMIC: 'PTE',
+  DUOLINGOENGLISHTEST: 'DUOLINGO',
+  DET: 'DUOLINGO',
+};
+
+/**
+ * Maps a search profile onto the facts the rule evaluators need.
+ * @param profile - Profile from the search form.
+ * @returns Normalized eligibility facts.
+ */
+export function toEligibilityProfile(profile: Partial<UserProfile>): EligibilityProfile {
+  const graduationYear = parseInt(profile.graduationYear || '', 10);
+  return {
+    nationality: profile.nationality || undefined,
+    residence: profile.currentCountryOfResidence || undefined,
+    age: profile.age,
+    ageCapConflict: profile.ageCapConflict,
+    graduationYear: Number.isFinite(graduationYear) ? graduationYear : undefined,
+    workYears: WORK_YEAR_BANDS[profile.workResearchYears || ''],
+    gpaPercent: GPA_BANDS[profile.gpaBand || ''],
+    languageProofs: profile.languageProofs ?? [],
+  };
+}
+
+const EVALUATORS: Record<string, Evaluator> = {
+  nationality: (rule, profile) => evaluateCountry(rule.allowed, profile.nationality, 'nationality', 'nationals of'),
+  residency: (rule, profile) => evaluateCountry(rule.allowed, profile.residence, 'country of residence', 'residents of'),
+
+  gpa_min: (rule, profile) => {
+    const required = rule.value;
+    const requiredPercent = required === undefined ? undefined : gradeToPercent(required, rule.scale);
+    if (required === undefined || requiredPercent === undefined) return unknown('The minimum GPA is not stated clearly.');
+    const ukClass = typeof required === 'string' ? parseUKClass(required) : undefined;
+    const scale = rule.scale || inferGradeScale(Number(required));
+    const label = ukClass ? `at least a ${ukClass} degree (UK classification)` : `a GPA of at least ${required} on a ${scale} scale`;
+    if (!profile.gpaPercent) return unknown(`Requires ${label}; add your GPA to check.`);
+    return compareRange(profile.gpaPercent, requiredPercent, `Requires ${label}`, 'your GPA band');
+  },
+
+  work_years_min: (rule, profile) => {
+    const required = toNumber(rule.value);
+    if (required === undefined) return unknown('The required work experience is not stated clearly.');
+    const label = `at least ${required} year${required === 1 ? '' : 's'} of work experience`;
+    if (!profile.workYears) return unknown(`Requires ${label}; add your work experience to check.`);
+    return compareRange(profile.workYears, required, `Requires ${label}`, 'your experience');
+  },
+
+  age_max: (rule, profile) => {
+    const limit = toNumber(rule.value);
+    if (limit === undefined) return unknown('The age limit is not stated clearly.');
+    if (profile.age !== undefined) {
+      return profile.age <= limit
+        ? { outcome: 'pass', explanation: `Age limit ${limit}; you are ${profile.age}.` }
+        : { outcome: 'fail', explanation: `Age limit ${limit}; you are ${profile.age}.` };
+    }
+    if (profile.ageCapConflict) {
+      return { outcome: 'fail', explanation: `Age limit ${limit}, and your profile notes an age cap conflict.` };
+    }
+    return unknown(`Age limit ${limit}; add your age to check.`);
+  },
+
+  graduation_year: (rule, profile) => {
+    const min = toNumber(rule.min);
+    const max = toNumber(rule.max);
+    if (min === undefined && max === undefined) return unknown('The graduation year window is not stated clearly.');
+    const window = min !== undefined && max !== undefined
+      ? `between ${min} and ${max}`
+      : min !== undefined ? `in ${min} or later` : `in ${max} or earlier`;
+    if (profile.graduationYear === undefined) return unknown(`Requires graduating ${window}; add your graduation year to check.`);
+    const inWindow = (min === undefined || profile.graduationYear >= min) && (max === undefined || profile.graduationYear <= max);
+    return {
+      outcome: inWindow ? 'pass' : 'fail',
+      explanation: `Requires graduating ${window}; you graduate${profile.graduationYear > new Date().getFullYear() ? '' : 'd'} in ${profile.graduationYear}.`,
+    };
+  },
+
+  language: (rule, profile) => {
+    const accepted = (rule.values ?? []).map(parseLanguageProof).filter(proof => proof.test);
+    if (accepted.length === 0) return unknown('The accepted language tests are not stated clearly.');
+    const acceptedText = (rule.values ?? []).join(' or ');
+    const proofs = profile.languageProofs.map(parseLanguageProof).filter(proof => proof.test);
+    if (proofs.length === 0) return unknown(`Requires ${acceptedText}; add your language tests to check.`);
+
+    let undecided = false;
+    for (const requirement of accepted) {
+      for (const proof of proofs.filter(p => p.test === requirement.test)) {
+        const met = meetsScore(proof.score, requirement.score);
+        if (met) return { outcome: 'pass', explanation: `Requires ${acceptedText}; you have ${proof.text}.` };
+        if (met === undefined) undecided = true;
+      }
+    }
+    const yours = profile.languageProofs.join(', ');
+    return undecided
+      ? unknown(`Requires ${acceptedText}; cannot compare with ${yours}.`)
+      : { outcome: 'fail', explanation: `Requires ${acceptedText}; you have ${yours}.` };
+  },
+};
+
+/**
+ * Checks one rule against a profile.
+ * @param rule - Structured rule from the scholarship.
+ * @param profile - Eligibility facts from `toEligibilityProfile`.
+ * @returns The outcome with an explanation.
+ */
+export function evaluateRule(rule: ScholarshipRule, profile: EligibilityProfile): RuleEvaluation {
+  const evaluator = EVALUATORS[rule.rule];
+  const result = evaluator ? evaluator(rule, profile) : unknown(`Unrecognized requirement "${rule.rule}".`);
+  return {
+    rule: rule.rule,
+    outcome: result.outcome,
+    optional: rule.optional === true,
+    explanation: rule.optional && result.outcome !== 'pass' ? `Preferred, not required. ${result.explanation}` : result.explanation,
+  };
+}
+
+/**
+ * A scholarship's structured rules. Normalized scholarships keep them as JSON strings in
+ * `requirements`; entries that are not rule objects are free-text requirements and skipped.
+ * @param scholarship - Scholarship from extraction or the store.
+ * @returns The rules, possibly empty.
+ */
+export function rulesOf(scholarship: Pick<Scholarship, 'eligibility_rules' | 'requirements'>): ScholarshipRule[] {
+  if (scholarship.eligibility_rules) return scholarship.eligibility_rules;
+  return (scholarship.requirements ?? []).flatMap(requirement => {
+    try {
+      const rule = JSON.parse(requirement);
+      return rule && typeof rule.rule === 'string' ? [rule as ScholarshipRule] : [];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/**
+ * Checks every rule of a scholarship against a profile.
+ * @param rules - The scholarship's `eligibility_rules`.
+ * @param profile - Eligibility facts from `toEligibilityProfile`.
+ * @returns One evaluation per rule, in rule order.
+ */
+export function evaluateRules(rules: ScholarshipRule[] | undefined, profile: EligibilityProfile): RuleEvaluation[] {
+  return (rules ?? []).map(rule => evaluateRule(rule, profile));
+}
+
+function evaluateCountry(
+  allowed: string[] | undefined,
+  country: string | undefined,
+  field: string,
+  audience: string
+): Pick<RuleEvaluation, 'outcome' | 'explanation'> {
+  if (!allowed?.length) return unknown(`The eligible countries for ${field} are not stated.`);
+  const list = allowed.join(', ');
+  if (allowed.some(entry => ANY_COUNTRY.has(entry.trim().toLowerCase()))) {
+    return { outcome: 'pass', explanation: `Open to ${audience} any country.` };
+  }
+  if (!country) return unknown(`Open to ${audience} ${list}; add your ${field} to check.`);
+  const matches = allowed.some(entry => entry.trim().toLowerCase() === country.trim().toLowerCase());
+  return {
+    outcome: matches ? 'pass' : 'fail',
+    explanation: `Open to ${audience} ${list}; your ${field} is ${country}.`,
+  };
+}
+
+// Pass when the whole range meets the threshold, fail when none of it does, otherwise unknown
+function compareRange(range: Range, required: number, requirement: string, yours: string): Pick<RuleEvaluation, 'outcome' | 'explanation'> {
+  const band = range.min === range.max ? `${range.min}` : range.max === Infinity ? `${range.min}+` : `${range.min}-${Math.floor(range.max)}`;
+  if (range.min >= required) return { outcome: 'pass', explanation: `${requirement}; ${yours} is ${band}.` };
+  if (range.max < required) return { outcome: 'fail', explanation: `${requirement}; ${yours} is ${band}.` };
+  return unknown(`${requirement}; ${yours} (${band}) may or may not meet it.`);
+}
+
+/**
+ * Splits a proof such as "TOEFL iBT 95" or "Goethe C1" into a normalized test name and score.
+ */
+function parseLanguageProof(text: string): { text: string; test: string; score?: string } {
+  const match = /^(.*?)\s*(\d+(?:\.\d+)?|[ABC][12])?\s*$/i.exec(text.trim());
+  const name = (match?.[1] ?? '').toUpperCase().replace(/[^A-Z]/g, '');
+  return { text: text.trim(), test: TEST_ALIASES[name] ?? name, score: match?.[2]?.toUpperCase() };
+}
+
+// undefined when the two scores cannot be compared
+function meetsScore(score: string | undefined, required: string | undefined): boolean | undefined {
+  if (required === undefined) return true; // Any score of the test is accepted
+  if (score === undefined) return undefined;
+  const levels = [score, required].map(value => CEFR_LEVELS.indexOf(value));
+  if (levels[0] >= 0 && levels[1] >= 0) return levels[0] >= levels[1];
+  const [have, need] = [Number(score), Number(required)];
+  return Number.isFinite(have) && Number.isFinite(need) ? have >= need : undefined;
+}
+
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+function unknown(explanation: string): Pick<RuleEvaluation, 'outcome' | 'explanation'> {
+  return { outcome: 'unknown', explanation };
+}
@@ -1,34 +1,51 @@
 import { Scholarship } from '@/types/database';
+import { evaluateRules, RuleEvaluation, rulesOf, toEligibilityProfile } from '@/lib/scoring/eligibilityRules';
+import { DEFAULT_SCORING_PROFILE, ScoringProfile } from '@/lib/scoring/scoringProfiles';
 
-import { UserProfile } from '@/types/profile'; // Import UserProfile
+import { UserProfile } from '@/types/profile';
 
-// Define a basic UserProfile type for scoring purposes
-// This will be replaced by a more detailed type from the frontend profile
-interface UserProfileForScoring extends UserProfile {
-  // Add any specific fields needed for scoring that are not in UserProfile
-  // For example, if gpaBand needs to be a number for scoring, convert it here.
-  // For now, we'll use the UserProfile directly.
+// One term of a result's score, for the "Why this match?" panel
+export interface ScoreComponent {
+  component: 'acceptance' | 'funding' | 'deadline' | 'rerank';
+  weight: number; // Multiplier in fitScore, so weight * value is the term's contribution
+  value: number;
+  explanation: string;
 }
 
+// 'ineligible' when a required rule fails, 'likely' when one cannot be checked
+export type EligibilityStatus = 'eligible' | 'likely' | 'ineligible';
+
 interface ScoredScholarship extends Scholarship {
   acceptanceScore: number;
   deadlineUrgency: number;
   fitScore: number;
   fundingStrength: number; // Added for clarity in FitScore calculation
+  eligibilityChecks: RuleEvaluation[]; // One per eligibility rule, with an explanation
+  eligibility: EligibilityStatus;
+  eligibilityReasons: string[]; // Failed (or, when likely, unchecked) required rules
+  scoreBreakdown: ScoreComponent[]; // Terms that add up to fitScore
 }
 
+
 /**
  * Scores a list of normalized scholarships based on user profile and eligibility rules.
  * @param scholarships - Array of normalized Scholarship objects.
  * @param userProfile - User's profile for scoring.
+ * @param scoringProfile - Weights to score with; see `scoringProfiles.ts`.
  * @returns Array of ScoredScholarship objects.
  */
 export function scoreAll(
   scholarships: Scholarship[],
-  userProfile: UserProfileForScoring
+  userProfile: UserProfile,
+  scoringProfile: ScoringProfile = DEFAULT_SCORING_PROFILE
 ): ScoredScholarship[] {
+  const eligibilityProfile = toEligibilityProfile(userProfile);
+  const weights = scoringProfile.weights;
+  // Credit a required rule contributes to the acceptance score
+  const ruleCredit: Record<RuleEvaluation['outcome'], number> = { pass: 1, unknown: weights.unknownRuleCredit, fail: 0 };
+
   return scholarships.map((scholarship) => {
-    let acceptanceScore = 0.5; // Base score
+    let acceptanceScore = weights.baseAcceptance;
     let fundingStrength = 0;
     let conflictPenalties = 0;
 
@@ -36,55 +53,21 @@ export function scoreAll(
 
     // Degree match
     const degreeMatch = userProfile.degreeTarget && scholarship.degreeLevels.includes(userProfile.degreeTarget) ? 1 : 0;
-    acceptanceScore += 0.25 * degreeMatch;
+    acceptanceScore += weights.degreeMatch * degreeMatch;
 
     // Field overlap
     const fieldOverlap = userProfile.fields.some(field => scholarship.fields.includes(field)) ? 1 : 0;
-    acceptanceScore += 0.25 * fieldOverlap;
-
-    // Nationality rule
-    let nationalityPass = 1;
-    if (scholarship.eligibility_rules) {
-      const nationalityRule = scholarship.eligibility_rules.find(rule => rule.rule === 'nationality');
-      if (nationalityRule && nationalityRule.allowed && !nationalityRule.allowed.includes(userProfile.nationality)) {
-        nationalityPass = 0;
-      }
-    }
-    acceptanceScore += 0.2 * nationalityPass;
-
-    // Work years pass
-    let workYearsPass = 1;
-    if (scholarship.eligibility_rules) {
-      const workYearsRule = scholarship.eligibility_rules.find(rule => rule.rule === 'work_years_min');
-      if (workYearsRule && userProfile.workYears < workYearsRule.value) {
-        workYearsPass = 0;
-      }
-    }
-    acceptanceScore += 0.1 * workYearsPass;
-
-    // GPA band pass
-    let gpaBandPass = 1;
-    if (scholarship.eligibility_rules) {
-      const gpaRule = scholarship.eligibility_rules.find(rule => rule.rule === 'gpa_min');
-      if (gpaRule) {
-        const userGpa = parseGpaBand(userProfile.gpaBand);
-        const requiredGpa = gpaRule.value;
-        if (userGpa < requiredGpa) {
-          gpaBandPass = 0;
-        }
-      }
-    }
-    acceptanceScore += 0.1 * gpaBandPass;
-
-    // Language pass (simplified)
-    let languagePass = 1;
-    if (scholarship.eligibility_rules) {
-      const languageRule = scholarship.eligibility_rules.find(rule => rule.rule === 'language');
-      if (languageRule && languageRule.values && !userProfile.languageProofs.some(proof => languageRule.values.includes(proof))) {
-        languagePass = 0;
-      }
-    }
-    acceptanceScore += 0.1 * languagePass;
+    acceptanceScore += weights.fieldOverlap * fieldOverlap;
+
+    // Eligibility rules: required rules share their weight of the acceptance score, and every
+    // failed requirement also counts as a conflict. Optional rules are reported but never penalize.
+    const eligibilityChecks = evaluateRules(rulesOf(scholarship), eligibilityProfile);
+    const requiredChecks = eligibilityChecks.filter(check => !check.optional);
+    const rulesMet = requiredChecks.length > 0
+      ? requiredChecks.reduce((sum, check) => sum + ruleCredit[check.outcome], 0) / requiredChecks.length
+      : 1;
+    acceptanceScore += weights.eligibilityRules * rulesMet;
+    conflictPenalties += requiredChecks.filter(check => check.outcome === 'fail').length;
 
     // Funding strength
     if (scholarship.tuitionCovered && scholarship.stipend) {
@@ -95,24 +78,23 @@ export function scoreAll(
       fundingStrength = 0.5; // Not fully funded
     }
 
-    // Conflict penalties (simplified)
-    // This would involve more complex logic based on age caps, residency conflicts, etc.
-    // For now, let's add a dummy penalty if the country is "USA" and user is not "USA"
+    // Conflict penalties: failed requirements above, plus a dummy penalty if the country is "USA" and user is not "USA"
     if (scholarship.country === 'USA' && userProfile.nationality !== 'USA') {
-      conflictPenalties += 0.15;
+      conflictPenalties += weights.usaConflict;
     }
 
-    acceptanceScore -= 0.15 * conflictPenalties;
+    acceptanceScore -= weights.conflictPenalty * conflictPenalties;
 
     // Clamp acceptanceScore to [0, 1]
     acceptanceScore = Math.max(0, Math.min(1, acceptanceScore));
 
     // 2. Compute DeadlineUrgency
     let deadlineUrgency = 0;
+    let daysLeft: number | undefined;
     if (scholarship.deadline === 'varies') {
       deadlineUrgency = 0;
     } else {
-      const daysLeft = Math.ceil((scholarship.deadline.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+      daysLeft = Math.ceil((scholarship.deadline.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
       if (daysLeft <= 30) deadlineUrgency = 1.0;
       else if (daysLeft <= 60) deadlineUrgency = 0.7;
       else if (daysLeft <= 120) deadlineUrgency = 0.4;
@@ -120,7 +102,40 @@ export function scoreAll(
     }
 
     // 3. Compute FitScore
-    const fitScore = 0.6 * acceptanceScore + 0.25 * fundingStrength + 0.15 * deadlineUrgency;
+    const fitScore = weights.fit.acceptance * acceptanceScore
+      + weights.fit.funding * fundingStrength
+      + weights.fit.deadline * deadlineUrgency;
+
+    const scoreBreakdown: ScoreComponent[] = [
+      {
+        component: 'acceptance',
+        weight: weights.fit.acceptance,
+        value: acceptanceScore,
+        explanation: explainAcceptance(
+          scholarship,
+          userProfile,
+          { degreeMatch, fieldOverlap, requiredChecks, usaPenalty: scholarship.country === 'USA' && userProfile.nationality !== 'USA' && weights.usaConflict > 0 }
+        ),
+      },
+      {
+        component: 'funding',
+        weight: weights.fit.funding,
+        value: fundingStrength,
+        explanation: scholarship.tuitionCovered && scholarship.stipend
+          ? 'Covers tuition and pays a stipend.'
+          : scholarship.tuitionCovered
+            ? 'Covers tuition, no stipend stated.'
+            : scholarship.stipend ? 'Pays a stipend, tuition not covered.' : 'No tuition or stipend stated.',
+      },
+      {
+        component: 'deadline',
+        weight: weights.fit.deadline,
+        value: deadlineUrgency,
+        explanation: daysLeft === undefined
+          ? 'The deadline varies or is not stated.'
+          : `Deadline in ${daysLeft} day${daysLeft === 1 ? '' : 's'}; sooner deadlines rank higher.`,
+      },
+    ];
 
     return {
       ...scholarship,
@@ -128,25 +143,64 @@ export function scoreAll(
       deadlineUrgency,
       fitScore,
       fundingStrength,
+      eligibilityChecks,
+      ...classifyEligibility(eligibilityChecks),
+      scoreBreakdown,
     };
   });
 }
 
 /**
- * Helper function to parse GPA band into a numerical value.
- * @param gpaBand - GPA band string (e.g., ">=90", "80-89", "<70").
- * @returns Numerical GPA value.
+ * Summarizes what raised or lowered the acceptance score, one clause per factor.
  */
-function parseGpaBand(gpaBand: string): number {
-  if (gpaBand.includes('>=')) {
-    return parseInt(gpaBand.replace('>=', ''), 10);
+function explainAcceptance(
+  scholarship: Scholarship,
+  userProfile: UserProfile,
+  factors: { degreeMatch: number; fieldOverlap: number; requiredChecks: RuleEvaluation[]; usaPenalty: boolean }
+): string {
+  const clauses = [
+    factors.degreeMatch
+      ? `Offered for ${userProfile.degreeTarget} degrees`
+      : `Not listed for ${userProfile.degreeTarget || 'your'} degree${userProfile.degreeTarget ? 's' : ''}`,
+    factors.fieldOverlap
+      ? `covers ${userProfile.fields.filter(field => scholarship.fields.includes(field)).join(', ')}`
+      : 'none of your fields listed',
+  ];
+
+  const count = (outcome: RuleEvaluation['outcome']) => factors.requiredChecks.filter(check => check.outcome === outcome).length;
+  if (factors.requiredChecks.length === 0) {
+    clauses.push('no stated requirements');
+  } else {
+    const unchecked = count('unknown');
+    const failed = count('fail');
+    clauses.push(
+      `meets ${count('pass')} of ${factors.requiredChecks.length} requirements`
+      + (unchecked ? `, ${unchecked} not checked` : '')
+      + (failed ? `, ${failed} not met` : '')
+    );
   }
-  if (gpaBand.includes('-')) {
-    const [min, max] = gpaBand.split('-').map(s => parseInt(s, 10));
-    return (min + max) / 2; // Return average for a range
+  if (factors.usaPenalty) clauses.push('US programmes rank lower for non-US applicants');
+
+  return `${clauses.join('; ')}.`;
+}
+
+/**
+ * Decides whether the applicant can apply. Only required rules count: one failure makes the
+ * scholarship ineligible, and rules that could not be checked make it likely.
+ * @param checks - Rule evaluations from `evaluateRules`.
+ * @returns The status and the explanations behind it.
+ */
+export function classifyEligibility(
+  checks: RuleEvaluation[]
+): { eligibility: EligibilityStatus; eligibilityReasons: string[] } {
+  const required = checks.filter(check => !check.optional);
+  const failed = required.filter(check => check.outcome === 'fail');
+  if (failed.length > 0) {
+    return { eligibility: 'ineligible', eligibilityReasons: failed.map(check => check.explanation) };
   }
-  if (gpaBand.includes('<')) {
-    return parseInt(gpaBand.replace('<', ''), 10) - 1; // Just below the threshold
+  const unchecked = required.filter(check => check.outcome === 'unknown');
+  if (unchecked.length > 0) {
+    return { eligibility: 'likely', eligibilityReasons: unchecked.map(check => check.explanation) };
   }
-  return parseInt(gpaBand, 10);
-}
\ No newline at end of file
+  return { eligibility: 'eligible', eligibilityReasons: [] };
+}
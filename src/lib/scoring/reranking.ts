@@ -1,25 +1,60 @@
+import { z } from 'zod';
 import { Scholarship } from '@/types/database';
-import { geminiAI } from '@/lib/services/geminiAI'; // Assuming geminiAI has the API call logic
+import { getLLMClient, LLMBudgetExceededError } from '@/lib/llm';
+import { rerankPrompt } from '@/lib/llm/prompts';
+import type { EligibilityStatus, ScoreComponent } from '@/lib/scoring/eligibilityScoring';
+import type { RuleEvaluation } from '@/lib/scoring/eligibilityRules';
 
-import { UserProfile } from '@/types/profile'; // Import UserProfile
-
-// Define a basic UserProfile type for reranking purposes
-// This will be replaced by a more detailed type from the frontend profile
-interface UserProfileForReranking extends UserProfile {
-  // Add any specific fields needed for reranking that are not in UserProfile
-  // For now, we'll use the UserProfile directly.
-}
+import { UserProfile } from '@/types/profile';
 
 interface ScoredScholarship extends Scholarship {
   acceptanceScore: number;
   deadlineUrgency: number;
   fitScore: number;
   fundingStrength: number;
+  eligibilityChecks?: RuleEvaluation[];
+  eligibility?: EligibilityStatus;
+  eligibilityReasons?: string[];
+  scoreBreakdown?: ScoreComponent[]; // Ends with a 'rerank' term when the model boosted it
+  llmRationale?: string; // Why the model moved this scholarship, when it did
 }
 
-interface RerankedBoost {
-  id: string;
-  boost: number;
+// A search result after reranking
+export type RerankedScholarship = ScoredScholarship;
+
+// Most candidates sent to the model, and most results kept after boosting
+const RERANK_CANDIDATES = 100;
+const RERANK_RESULTS = 25;
+// fitScore is in [0, 1], so a boost can reorder close matches without overriding the rules
+export const MAX_RERANK_BOOST = 0.2;
+
+const RerankResponseSchema = z.object({
+  rankedBoosts: z.array(z.object({
+    id: z.string(),
+    boost: z.number(),
+    rationale: z.string().default(''),
+  })).default([]),
+});
+
+type RerankedBoost = z.infer<typeof RerankResponseSchema>['rankedBoosts'][number];
+
+/**
+ * Keeps boosts for known candidates only (the first one per id) and clamps them to the allowed range.
+ * @param boosts - Boosts as returned by the model.
+ * @param candidateIds - Ids that were sent to the model.
+ * @returns Usable boosts by scholarship id.
+ */
+function sanitizeBoosts(boosts: RerankedBoost[], candidateIds: Set<string>): Map<string, RerankedBoost> {
+  const byId = new Map<string, RerankedBoost>();
+  for (const item of boosts) {
+    if (!candidateIds.has(item.id) || byId.has(item.id) || !Number.isFinite(item.boost)) continue;
+    byId.set(item.id, {
+      ...item,
+      boost: Math.max(-MAX_RERANK_BOOST, Math.min(MAX_RERANK_BOOST, item.boost)),
+      rationale: item.rationale.trim(),
+    });
+  }
+  return byId;
 }
 
 /**
@@ -29,30 +64,33 @@ interface RerankedBoost {
  * @returns A Promise that resolves to an array of ScoredScholarship objects, reranked.
  */
 export async function geminiRerank(
-  userProfile: UserProfileForReranking,
+  userProfile: UserProfile,
   scoredScholarships: ScoredScholarship[]
 ): Promise<ScoredScholarship[]> {
   console.log('Gemini reranking scholarships...');
 
-  // Limit candidates to top ~100 for reranking
-  const candidatesForRerank = scoredScholarships.slice(0, 100);
+  // Limit candidates to the top ~100 by fitScore; scoreAll output is in extraction order
+  const byFitScore = [...scoredScholarships].sort((a, b) => b.fitScore - a.fitScore);
+  const candidatesForRerank = byFitScore.slice(0, RERANK_CANDIDATES);
 
   // Prepare profile and candidates for the Gemini prompt
   const profileForPrompt = {
     degreeTarget: userProfile.degreeTarget,
     fields: userProfile.fields,
     nationality: userProfile.nationality,
-    residence: userProfile.residence,
+    residence: userProfile.currentCountryOfResidence,
     langProofs: userProfile.languageProofs,
     gpaBand: userProfile.gpaBand,
-    workYears: userProfile.workYears,
+    graduationYear: userProfile.graduationYear,
+    workYears: userProfile.workResearchYears,
     specialStatuses: userProfile.specialStatuses,
-    deadlineWindowDays: userProfile.deadlineWindowDays,
+    deadlineWindow: userProfile.deadlineWindow,
   };
 
   const candidatesForPrompt = candidatesForRerank.map(sch => ({
     id: sch.id,
     name: sch.name,
+    score: Number(sch.fitScore.toFixed(3)),
     degree_levels: sch.degreeLevels,
     fields: sch.fields,
     fullyFunded: sch.tuitionCovered && sch.stipend !== undefined && sch.stipend > 0, // fullyFunded = true only if tuition + stipend are present on page.
@@ -61,62 +99,46 @@ export async function geminiRerank(
     link: sch.sourceUrl,
   }));
 
-  const promptText = `
-    PROFILE:
-    ${JSON.stringify(profileForPrompt, null, 2)}
-
-    CANDIDATES:
-    ${JSON.stringify(candidatesForPrompt, null, 2)}
-  `;
+  const promptText = rerankPrompt.render({
+    profile: profileForPrompt,
+    candidates: candidatesForPrompt,
+    maxBoost: MAX_RERANK_BOOST,
+    resultLimit: RERANK_RESULTS,
+  });
 
-  let rerankedBoosts: RerankedBoost[] = [];
+  let rerankedBoosts: Map<string, RerankedBoost>;
 
   try {
-    // Call Gemini API for reranking
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${process.env.GEMINI_API_KEY}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [{ role: 'user', parts: [{ text: promptText }] }],
-          generationConfig: { response_mime_type: 'application/json' },
-        }),
-      }
-    );
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      console.error('Gemini Rerank API error:', errorData);
-      // Fallback to original sorting if API call fails
-      return scoredScholarships.sort((a, b) => b.fitScore - a.fitScore);
-    }
-
-    const data = await response.json();
-    const extractedBoosts = data.candidates[0].content.parts[0].text;
-    const parsedBoosts = JSON.parse(extractedBoosts);
-
-    if (parsedBoosts && parsedBoosts.rankedBoosts && Array.isArray(parsedBoosts.rankedBoosts)) {
-      rerankedBoosts = parsedBoosts.rankedBoosts;
-    }
+    const { data } = await getLLMClient().generateJSON({ feature: 'rerank', prompt: promptText, schema: RerankResponseSchema });
+    rerankedBoosts = sanitizeBoosts(data.rankedBoosts, new Set(candidatesForRerank.map(sch => sch.id)));
   } catch (error) {
-    console.error('Error calling Gemini Rerank API:', error);
-    // Fallback to original sorting if API call fails
-    return scoredScholarships.sort((a, b) => b.fitScore - a.fitScore);
+    if (error instanceof LLMBudgetExceededError) {
+      console.warn(`Skipping Gemini rerank: ${error.message}`);
+    } else {
+      console.error('Error calling Gemini Rerank API:', error);
+    }
+    // Fallback to original sorting if API call fails or the rerank budget is spent
+    return byFitScore.slice(0, RERANK_RESULTS);
   }
 
   // Apply boosts and re-sort
   const finalRankedScholarships = scoredScholarships.map(sch => {
-    const boostItem = rerankedBoosts.find(boost => boost.id === sch.id);
-    const boost = boostItem ? boostItem.boost : 0; // Default boost to 0 if not found
+    const boostItem = rerankedBoosts.get(sch.id);
+    if (!boostItem) return sch; // Candidates the model left out keep their score
     return {
       ...sch,
-      fitScore: sch.fitScore + boost, // Apply boost to fitScore
+      fitScore: sch.fitScore + boostItem.boost, // Apply boost to fitScore
+      ...(boostItem.rationale ? { llmRationale: boostItem.rationale } : {}),
+      ...(boostItem.boost !== 0 && sch.scoreBreakdown ? {
+        scoreBreakdown: [...sch.scoreBreakdown, {
+          component: 'rerank' as const,
+          weight: 1,
+          value: boostItem.boost,
+          explanation: boostItem.rationale || 'Adjusted by the AI reranker.',
+        }],
+      } : {}),
     };
   }).sort((a, b) => b.fitScore - a.fitScore); // Sort by new fitScore
 
-  // Keep top 25
-  return finalRankedScholarships.slice(0, 25);
+  return finalRankedScholarships.slice(0, RERANK_RESULTS);
 }
\ No newline at end of file
@@ -0,0 +1,152 @@
+import { z } from 'zod';
+import { scoreAll } from '@/lib/scoring/eligibilityScoring';
+import type { ScoringProfile } from '@/lib/scoring/scoringProfiles';
+import type { Scholarship } from '@/types/database';
+import { parseUserProfile } from '@/lib/profile/userProfile';
+import type { UserProfile } from '@/types/profile';
+
+export const DEFAULT_SCORING_EVAL_PATH = 'fixtures/scoring/labeled-pairs.json';
+
+const LabeledScholarshipSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  country: z.string().default('Unknown'),
+  degreeLevels: z.array(z.string()).default([]),
+  fields: z.array(z.string()).default([]),
+  // Days from now keep urgency stable however old the set is; 'varies' when absent
+  deadlineInDays: z.number().int().optional(),
+  tuitionCovered: z.boolean().default(false),
+  stipend: z.number().optional(),
+  eligibility_rules: z.array(z.record(z.string(), z.unknown())).default([]),
+});
+
+const LabeledSetSchema = z.object({
+  profiles: z.record(z.string(), z.record(z.string(), z.unknown())),
+  pairs: z.array(z.object({
+    profile: z.string(), // Key into `profiles`
+    scholarship: LabeledScholarshipSchema,
+    relevant: z.union([z.boolean(), z.number().min(0)]), // true/false, or a graded relevance
+  })).min(1),
+}).superRefine((set, ctx) => {
+  set.pairs.forEach((pair, index) => {
+    if (!set.profiles[pair.profile]) {
+      ctx.addIssue({ code: 'custom', path: ['pairs', index, 'profile'], message: `Unknown profile "${pair.profile}"` });
+    }
+  });
+});
+
+export type LabeledSet = z.input<typeof LabeledSetSchema>;
+
+export interface ScoringEvalResult {
+  profile: string; // Scoring profile name
+  k: number;
+  queries: number; // Applicant profiles in the set
+  ndcg: number; // Mean NDCG@k over queries
+  precision: number; // Mean precision@k over queries
+  perQuery: { query: string; ndcg: number; precision: number; ranking: string[] }[];
+}
+
+interface EvalQuery {
+  query: string;
+  userProfile: UserProfile;
+  scholarships: Scholarship[];
+  relevance: Map<string, number>;
+}
+
+/**
+ * Validates a labeled set and groups its pairs by applicant profile.
+ * @param data - Parsed JSON, as in `fixtures/scoring/labeled-pairs.json`.
+ * @returns One ranking query per applicant profile.
+ */
+function toQueries(data: unknown): EvalQuery[] {
+  const set = LabeledSetSchema.parse(data);
+  const now = Date.now();
+  const queries = new Map<string, EvalQuery>();
+
+  for (const pair of set.pairs) {
+    let query = queries.get(pair.profile);
+    if (!query) {
+      query = {
+        query: pair.profile,
+        userProfile: parseUserProfile(set.profiles[pair.profile]),
+        scholarships: [],
+        relevance: new Map(),
+      };
+      queries.set(pair.profile, query);
+    }
+
+    const { deadlineInDays, eligibility_rules, ...scholarship } = pair.scholarship;
+    query.scholarships.push({
+      ...scholarship,
+      sourceUrl: `https://example.org/${scholarship.id}`,
+      domain: 'example.org',
+      deadline: deadlineInDays === undefined ? 'varies' : new Date(now + deadlineInDays * 24 * 60 * 60 * 1000),
+      travelSupport: false,
+      eligibilityText: '',
+      requirements: [],
+      eligibility_rules: eligibility_rules as Scholarship['eligibility_rules'],
+      tags: [],
+      confidence: 1.0,
+      createdAt: new Date(now),
+      updatedAt: new Date(now),
+    });
+    query.relevance.set(scholarship.id, typeof pair.relevant === 'number' ? pair.relevant : pair.relevant ? 1 : 0);
+  }
+  return Array.from(queries.values());
+}
+
+/**
+ * Scores every labeled pair with each scoring profile and measures the rankings. Results are
+ * ranked the way search shows them: ineligible scholarships are left out and count as misses.
+ * @param data - Labeled set (profiles and (profile, scholarship, relevant) pairs).
+ * @param profiles - Scoring profiles to compare.
+ * @param k - Rank cutoff.
+ * @returns One result per scoring profile, in the given order.
+ */
+export function evaluateScoringProfiles(data: unknown, profiles: ScoringProfile[], k = 5): ScoringEvalResult[] {
+  const queries = toQueries(data);
+
+  return profiles.map(profile => {
+    const perQuery = queries.map(({ query, userProfile, scholarships, relevance }) => {
+      const ranking = scoreAll(scholarships, userProfile, profile)
+        .filter(s => s.eligibility !== 'ineligible')
+        .sort((a, b) => b.fitScore - a.fitScore)
+        .map(s => s.id);
+      const gains = ranking.map(id => relevance.get(id) ?? 0);
+      return {
+        query,
+        ndcg: ndcgAtK(gains, Array.from(relevance.values()), k),
+        precision: gains.slice(0, k).filter(gain => gain > 0).length / k,
+        ranking,
+      };
+    });
+
+    return {
+      profile: profile.name,
+      k,
+      queries: perQuery.length,
+      ndcg: mean(perQuery.map(q => q.ndcg)),
+      precision: mean(perQuery.map(q => q.precision)),
+      perQuery,
+    };
+  });
+}
+
+/**
+ * Normalized discounted cumulative gain at k.
+ * @param gains - Relevance of each ranked result, in rank order.
+ * @param allGains - Relevance of every labeled result, for the ideal ranking.
+ * @param k - Rank cutoff.
+ * @returns NDCG in [0, 1]; 0 when nothing is relevant.
+ */
+export function ndcgAtK(gains: number[], allGains: number[], k: number): number {
+  const dcg = (values: number[]) => values
+    .slice(0, k)
+    .reduce((sum, gain, index) => sum + (Math.pow(2, gain) - 1) / Math.log2(index + 2), 0);
+  const ideal = dcg([...allGains].sort((a, b) => b - a));
+  return ideal > 0 ? dcg(gains) / ideal : 0;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
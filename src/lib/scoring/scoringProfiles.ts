@@ -0,0 +1,145 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+export const DEFAULT_SCORING_PROFILES_PATH = 'config/scoring-profiles.json';
+
+/**
+ * Every weight `scoreAll` uses. The acceptance terms add up to the acceptance score before it is
+ * clamped to [0, 1]; the fit weights mix acceptance, funding and deadline urgency into fitScore.
+ */
+export interface ScoringWeights {
+  baseAcceptance: number; // Starting acceptance score
+  degreeMatch: number; // Added when the target degree is offered
+  fieldOverlap: number; // Added when any of the applicant's fields is covered
+  eligibilityRules: number; // Shared by the required eligibility rules
+  unknownRuleCredit: number; // Share of a rule's credit when it cannot be checked
+  conflictPenalty: number; // Subtracted per conflict (a failed required rule counts as one)
+  usaConflict: number; // Conflicts counted for a US programme and a non-US applicant
+  fit: {
+    acceptance: number;
+    funding: number;
+    deadline: number;
+  };
+}
+
+export interface ScoringProfile {
+  name: string;
+  description: string;
+  weights: ScoringWeights;
+}
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  baseAcceptance: 0.5,
+  degreeMatch: 0.25,
+  fieldOverlap: 0.25,
+  eligibilityRules: 0.5,
+  unknownRuleCredit: 0.5,
+  conflictPenalty: 0.15,
+  usaConflict: 0.15,
+  fit: { acceptance: 0.6, funding: 0.25, deadline: 0.15 },
+};
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  name: 'default',
+  description: 'Built-in weights',
+  weights: DEFAULT_SCORING_WEIGHTS,
+};
+
+const weight = z.number().min(-10).max(10);
+
+// Profiles in the config file only list the weights they change
+const ScoringProfileConfigSchema = z.object({
+  description: z.string().default(''),
+  weights: z.object({
+    baseAcceptance: weight,
+    degreeMatch: weight,
+    fieldOverlap: weight,
+    eligibilityRules: weight,
+    unknownRuleCredit: z.number().min(0).max(1),
+    conflictPenalty: weight,
+    usaConflict: weight,
+    fit: z.object({ acceptance: weight, funding: weight, deadline: weight }).partial(),
+  }).partial().default({}),
+});
+
+const ScoringProfilesConfigSchema = z.record(z.string().regex(/^[a-z0-9][a-z0-9_-]*$/i), ScoringProfileConfigSchema);
+
+export type ScoringProfilesConfig = z.input<typeof ScoringProfilesConfigSchema>;
+
+/**
+ * The requested scoring profile does not exist.
+ */
+export class UnknownScoringProfileError extends Error {
+  constructor(readonly profileName: string, readonly available: string[]) {
+    super(`Unknown scoring profile "${profileName}". Expected one of: ${available.join(', ')}`);
+    this.name = 'UnknownScoringProfileError';
+  }
+}
+
+/**
+ * Builds scoring profiles from config. Each profile's weights are laid over the defaults, and
+ * the built-in `default` profile is kept unless the config redefines it.
+ * @param config - Profiles by name, as in `config/scoring-profiles.json`.
+ * @returns Profiles by name.
+ */
+export function parseScoringProfiles(config: unknown): Record<string, ScoringProfile> {
+  const parsed = ScoringProfilesConfigSchema.parse(config);
+  const profiles: Record<string, ScoringProfile> = { [DEFAULT_SCORING_PROFILE.name]: DEFAULT_SCORING_PROFILE };
+
+  for (const [name, { description, weights }] of Object.entries(parsed)) {
+    profiles[name] = {
+      name,
+      description,
+      weights: {
+        ...DEFAULT_SCORING_WEIGHTS,
+        ...weights,
+        fit: { ...DEFAULT_SCORING_WEIGHTS.fit, ...weights.fit },
+      },
+    };
+  }
+  return profiles;
+}
+
+/**
+ * Reads scoring profiles from a JSON file. A missing file leaves only the built-in profile.
+ * @param file - Path to the file; defaults to `SCORING_PROFILES_PATH`.
+ * @returns Profiles by name.
+ */
+export function loadScoringProfiles(
+  file: string = process.env.SCORING_PROFILES_PATH || DEFAULT_SCORING_PROFILES_PATH
+): Record<string, ScoringProfile> {
+  let contents: string;
+  try {
+    contents = fs.readFileSync(path.resolve(file), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return parseScoringProfiles({});
+    }
+    throw error;
+  }
+
+  try {
+    return parseScoringProfiles(JSON.parse(contents));
+  } catch (error) {
+    throw new Error(`Invalid scoring profiles in ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+let loadedProfiles: Record<string, ScoringProfile> | null = null;
+
+/**
+ * Looks up a scoring profile from the config file, which is read once per process.
+ * @param name - Profile name; defaults to `SCORING_PROFILE`, then `default`.
+ * @returns The profile.
+ */
+export function getScoringProfile(name: string = process.env.SCORING_PROFILE || DEFAULT_SCORING_PROFILE.name): ScoringProfile {
+  if (!loadedProfiles) {
+    loadedProfiles = loadScoringProfiles();
+  }
+  const profile = loadedProfiles[name];
+  if (!profile) {
+    throw new UnknownScoringProfileError(name, Object.keys(loadedProfiles));
+  }
+  return profile;
+}
@@ -0,0 +1,54 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { SearchHit } from '@/lib/services/dataIngestion';
+import type { SearchProvider } from './SearchProvider';
+
+export const DEFAULT_SEARCH_FIXTURES_DIR = 'fixtures/search';
+
+/**
+ * File name under which the hit list for a query is recorded: a readable slug
+ * plus a short hash so long or similar queries never collide.
+ * @param query - Search query.
+ * @returns File name such as `fully-funded-scholarship-site-daad-de.3f2a9c1b.json`.
+ */
+export function fixtureFileName(query: string): string {
+  const slug = query
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80);
+  const hash = crypto.createHash('sha1').update(query).digest('hex').slice(0, 8);
+  return `${slug || 'query'}.${hash}.json`;
+}
+
+/**
+ * Search provider that replays hit lists recorded as JSON files on disk, one file per query.
+ * Used for offline development and tests; queries without a fixture return no hits.
+ */
+export class FixtureSearchProvider implements SearchProvider {
+  readonly name = 'fixtures';
+
+  constructor(private directory: string = process.env.SEARCH_FIXTURES_DIR || DEFAULT_SEARCH_FIXTURES_DIR) {}
+
+  async search(query: string): Promise<SearchHit[]> {
+    const file = path.resolve(this.directory, fixtureFileName(query));
+
+    let contents: string;
+    try {
+      contents = await fs.readFile(file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        console.warn(`No search fixture for query "${query}" (expected ${file})`);
+        return [];
+      }
+      throw error;
+    }
+
+    const hits = JSON.parse(contents);
+    if (!Array.isArray(hits)) {
+      throw new Error(`Search fixture ${file} must contain an array of hits`);
+    }
+    return hits;
+  }
+}
@@ -0,0 +1,33 @@
+import type { SearchHit } from '@/lib/services/dataIngestion';
+import type { SearchProvider } from './SearchProvider';
+import { httpFetch } from '@/lib/utils/httpFixtures';
+
+const GOOGLE_CSE_ENDPOINT = 'https://www.googleapis.com/customsearch/v1';
+
+/**
+ * Search provider backed by the Google Custom Search JSON API.
+ */
+export class GoogleCSEProvider implements SearchProvider {
+  readonly name = 'cse';
+
+  constructor(
+    private apiKey: string = process.env.GOOGLE_CSE_KEY || 'YOUR_GOOGLE_CSE_API_KEY',
+    private cx: string = process.env.GOOGLE_CSE_CX || 'YOUR_GOOGLE_CSE_CX'
+  ) {}
+
+  async search(query: string): Promise<SearchHit[]> {
+    const response = await httpFetch(
+      `${GOOGLE_CSE_ENDPOINT}?key=${this.apiKey}&cx=${this.cx}&q=${encodeURIComponent(query)}`
+    );
+    if (!response.ok) {
+      throw new Error(`Google CSE request failed with status ${response.status}`);
+    }
+
+    const data = await response.json();
+    return (data.items || []).map((item: { title: string; link: string; snippet: string }) => ({
+      title: item.title,
+      link: item.link,
+      snippet: item.snippet,
+    }));
+  }
+}
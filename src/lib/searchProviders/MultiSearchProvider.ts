@@ -0,0 +1,56 @@
+import type { SearchHit } from '@/lib/services/dataIngestion';
+import { canonicalUrlHash } from '@/lib/utils/canonicalUrl';
+import type { SearchProvider } from './SearchProvider';
+
+/**
+ * Merges a list of hits, keeping the first hit for each canonical URL.
+ * @param hitLists - Hit lists in priority order.
+ * @returns Deduplicated hits.
+ */
+export function mergeHits(hitLists: SearchHit[][]): SearchHit[] {
+  const seen = new Set<string>();
+  const merged: SearchHit[] = [];
+
+  for (const hits of hitLists) {
+    for (const hit of hits) {
+      const key = canonicalUrlHash(hit.link);
+      if (!seen.has(key)) {
+        seen.add(key);
+        merged.push(hit);
+      }
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Queries several providers in parallel and merges their hits by canonical URL.
+ * Providers earlier in the list win when the same page is found twice.
+ * A failing provider is logged and skipped as long as another one answers.
+ */
+export class MultiSearchProvider implements SearchProvider {
+  readonly name: string;
+
+  constructor(private providers: SearchProvider[]) {
+    this.name = providers.map(provider => provider.name).join('+');
+  }
+
+  async search(query: string): Promise<SearchHit[]> {
+    const results = await Promise.allSettled(this.providers.map(provider => provider.search(query)));
+
+    const hitLists: SearchHit[][] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        hitLists.push(result.value);
+      } else {
+        console.error(`Search provider ${this.providers[index].name} failed for query "${query}":`, result.reason);
+      }
+    });
+
+    if (hitLists.length === 0 && results.length > 0) {
+      throw new Error(`All search providers failed for query "${query}"`);
+    }
+    return mergeHits(hitLists);
+  }
+}
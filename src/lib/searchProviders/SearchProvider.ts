@@ -0,0 +1,10 @@
+import type { SearchHit } from '@/lib/services/dataIngestion';
+
+/**
+ * A source of web search hits for a single query (Google CSE, recorded fixtures, ...).
+ * Implementations throw on transport errors; callers decide whether to skip the query.
+ */
+export interface SearchProvider {
+  readonly name: string;
+  search(query: string): Promise<SearchHit[]>;
+}
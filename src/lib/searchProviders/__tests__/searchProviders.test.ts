@@ -0,0 +1,76 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  createSearchProvider,
+  FixtureSearchProvider,
+  fixtureFileName,
+  GoogleCSEProvider,
+  MultiSearchProvider,
+  type SearchProvider,
+} from '..'
+
+const hit = (link: string, title = link) => ({ title, link, snippet: '' })
+
+const staticProvider = (name: string, hits: ReturnType<typeof hit>[]): SearchProvider => ({
+  name,
+  search: jest.fn(async () => hits),
+})
+
+describe('FixtureSearchProvider', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'search-fixtures-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  it('should replay the recorded hits for a query', async () => {
+    const query = 'fully funded scholarship Master site:daad.de'
+    await fs.writeFile(path.join(directory, fixtureFileName(query)), JSON.stringify([hit('https://www.daad.de/en')]))
+
+    const provider = new FixtureSearchProvider(directory)
+
+    expect(await provider.search(query)).toEqual([hit('https://www.daad.de/en')])
+    expect(await provider.search('a query that was never recorded')).toEqual([])
+  })
+
+  it('should give distinct queries distinct fixture files', () => {
+    expect(fixtureFileName('Chevening UK')).toMatch(/^chevening-uk\.[0-9a-f]{8}\.json$/)
+    expect(fixtureFileName('chevening uk')).not.toBe(fixtureFileName('Chevening UK'))
+  })
+})
+
+describe('MultiSearchProvider', () => {
+  it('should merge hits and deduplicate by canonical URL in provider order', async () => {
+    const provider = new MultiSearchProvider([
+      staticProvider('first', [hit('https://www.daad.de/en/', 'DAAD (first)'), hit('https://chevening.org/apply')]),
+      staticProvider('second', [hit('http://daad.de/en?utm_source=x', 'DAAD (second)'), hit('https://mext.go.jp')]),
+    ])
+
+    const hits = await provider.search('query')
+
+    expect(provider.name).toBe('first+second')
+    expect(hits.map(h => h.title)).toEqual(['DAAD (first)', 'https://chevening.org/apply', 'https://mext.go.jp'])
+  })
+
+  it('should tolerate a failing provider unless all of them fail', async () => {
+    const failing: SearchProvider = { name: 'failing', search: jest.fn().mockRejectedValue(new Error('quota')) }
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    await expect(new MultiSearchProvider([failing, staticProvider('ok', [hit('https://a.org')])]).search('q'))
+      .resolves.toHaveLength(1)
+    await expect(new MultiSearchProvider([failing]).search('q')).rejects.toThrow('All search providers failed')
+  })
+})
+
+describe('createSearchProvider', () => {
+  it('should build single and combined providers from a name list', () => {
+    expect(createSearchProvider('cse')).toBeInstanceOf(GoogleCSEProvider)
+    expect(createSearchProvider('fixtures, cse').name).toBe('fixtures+cse')
+    expect(() => createSearchProvider('bing')).toThrow('Unknown search provider "bing"')
+  })
+})
@@ -0,0 +1,39 @@
+import type { SearchProvider } from './SearchProvider';
+import { GoogleCSEProvider } from './GoogleCSEProvider';
+import { FixtureSearchProvider } from './FixtureSearchProvider';
+import { MultiSearchProvider } from './MultiSearchProvider';
+
+export type { SearchProvider } from './SearchProvider';
+export { GoogleCSEProvider } from './GoogleCSEProvider';
+export { FixtureSearchProvider, fixtureFileName, DEFAULT_SEARCH_FIXTURES_DIR } from './FixtureSearchProvider';
+export { MultiSearchProvider, mergeHits } from './MultiSearchProvider';
+
+const PROVIDER_FACTORIES: Record<string, () => SearchProvider> = {
+  cse: () => new GoogleCSEProvider(),
+  fixtures: () => new FixtureSearchProvider(),
+};
+
+/**
+ * Builds the search provider configured by `SEARCH_PROVIDERS`, a comma-separated list
+ * in priority order (default `cse`). Several providers are combined with merge/dedup.
+ * @param names - Provider names; defaults to the environment setting.
+ * @returns The configured provider.
+ */
+export function createSearchProvider(names: string = process.env.SEARCH_PROVIDERS || 'cse'): SearchProvider {
+  const providers = names
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean)
+    .map(name => {
+      const factory = PROVIDER_FACTORIES[name];
+      if (!factory) {
+        throw new Error(`Unknown search provider "${name}". Expected one of: ${Object.keys(PROVIDER_FACTORIES).join(', ')}`);
+      }
+      return factory();
+    });
+
+  if (providers.length === 0) {
+    throw new Error('SEARCH_PROVIDERS must name at least one provider');
+  }
+  return providers.length === 1 ? providers[0] : new MultiSearchProvider(providers);
+}
@@ -0,0 +1,139 @@
+import { CrawlerPolicy, isPathAllowed, parseRobotsTxt } from '../crawlerPolicy'
+
+const USER_AGENT = 'MYscholarBot/1.0 (+https://myscholar.app/about)'
+
+const robotsTxt = `
+# Everyone else
+User-agent: *
+Disallow: /private/
+Allow: /private/scholarships/
+Crawl-delay: 5
+
+User-agent: OtherBot
+User-agent: MYscholarBot
+Disallow: /search
+Disallow: /*.pdf$
+Crawl-delay: 0.05
+`
+
+const textResponse = (body: string, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  text: async () => body,
+})
+
+describe('parseRobotsTxt', () => {
+  it('should prefer the group naming our product token', () => {
+    expect(parseRobotsTxt(robotsTxt, USER_AGENT)).toEqual({
+      allow: [],
+      disallow: ['/search', '/*.pdf$'],
+      crawlDelayMs: 50,
+    })
+  })
+
+  it('should fall back to the wildcard group', () => {
+    expect(parseRobotsTxt(robotsTxt, 'SomeCrawler/2.0')).toEqual({
+      allow: ['/private/scholarships/'],
+      disallow: ['/private/'],
+      crawlDelayMs: 5000,
+    })
+  })
+
+  it('should match the product token exactly and ignore empty agents', () => {
+    const partial = `User-agent: bot
+User-agent:
+Disallow: /
+
+User-agent: *
+Disallow: /private/
+`
+    expect(parseRobotsTxt(partial, USER_AGENT)).toEqual({ allow: [], disallow: ['/private/'] })
+    expect(parseRobotsTxt('User-agent: myscholarbot\nDisallow: /', USER_AGENT).disallow).toEqual(['/'])
+  })
+})
+
+describe('isPathAllowed', () => {
+  it('should apply the longest matching rule with wildcards and anchors', () => {
+    const rules = { allow: ['/private/scholarships/'], disallow: ['/private/', '/*.pdf$'] }
+
+    expect(isPathAllowed(rules, '/about')).toBe(true)
+    expect(isPathAllowed(rules, '/private/staff')).toBe(false)
+    expect(isPathAllowed(rules, '/private/scholarships/epos')).toBe(true)
+    expect(isPathAllowed(rules, '/files/guide.pdf')).toBe(false)
+    expect(isPathAllowed(rules, '/files/guide.pdf?download=1')).toBe(true)
+  })
+})
+
+describe('CrawlerPolicy', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should check URLs against a cached robots.txt per host', async () => {
+    global.fetch = jest.fn(async () => textResponse(robotsTxt)) as jest.Mock
+    const policy = new CrawlerPolicy({ userAgent: USER_AGENT })
+
+    expect(await policy.check('https://www.daad.de/en/scholarships')).toEqual({ allowed: true })
+    expect(await policy.check('https://www.daad.de/search?q=phd')).toEqual({ allowed: false, reason: 'robots-disallowed' })
+    expect(await policy.check('not a url')).toEqual({ allowed: false, reason: 'invalid-url' })
+
+    expect(global.fetch).toHaveBeenCalledTimes(1)
+    expect((global.fetch as jest.Mock).mock.calls[0][0]).toBe('https://www.daad.de/robots.txt')
+  })
+
+  it('should allow everything without robots.txt and block hosts whose robots.txt fails', async () => {
+    global.fetch = jest.fn(async (url: string) =>
+      url.startsWith('https://missing.org') ? textResponse('', 404) : textResponse('', 503)
+    ) as jest.Mock
+    const policy = new CrawlerPolicy({ userAgent: USER_AGENT })
+
+    expect(await policy.check('https://missing.org/anything')).toEqual({ allowed: true })
+    expect(await policy.check('https://broken.org/anything')).toEqual({ allowed: false, reason: 'robots-unreachable' })
+  })
+
+  it('should send our User-Agent and space requests by the crawl delay', async () => {
+    const requestTimes: number[] = []
+    global.fetch = jest.fn(async (url: string) => {
+      if (url.endsWith('/robots.txt')) return textResponse(robotsTxt)
+      requestTimes.push(Date.now())
+      return textResponse('<html></html>')
+    }) as jest.Mock
+    const policy = new CrawlerPolicy({ userAgent: USER_AGENT, minDelayMs: 0 })
+
+    await Promise.all([
+      policy.fetch('https://www.daad.de/a'),
+      policy.fetch('https://www.daad.de/b'),
+    ])
+
+    const [, init] = (global.fetch as jest.Mock).mock.calls[1]
+    expect(new Headers(init.headers).get('User-Agent')).toBe(USER_AGENT)
+    expect(requestTimes[1] - requestTimes[0]).toBeGreaterThanOrEqual(45)
+  })
+
+  it('should book one slot per page visit and give it back on abort', async () => {
+    const requestTimes: number[] = []
+    global.fetch = jest.fn(async (url: string) => {
+      if (url.endsWith('/robots.txt')) return textResponse('User-agent: *\nCrawl-delay: 0.2')
+      requestTimes.push(Date.now())
+      return textResponse('<html></html>')
+    }) as jest.Mock
+    const policy = new CrawlerPolicy({ userAgent: USER_AGENT, minDelayMs: 0 })
+
+    await policy.fetch('https://www.daad.de/a', { method: 'HEAD' })
+    await policy.fetch('https://www.daad.de/a', {}, { followUp: true })
+    expect(requestTimes[1] - requestTimes[0]).toBeLessThan(100)
+
+    // An aborted wait frees its slot, so the next page is not pushed back behind it
+    const controller = new AbortController()
+    const aborted = policy.fetch('https://www.daad.de/b', { signal: controller.signal })
+    controller.abort()
+    await expect(aborted).rejects.toThrow('Aborted while waiting for crawl delay')
+
+    await policy.fetch('https://www.daad.de/c')
+    expect(requestTimes[2] - requestTimes[0]).toBeLessThan(350)
+  })
+})
@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+import { fetchOfficial, SkippedPage } from '../dataIngestion'
+import type { CrawlerPolicy } from '../crawlerPolicy'
+
+// Serves HEAD and GET responses per URL, recording the signal each GET was made with
+const policyFor = (pages: Record<string, { head: Response; get?: () => Response }>) => {
+  const signals: AbortSignal[] = []
+  const policy = {
+    check: async () => ({ allowed: true }),
+    fetch: async (url: string, init: RequestInit = {}) => {
+      if (init.method === 'HEAD') return pages[url].head
+      signals.push(init.signal!)
+      return pages[url].get!()
+    },
+  } as unknown as CrawlerPolicy
+  return { policy, signals }
+}
+
+const hit = (link: string) => ({ title: '', link, snippet: '' })
+
+describe('fetchOfficial', () => {
+  it('should report pages it drops with the reason', async () => {
+    const { policy } = policyFor({
+      'https://daad.de/gone': { head: new Response(null, { status: 404 }) },
+      'https://daad.de/logo.png': { head: new Response(null, { headers: { 'content-type': 'image/png' } }) },
+      'https://daad.de/huge.pdf': {
+        head: new Response(null, { headers: { 'content-type': 'application/pdf', 'content-length': '2048' } }),
+      },
+    })
+    const skipped: SkippedPage[] = []
+
+    const pages = await fetchOfficial(
+      [hit('https://daad.de/gone'), hit('https://daad.de/logo.png'), hit('https://daad.de/huge.pdf')],
+      { crawlerPolicy: policy, officialDomains: ['daad.de'], maxPdfBytes: 1024, onSkipped: page => skipped.push(page) }
+    )
+
+    expect(pages).toEqual([])
+    expect(skipped).toEqual([
+      { url: 'https://daad.de/gone', reason: 'unreachable' },
+      { url: 'https://daad.de/logo.png', reason: 'unsupported-content' },
+      { url: 'https://daad.de/huge.pdf', reason: 'pdf-too-large' },
+    ])
+  })
+
+  it('should stop downloading a PDF without a Content-Length once it passes the limit', async () => {
+    let chunksSent = 0
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        chunksSent++
+        controller.enqueue(new Uint8Array(512))
+      },
+    })
+    const { policy, signals } = policyFor({
+      'https://daad.de/call.pdf': {
+        head: new Response(null, { headers: { 'content-type': 'application/pdf' } }),
+        get: () => new Response(body, { headers: { 'content-type': 'application/pdf' } }),
+      },
+    })
+    const skipped: SkippedPage[] = []
+
+    await fetchOfficial([hit('https://daad.de/call.pdf')], {
+      crawlerPolicy: policy,
+      officialDomains: ['daad.de'],
+      maxPdfBytes: 1024,
+      onSkipped: page => skipped.push(page),
+    })
+
+    expect(skipped).toEqual([{ url: 'https://daad.de/call.pdf', reason: 'pdf-too-large' }])
+    expect(signals[0].aborted).toBe(true)
+    expect(chunksSent).toBeLessThan(10)
+  })
+})
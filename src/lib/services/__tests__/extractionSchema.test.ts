@@ -0,0 +1,58 @@
+import { validateExtraction } from '../extractionSchema'
+
+const extraction = {
+  name: 'Chevening Scholarships',
+  country: 'UK',
+  degree_levels: ['Master'],
+  fields: ['Any'],
+  benefits: ['tuition', 'stipend', 'travel'],
+  stipend: null,
+  fullyFunded: true,
+  eligibility_summary: 'Citizens of Chevening-eligible countries with two years of work experience.',
+  eligibility_rules: [
+    { rule: 'nationality', allowed: ['Kenya', 'Ghana'] },
+    { rule: 'work_years_min', value: 2 },
+    { rule: 'language', values: ['IELTS 6.5'], optional: true },
+  ],
+  deadline: '2099-11-05',
+  link: 'https://www.chevening.org/scholarships/',
+  source_domain: 'chevening.org',
+}
+
+describe('validateExtraction', () => {
+  it('should accept a response that follows the extraction contract', () => {
+    const result = validateExtraction(JSON.stringify(extraction))
+
+    expect(result).toEqual({ success: true, data: extraction })
+    expect(validateExtraction(JSON.stringify({ ...extraction, deadline: 'varies' })).success).toBe(true)
+  })
+
+  it('should report every violation with its path', () => {
+    const result = validateExtraction(JSON.stringify({
+      ...extraction,
+      degree_levels: ['Masters'],
+      deadline: '5 November 2099',
+      eligibility_rules: [{ rule: 'gpa_min', value: '3.0' }, { rule: 'nationality' }],
+      fullyFunded: 'yes',
+    }))
+
+    expect(result.success).toBe(false)
+    if (result.success) return
+    expect(result.errors).toEqual(expect.arrayContaining([
+      expect.stringMatching(/^degree_levels\.0: /),
+      expect.stringMatching(/^deadline: /),
+      'eligibility_rules.0.value: gpa_min needs a numeric value',
+      'eligibility_rules.1.allowed: nationality needs the list of allowed countries',
+      expect.stringMatching(/^fullyFunded: /),
+    ]))
+  })
+
+  it('should reject impossible dates and output that is not JSON', () => {
+    expect(validateExtraction(JSON.stringify({ ...extraction, deadline: '2099-02-30' })).success).toBe(false)
+
+    const result = validateExtraction('Here is the JSON: {')
+    expect(result.success).toBe(false)
+    if (result.success) return
+    expect(result.errors[0]).toMatch(/^Response is not valid JSON/)
+  })
+})
@@ -1,4 +1,6 @@
 import { GeminiAIService } from '../geminiAI'
+import { parseUserProfile } from '@/lib/profile/userProfile'
+import { RateLimitedLLMClient, RequestLimiter, StubLLMClient, UsageLedger } from '../../llm'
 
 // Mock fetch
 global.fetch = jest.fn()
@@ -7,12 +9,12 @@ describe('GeminiAIService', () => {
   let geminiService: GeminiAIService
   const mockFetch = fetch as jest.MockedFunction<typeof fetch>
 
-  const mockProfile = {
-    nationality: 'US',
-    degreeTarget: 'master',
-    fieldKeywords: ['computer science'],
-    gpa: 3.8
-  }
+  const mockProfile = parseUserProfile({
+    nationality: 'United States',
+    degreeTarget: 'Master',
+    fields: ['Computer Science'],
+    gpaBand: '>=90'
+  })
 
   const mockScholarships = [
     {
@@ -136,4 +138,78 @@ describe('GeminiAIService', () => {
       expect(typeof stats.requestsToday).toBe('number')
     })
   })
-})
\ No newline at end of file
+
+  describe('limits and caching', () => {
+    // Each test counts usage in its own ledger
+    const stubClient = (ledger = new UsageLedger({ budgets: {} })) => new StubLLMClient({
+      rank: () => [{ scholarshipId: '1', enhancedScore: 80, aiRationale: 'Good match' }]
+    }, ledger)
+
+    it('should answer repeated prompts from the cache without using quota', async () => {
+      const ledger = new UsageLedger({ budgets: {} })
+      const client = stubClient(ledger)
+      const service = new GeminiAIService({ client, ledger, limiter: new RequestLimiter() })
+
+      await service.rankScholarships(mockProfile, mockScholarships)
+      const cached = await service.rankScholarships(mockProfile, mockScholarships)
+
+      expect(cached[0]).toMatchObject({ enhancedScore: 80, matchStrengths: [] })
+      expect(client.getUsage().requests).toBe(1)
+      expect(await service.getUsageStats()).toMatchObject({ requestsToday: 1, cacheHits: 1 })
+      expect(ledger.summarize().features).toEqual([expect.objectContaining({ feature: 'rank', requests: 2, cacheHits: 1 })])
+    })
+
+    it('should count calls other features make through the shared client', async () => {
+      const ledger = new UsageLedger({ budgets: {} })
+      const limiter = new RequestLimiter()
+      const client = new RateLimitedLLMClient(new StubLLMClient({ extract: () => ({}) }, ledger), limiter, ledger)
+      const service = new GeminiAIService({ ledger, limiter })
+
+      await client.generateJSON({ feature: 'extract', prompt: 'page text' })
+
+      expect(await service.getUsageStats()).toMatchObject({
+        requestsToday: 1,
+        rateLimitStatus: { requestsThisMinute: 1 }
+      })
+    })
+
+    it('should fall back to rule-based rankings once the per-minute limit is reached', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {})
+      const client = stubClient()
+      const service = new GeminiAIService({ client, maxRequestsPerMinute: 1 })
+
+      await service.rankScholarships(mockProfile, mockScholarships)
+      const limited = await service.rankScholarships(mockProfile, [{ ...mockScholarships[0], name: 'Other' }])
+
+      expect(limited[0]).toMatchObject({ scholarshipId: '1', enhancedScore: 100 })
+      expect(limited[0].aiRationale).toContain('temporarily unavailable')
+      expect(client.getUsage().requests).toBe(1)
+
+      const stats = await service.getUsageStats()
+      expect(stats.rateLimitStatus).toMatchObject({ requestsThisMinute: 1, maxRequestsPerMinute: 1 })
+      expect(await service.healthCheck()).toEqual({
+        status: 'degraded',
+        apiKeyConfigured: true,
+        rateLimitOk: false,
+        quotaAvailable: true
+      })
+      jest.restoreAllMocks()
+    })
+
+    it('should report the daily quota and an unconfigured key', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {})
+      const ledger = new UsageLedger({ budgets: {} })
+      const service = new GeminiAIService({ client: stubClient(ledger), ledger, dailyRequestQuota: 1 })
+
+      await service.rankScholarships(mockProfile, mockScholarships)
+      await service.rankScholarships(mockProfile, [{ ...mockScholarships[0], name: 'Other' }])
+
+      expect(await service.getUsageStats()).toMatchObject({ requestsToday: 1, remainingQuota: 0 })
+      expect((await service.healthCheck()).quotaAvailable).toBe(false)
+
+      delete process.env.GEMINI_API_KEY
+      expect((await new GeminiAIService().healthCheck()).status).toBe('unhealthy')
+      jest.restoreAllMocks()
+    })
+  })
+})
@@ -16,6 +16,7 @@ describe('geminiExtract', () => {
 
     const mockPage: OfficialPage = {
       url: 'https://www.daad.de/scholarship',
+      type: 'html',
       html: sampleHtml,
       hash: 'mock-hash',
       sourceUrl: 'https://www.daad.de/scholarship',
@@ -60,5 +61,98 @@ describe('geminiExtract', () => {
     expect(extractedScholarship?.deadline).toBe('2025-10-31');
     expect(extractedScholarship?.name).toBe('DAAD Scholarship Program');
     expect(extractedScholarship?.sourceUrl).toBe('https://www.daad.de/scholarship');
+
+    // Only the main content is sent, not the raw HTML
+    const [, init] = (global.fetch as jest.Mock).mock.calls[0];
+    const prompt: string = JSON.parse(init.body).contents[0].parts[0].text;
+    expect(prompt).toContain('# DAAD Scholarship Program\nThis scholarship offers a monthly stipend €934 and tuition waived.');
+    expect(prompt).not.toContain('<body>');
+  });
+
+  describe('schema validation', () => {
+    const page: OfficialPage = {
+      url: 'https://www.chevening.org/scholarships',
+      type: 'html',
+      html: '<main><h1>Chevening Scholarships</h1><p>Apply by 5 November 2099.</p></main>',
+      hash: 'chevening-hash',
+      sourceUrl: 'https://www.chevening.org/scholarships',
+    };
+
+    const valid = {
+      name: 'Chevening Scholarships',
+      country: 'UK',
+      degree_levels: ['Master'],
+      fields: ['Any'],
+      benefits: ['tuition', 'stipend'],
+      fullyFunded: true,
+      eligibility_summary: 'Emerging leaders with two years of work experience.',
+      eligibility_rules: [{ rule: 'work_years_min', value: 2 }],
+      deadline: '2099-11-05',
+      link: 'https://www.chevening.org/scholarships',
+    };
+
+    const geminiResponse = (output: unknown) => ({
+      ok: true,
+      json: () => Promise.resolve({
+        candidates: [{ content: { parts: [{ text: typeof output === 'string' ? output : JSON.stringify(output) }] } }],
+      }),
+    });
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should send one repair request with the validation errors and use the repaired output', async () => {
+      global.fetch = jest.fn()
+        .mockResolvedValueOnce(geminiResponse({ ...valid, degree_levels: ['Masters'], deadline: '5 November 2099' }))
+        .mockResolvedValueOnce(geminiResponse(valid)) as jest.Mock;
+
+      const extracted = await geminiAI.geminiExtract(page);
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      const repairRequest = JSON.parse((global.fetch as jest.Mock).mock.calls[1][1].body);
+      expect(repairRequest.contents.map((turn: { role: string }) => turn.role)).toEqual(['user', 'model', 'user']);
+      const repairText: string = repairRequest.contents[2].parts[0].text;
+      expect(repairText).toContain('- degree_levels.0:');
+      expect(repairText).toContain('- deadline:');
+
+      expect(extracted).toMatchObject({ ...valid, id: 'chevening-hash', source_domain: 'www.chevening.org' });
+    });
+
+    it('should repair responses that are not JSON', async () => {
+      global.fetch = jest.fn()
+        .mockResolvedValueOnce(geminiResponse('Sure! Here is the scholarship: {"name": "Chevening"'))
+        .mockResolvedValueOnce(geminiResponse(valid)) as jest.Mock;
+
+      expect(await geminiAI.geminiExtract(page)).toMatchObject({ name: 'Chevening Scholarships' });
+    });
+
+    it('should stop the LLM call when the extraction is aborted', async () => {
+      global.fetch = jest.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(new Error('The operation was aborted')));
+      })) as jest.Mock;
+      const controller = new AbortController();
+
+      const extraction = geminiAI.geminiExtract(page, controller.signal);
+      await new Promise(resolve => setTimeout(resolve, 0));
+      controller.abort();
+
+      expect(await extraction).toBeNull();
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect((global.fetch as jest.Mock).mock.calls[0][1].signal.aborted).toBe(true);
+    });
+
+    it('should discard the extraction when the repaired output is still invalid', async () => {
+      global.fetch = jest.fn().mockResolvedValue(geminiResponse({ ...valid, degree_levels: [] })) as jest.Mock;
+
+      expect(await geminiAI.geminiExtract(page)).toBeNull();
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
   });
-});
\ No newline at end of file
+});
@@ -1,5 +1,6 @@
 // Integration test for Gemini API
 import { GeminiAIService } from '../geminiAI'
+import { parseUserProfile } from '@/lib/profile/userProfile'
 
 // Mock cache to avoid Redis dependency in tests
 jest.mock('../../cache/redis', () => ({
@@ -41,12 +42,12 @@ describe('Gemini API Integration', () => {
 
   // Note: This is a real API test - only run when needed
   it.skip('should make real API call to Gemini', async () => {
-    const mockProfile = {
-      nationality: 'US',
-      degreeTarget: 'master',
-      fieldKeywords: ['computer science'],
-      gpa: 3.8
-    }
+    const mockProfile = parseUserProfile({
+      nationality: 'United States',
+      degreeTarget: 'Master',
+      fields: ['Computer Science'],
+      gpaBand: '>=90'
+    })
 
     const mockScholarships = [{
       id: '1',
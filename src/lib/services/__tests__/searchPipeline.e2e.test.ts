@@ -0,0 +1,81 @@
+/**
+ * @jest-environment node
+ */
+import path from 'path'
+import { runSearchPipeline, SearchPipelineEvent } from '../searchPipeline'
+import type { UserProfile } from '@/types/profile'
+
+// Replays recorded CSE, page and Gemini responses from fixtures/http; no network access.
+// To refresh the recordings, run this suite with HTTP_FIXTURES_MODE=record and real API keys.
+const profile: UserProfile = {
+  degreeTarget: 'Master',
+  fields: ['Computer Science'],
+  nationality: 'Kenya',
+  currentCountryOfResidence: 'Kenya',
+  languageProofs: [],
+  gpaBand: '80-89',
+  graduationYear: '2022',
+  workResearchYears: '2-3',
+  specialStatuses: [],
+  deadlineWindow: 'Any'
+}
+
+describe('search pipeline (recorded HTTP fixtures)', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      HTTP_FIXTURES_MODE: originalEnv.HTTP_FIXTURES_MODE === 'record' ? 'record' : 'replay',
+      HTTP_FIXTURES_DIR: path.join(__dirname, 'fixtures/http'),
+      SEARCH_PROVIDERS: 'cse',
+      CRAWLER_MIN_DELAY_MS: '0'
+    }
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    jest.restoreAllMocks()
+  })
+
+  it('should find, extract, score and rerank official scholarships', async () => {
+    const events: SearchPipelineEvent[] = []
+    const result = await runSearchPipeline(
+      { userProfile: profile, officialDomains: ['daad.de'], limit: 25, offset: 0 },
+      event => events.push(event)
+    )
+
+    // The tracked duplicate collapses onto the canonical page, the blog post is gone,
+    // the intranet page is disallowed by daad.de's robots.txt and the PDF call is read locally
+    expect(result.total).toBe(3)
+    expect(result.skipped).toEqual([
+      { url: 'https://www.daad.de/en/intern/scholarship-admin', reason: 'robots-disallowed', stage: 'pages' },
+      { url: 'https://blog.example.com/daad-tips', reason: 'unreachable', stage: 'pages' }
+    ])
+    expect(result.scholarships.map(s => s.name)).toEqual([
+      'DAAD Research Grants for Doctoral Candidates',
+      'DAAD EPOS Development-Related Postgraduate Courses',
+      'DAAD Helmut-Schmidt-Programme'
+    ])
+
+    const pdfCall = result.scholarships[0]
+    expect(pdfCall.sourceUrl).toBe('https://daad.de/medien/research-grants-call-2099.pdf')
+    expect(pdfCall.stipend).toBe(1300)
+    expect(pdfCall.llmRationale).toBe('The call funds doctoral research, which matches the applicant\'s degree target.')
+    expect(pdfCall.scoreBreakdown?.map(item => item.component)).toEqual(['acceptance', 'funding', 'deadline', 'rerank'])
+
+    const epos = result.scholarships[1]
+    expect(epos.sourceUrl).toBe('https://daad.de/en/study-and-research-in-germany/scholarships/epos')
+    expect(epos.id).toMatch(/^[0-9a-f]{64}$/)
+    expect(epos.deadline).toEqual(new Date('2099-06-30'))
+    expect(epos.stipend).toBe(934)
+    expect(epos.tuitionCovered).toBe(true)
+    expect(epos.promptVersion).toBe('scholarship-extraction@3')
+    expect(epos.llmRationale).toBeUndefined()
+
+    expect(events.filter(e => e.type === 'scholarship')).toHaveLength(3)
+    expect(events.some(e => e.type === 'failed')).toBe(false)
+  })
+})
@@ -0,0 +1,153 @@
+import { runSearchPipeline, SearchPipelineEvent } from '../searchPipeline'
+import { fetchOfficial } from '../dataIngestion'
+import { geminiAI } from '../geminiAI'
+import { geminiRerank } from '../../scoring/reranking'
+import type { UserProfile } from '@/types/profile'
+
+jest.mock('../googleSearch', () => ({
+  buildQueries: jest.fn(() => ['q1', 'q2']),
+  fanOutSearch: jest.fn(async () => [{ title: 'DAAD', link: 'https://www.daad.de/scholarship', snippet: '' }])
+}))
+
+jest.mock('../dataIngestion', () => ({
+  fetchOfficial: jest.fn()
+}))
+
+jest.mock('../geminiAI', () => ({
+  geminiAI: { geminiExtract: jest.fn() }
+}))
+
+jest.mock('../../scoring/reranking', () => ({
+  geminiRerank: jest.fn(async (_profile: unknown, scholarships: unknown[]) => scholarships)
+}))
+
+const profile: UserProfile = {
+  degreeTarget: 'Master',
+  fields: ['Computer Science'],
+  nationality: 'Kenya',
+  currentCountryOfResidence: 'Kenya',
+  languageProofs: [],
+  gpaBand: '80-89',
+  graduationYear: '2022',
+  workResearchYears: '2-3',
+  specialStatuses: [],
+  deadlineWindow: 'Any'
+}
+
+const pages = [
+  { url: 'https://www.daad.de/scholarship', type: 'html' as const, html: '<html></html>', hash: 'hash-1', sourceUrl: 'https://www.daad.de/scholarship' },
+  { url: 'https://www.chevening.org/apply', type: 'html' as const, html: '<html></html>', hash: 'hash-2', sourceUrl: 'https://www.chevening.org/apply' }
+]
+
+describe('runSearchPipeline', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(fetchOfficial as jest.Mock).mockResolvedValue(pages)
+    ;(geminiAI.geminiExtract as jest.Mock).mockImplementation(async (page: typeof pages[number]) => ({
+      id: page.hash,
+      name: `Scholarship ${page.hash}`,
+      sourceUrl: page.url,
+      degree_levels: ['Master'],
+      fields: ['Computer Science'],
+      deadline: 'varies'
+    }))
+  })
+
+  it('should emit stage events in pipeline order and stream each scholarship', async () => {
+    const events: SearchPipelineEvent[] = []
+    const result = await runSearchPipeline(
+      { userProfile: profile, officialDomains: ['daad.de'], limit: 25, offset: 0 },
+      event => events.push(event)
+    )
+
+    const completed = events
+      .filter((e): e is Extract<SearchPipelineEvent, { type: 'stage' }> => e.type === 'stage')
+      .filter(e => e.stage.status === 'complete')
+      .map(e => e.stage.id)
+    expect(completed).toEqual(['queries', 'hits', 'pages', 'extract', 'score', 'rerank'])
+
+    const streamed = events.filter(e => e.type === 'scholarship')
+    expect(streamed).toHaveLength(2)
+    // Scholarships arrive before scoring starts
+    const firstScoreEvent = events.findIndex(e => e.type === 'stage' && e.stage.id === 'score' && e.stage.status !== 'pending')
+    expect(events.indexOf(streamed[1])).toBeLessThan(firstScoreEvent)
+
+    expect(events[events.length - 1]).toEqual({ type: 'results', ...result })
+    expect(result.total).toBe(2)
+  })
+
+  it('should leave scholarships the profile cannot apply for out of the ranking', async () => {
+    ;(geminiAI.geminiExtract as jest.Mock).mockImplementation(async (page: typeof pages[number]) => ({
+      id: page.hash,
+      name: `Scholarship ${page.hash}`,
+      sourceUrl: page.url,
+      degree_levels: ['Master'],
+      fields: ['Computer Science'],
+      deadline: 'varies',
+      eligibility_rules: page.hash === 'hash-2' ? [{ rule: 'nationality', allowed: ['Egypt', 'Jordan'] }] : []
+    }))
+
+    const result = await runSearchPipeline({ userProfile: profile, officialDomains: [], limit: 25, offset: 0 })
+
+    expect(result.scholarships.map(s => s.id)).toEqual(['hash-1'])
+    expect(result.total).toBe(1)
+    expect(result.ineligible).toEqual([expect.objectContaining({
+      id: 'hash-2',
+      eligibility: 'ineligible',
+      eligibilityReasons: ['Open to nationals of Egypt, Jordan; your nationality is Kenya.']
+    })])
+    expect(geminiRerank).toHaveBeenCalledWith(profile, [expect.objectContaining({ id: 'hash-1' })])
+  })
+
+  it('should report pages whose extraction times out as skipped', async () => {
+    ;(geminiAI.geminiExtract as jest.Mock).mockImplementationOnce(() => new Promise(() => {}))
+    const events: SearchPipelineEvent[] = []
+
+    const result = await runSearchPipeline(
+      { userProfile: profile, officialDomains: [], limit: 25, offset: 0, limits: { extractTimeoutMs: 20 } },
+      event => events.push(event)
+    )
+
+    const skipped = { url: 'https://www.daad.de/scholarship', reason: 'timeout', stage: 'extract' }
+    expect(result.skipped).toEqual([skipped])
+    expect(result.total).toBe(1)
+    expect(events).toContainEqual({ type: 'skipped', item: skipped })
+    // The timed-out extraction is cancelled rather than left calling the model
+    const [, signal] = (geminiAI.geminiExtract as jest.Mock).mock.calls[0]
+    expect(signal.aborted).toBe(true)
+  })
+
+  it('should stop extracting and skip reranking once cancelled', async () => {
+    const controller = new AbortController()
+    ;(geminiAI.geminiExtract as jest.Mock).mockImplementation(() => {
+      controller.abort()
+      return new Promise(() => {})
+    })
+
+    await expect(runSearchPipeline(
+      { userProfile: profile, officialDomains: [], limit: 25, offset: 0, signal: controller.signal },
+      () => {}
+    )).rejects.toThrow('Search was cancelled')
+
+    expect((fetchOfficial as jest.Mock).mock.calls[0][1].signal).toBe(controller.signal)
+    const [, signal] = (geminiAI.geminiExtract as jest.Mock).mock.calls[0]
+    expect(signal.aborted).toBe(true)
+    expect(geminiRerank).not.toHaveBeenCalled()
+  })
+
+  it('should mark the failing stage and emit a failed event', async () => {
+    ;(geminiRerank as jest.Mock).mockRejectedValueOnce(new Error('rerank exploded'))
+    const events: SearchPipelineEvent[] = []
+
+    await expect(runSearchPipeline(
+      { userProfile: profile, officialDomains: [], limit: 25, offset: 0 },
+      event => events.push(event)
+    )).rejects.toThrow('rerank exploded')
+
+    expect(events).toContainEqual(expect.objectContaining({
+      type: 'stage',
+      stage: expect.objectContaining({ id: 'rerank', status: 'error' })
+    }))
+    expect(events[events.length - 1]).toEqual({ type: 'failed', message: 'rerank exploded' })
+  })
+})
@@ -0,0 +1,268 @@
+import { httpFetch } from '@/lib/utils/httpFixtures';
+
+export const DEFAULT_CRAWLER_USER_AGENT = 'MYscholarBot/1.0 (+https://myscholar.app/about)';
+
+// Why the crawler refused to fetch a URL
+export type CrawlSkipReason = 'robots-disallowed' | 'robots-unreachable' | 'invalid-url';
+
+export type CrawlDecision = { allowed: true } | { allowed: false; reason: CrawlSkipReason };
+
+export interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  crawlDelayMs?: number;
+}
+
+export interface CrawlerFetchOptions {
+  followUp?: boolean; // Continues the previous request for the same page (the GET after its HEAD), so it does not wait for another slot
+}
+
+export interface CrawlerPolicyOptions {
+  userAgent?: string;
+  minDelayMs?: number; // Minimum gap between requests to the same host
+  maxCrawlDelayMs?: number; // Upper bound on Crawl-delay values we honour
+  robotsTtlMs?: number; // How long a host's robots.txt is cached
+  robotsTimeoutMs?: number;
+}
+
+interface CachedRobots {
+  rules: RobotsRules | null; // null: robots.txt unreachable, so the host is off limits
+  fetchedAt: number;
+}
+
+const ALLOW_ALL: RobotsRules = { allow: [], disallow: [] };
+
+/**
+ * Parses robots.txt and returns the rules of the group that applies to `userAgent`
+ * (RFC 9309): groups naming our product token exactly win over the `*` group.
+ * @param text - robots.txt contents.
+ * @param userAgent - Full User-Agent string; its product token is matched case-insensitively.
+ * @returns Allow/Disallow patterns and the Crawl-delay for our agent.
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+  const token = userAgent.split('/')[0].trim().toLowerCase();
+  const groups: Array<{ agents: string[]; rules: RobotsRules }> = [];
+  let current: { agents: string[]; rules: RobotsRules } | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: { allow: [], disallow: [] } };
+        groups.push(current);
+      }
+      if (value) current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+    if (field === 'allow' && value) current.rules.allow.push(value);
+    if (field === 'disallow' && value) current.rules.disallow.push(value);
+    if (field === 'crawl-delay') {
+      const seconds = parseFloat(value);
+      if (Number.isFinite(seconds) && seconds >= 0) current.rules.crawlDelayMs = seconds * 1000;
+    }
+  }
+
+  const specific = groups.filter(group => group.agents.some(agent => agent === token));
+  const matching = specific.length > 0 ? specific : groups.filter(group => group.agents.includes('*'));
+
+  return matching.reduce<RobotsRules>((merged, group) => ({
+    allow: [...merged.allow, ...group.rules.allow],
+    disallow: [...merged.disallow, ...group.rules.disallow],
+    crawlDelayMs: group.rules.crawlDelayMs ?? merged.crawlDelayMs,
+  }), { allow: [], disallow: [] });
+}
+
+/**
+ * Whether a path may be crawled: the longest matching Allow/Disallow pattern wins,
+ * and Allow wins ties. Patterns support `*` wildcards and a trailing `$` anchor.
+ * @param rules - Rules for our agent.
+ * @param path - URL path including the query string.
+ * @returns True if the path is allowed.
+ */
+export function isPathAllowed(rules: RobotsRules, path: string): boolean {
+  const longestMatch = (patterns: string[]) =>
+    patterns.filter(pattern => patternToRegExp(pattern).test(path))
+      .reduce((longest, pattern) => Math.max(longest, pattern.length), -1);
+
+  const disallowed = longestMatch(rules.disallow);
+  return disallowed === -1 || longestMatch(rules.allow) >= disallowed;
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Polite crawling for page fetches: honours robots.txt Disallow and Crawl-delay per host,
+ * spaces requests to the same host and identifies itself with a User-Agent.
+ * robots.txt is cached per origin.
+ */
+export class CrawlerPolicy {
+  readonly userAgent: string;
+  private minDelayMs: number;
+  private maxCrawlDelayMs: number;
+  private robotsTtlMs: number;
+  private robotsTimeoutMs: number;
+  private robots = new Map<string, Promise<CachedRobots>>();
+  private nextRequestAt = new Map<string, number>();
+
+  constructor(options: CrawlerPolicyOptions = {}) {
+    this.userAgent = options.userAgent ?? (process.env.CRAWLER_USER_AGENT || DEFAULT_CRAWLER_USER_AGENT);
+    this.minDelayMs = options.minDelayMs ?? readNumber('CRAWLER_MIN_DELAY_MS', 250);
+    this.maxCrawlDelayMs = options.maxCrawlDelayMs ?? 30000;
+    this.robotsTtlMs = options.robotsTtlMs ?? 24 * 60 * 60 * 1000;
+    this.robotsTimeoutMs = options.robotsTimeoutMs ?? 5000;
+  }
+
+  /**
+   * Decides whether `url` may be fetched under its host's robots.txt.
+   * @param url - Absolute URL.
+   * @returns The decision, with a reason when the URL must be skipped.
+   */
+  async check(url: string): Promise<CrawlDecision> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return { allowed: false, reason: 'invalid-url' };
+    }
+
+    const { rules } = await this.getRobots(parsed.origin);
+    if (!rules) return { allowed: false, reason: 'robots-unreachable' };
+    if (!isPathAllowed(rules, `${parsed.pathname}${parsed.search}`)) {
+      return { allowed: false, reason: 'robots-disallowed' };
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * Fetches `url` with our User-Agent once the host's crawl delay has elapsed. One page
+   * visit books one slot: a follow-up request is sent straight away.
+   * Callers are expected to `check` the URL first.
+   * @param url - Absolute URL.
+   * @param init - Fetch options.
+   * @param options - Whether this request follows up the previous one for the page.
+   * @returns The response.
+   */
+  async fetch(url: string, init: RequestInit = {}, options: CrawlerFetchOptions = {}): Promise<Response> {
+    if (!options.followUp) await this.waitForSlot(url, init.signal);
+
+    const headers = new Headers(init.headers);
+    headers.set('User-Agent', this.userAgent);
+    return httpFetch(url, { ...init, headers });
+  }
+
+  private async waitForSlot(url: string, signal?: AbortSignal | null): Promise<void> {
+    const { origin } = new URL(url);
+    const { rules } = await this.getRobots(origin);
+    const delay = Math.min(Math.max(rules?.crawlDelayMs ?? 0, this.minDelayMs), this.maxCrawlDelayMs);
+
+    // Reserve the next slot for this host before waiting so concurrent callers queue up
+    const now = Date.now();
+    const previous = this.nextRequestAt.get(origin);
+    const startAt = Math.max(now, previous ?? 0);
+    this.nextRequestAt.set(origin, startAt + delay);
+    try {
+      await sleep(startAt - now, signal);
+    } catch (error) {
+      // Give the slot back unless a later request has already queued behind it
+      if (this.nextRequestAt.get(origin) === startAt + delay) {
+        if (previous === undefined) this.nextRequestAt.delete(origin);
+        else this.nextRequestAt.set(origin, previous);
+      }
+      throw error;
+    }
+  }
+
+  private getRobots(origin: string): Promise<CachedRobots> {
+    const cached = this.robots.get(origin);
+    if (cached) {
+      return cached.then(entry => (Date.now() - entry.fetchedAt < this.robotsTtlMs ? entry : this.loadRobots(origin)));
+    }
+    return this.loadRobots(origin);
+  }
+
+  private loadRobots(origin: string): Promise<CachedRobots> {
+    const loading = this.fetchRobots(origin).then(rules => ({ rules, fetchedAt: Date.now() }));
+    this.robots.set(origin, loading);
+    return loading;
+  }
+
+  /**
+   * Missing robots.txt (4xx) allows everything; server errors and network failures
+   * make the host off limits until the cache entry expires, as RFC 9309 recommends.
+   */
+  private async fetchRobots(origin: string): Promise<RobotsRules | null> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.robotsTimeoutMs);
+
+    try {
+      const response = await httpFetch(`${origin}/robots.txt`, {
+        headers: { 'User-Agent': this.userAgent },
+        signal: controller.signal,
+      });
+      if (response.status >= 400 && response.status < 500) return ALLOW_ALL;
+      if (!response.ok) return null;
+      return parseRobotsTxt(await response.text(), this.userAgent);
+    } catch (error) {
+      console.warn(`Could not fetch robots.txt for ${origin}:`, error);
+      return null;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  if (ms <= 0) return Promise.resolve();
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Aborted while waiting for crawl delay'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Aborted while waiting for crawl delay'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+let sharedPolicy: CrawlerPolicy | null = null;
+
+/**
+ * Process-wide crawler policy, so robots.txt and crawl delays are shared across searches.
+ * @returns The shared policy.
+ */
+export function getCrawlerPolicy(): CrawlerPolicy {
+  if (!sharedPolicy) {
+    sharedPolicy = new CrawlerPolicy();
+  }
+  return sharedPolicy;
+}
@@ -1,115 +1,278 @@
 import { JSDOM } from 'jsdom'; // For parsing HTML and extracting links
-import crypto from 'crypto'; // For generating URL hashes
+import { canonicalUrlHash } from '@/lib/utils/canonicalUrl'; // Stable page identity
+import { runWorkerPool, hostKey, SkipReason } from '@/lib/utils/workerPool';
+import { CrawlerPolicy, CrawlSkipReason, getCrawlerPolicy } from '@/lib/services/crawlerPolicy';
+import { extractPdfText, isPdfResponse } from '@/lib/documents/pdfText'; // Local text extraction for PDF calls
+import { logger } from '@/lib/utils/logger';
 
-interface SearchHit {
+export interface SearchHit {
   title: string;
   link: string;
   snippet: string;
 }
 
-interface OfficialPage {
+// Official calls are published as web pages or as PDF documents
+export type PageType = 'html' | 'pdf';
+
+export interface OfficialPage {
   url: string;
-  html: string;
-  hash: string;
+  type: PageType;
+  html: string; // Page HTML, or the text extracted from a PDF
+  hash: string; // SHA-256 of the canonical URL, used as the scholarship id
   sourceUrl: string; // Original URL from search hit
 }
 
+// Why a fetched page was dropped: its HEAD or GET failed, it is neither HTML nor a PDF, or the PDF
+// is over the size limit or has no text layer
+export type PageSkipReason = 'unreachable' | 'unsupported-content' | 'pdf-too-large' | 'pdf-no-text';
+
+export interface SkippedPage {
+  url: string;
+  reason: SkipReason | CrawlSkipReason | PageSkipReason;
+}
+
+export interface FetchOfficialOptions {
+  concurrency?: number; // Maximum page fetches in flight
+  perHostConcurrency?: number; // Maximum page fetches in flight per host
+  timeoutMs?: number; // Timeout for the HEAD + GET of a single page
+  maxPdfBytes?: number; // Larger PDFs are not downloaded
+  maxPdfPages?: number; // Text is extracted from at most this many PDF pages
+  deadline?: number; // Epoch ms after which remaining pages are skipped
+  officialDomains?: string[]; // Allowlist to check hosts against locally instead of asking the domains API
+  crawlerPolicy?: CrawlerPolicy; // robots.txt and crawl-delay enforcement; defaults to the shared policy
+  onSkipped?: (page: SkippedPage) => void; // Called for every page that was not fetched, with the reason
+  signal?: AbortSignal; // Cancels the crawl; pages not fetched yet are skipped
+}
+
+interface FetchedPage {
+  url: string;
+  type: PageType;
+  html: string;
+}
+
+interface PageLimits {
+  maxPdfBytes: number;
+  maxPdfPages: number;
+}
+
 /**
- * Fetches HTML content from a list of search hits, canonicalizes URLs, and deduplicates.
+ * Fetches HTML and PDF content from a list of search hits, canonicalizes URLs, and deduplicates.
+ * PDF calls are reduced to their text locally. Pages are fetched through a bounded worker pool; aggregator pages are expanded into the
+ * official links they contain, which are fetched in a second pass. Every URL is checked
+ * against its host's robots.txt first, and skipped URLs are reported with the reason.
  * @param searchHits - Array of search hits from Google CSE.
- * @returns A Promise that resolves to an array of OfficialPage objects.
+ * @param options - Concurrency, timeout and deadline settings.
+ * @returns A Promise that resolves to an array of OfficialPage objects, in search hit order.
  */
-export async function fetchOfficial(searchHits: SearchHit[]): Promise<OfficialPage[]> {
+export async function fetchOfficial(searchHits: SearchHit[], options: FetchOfficialOptions = {}): Promise<OfficialPage[]> {
+  const poolOptions = {
+    concurrency: options.concurrency ?? 8,
+    perKeyConcurrency: options.perHostConcurrency ?? 2,
+    timeoutMs: options.timeoutMs ?? 10000,
+    deadline: options.deadline,
+    signal: options.signal,
+  };
+  const policy = options.crawlerPolicy ?? getCrawlerPolicy();
+  const limits: PageLimits = {
+    maxPdfBytes: options.maxPdfBytes ?? 10 * 1024 * 1024,
+    maxPdfPages: options.maxPdfPages ?? 30,
+  };
   const officialPages: OfficialPage[] = [];
   const visitedHashes = new Set<string>();
 
-  for (const hit of searchHits) {
+  const skip = (page: SkippedPage) => {
+    logger.debug(`Skipping ${page.url}`, { reason: page.reason });
+    options.onSkipped?.(page);
+  };
+
+  // Drops URLs the crawler policy refuses to fetch
+  const permitted = async <T>(items: T[], urlOf: (item: T) => string): Promise<T[]> => {
+    const decisions = await Promise.all(items.map(item => policy.check(urlOf(item))));
+    return items.filter((item, index) => {
+      const decision = decisions[index];
+      if (!decision.allowed) skip({ url: urlOf(item), reason: decision.reason });
+      return decision.allowed;
+    });
+  };
+
+  // Claim each canonical URL before fetching so concurrent workers never fetch it twice
+  const claim = (url: string): boolean => {
+    const urlHash = canonicalUrlHash(url);
+    if (visitedHashes.has(urlHash)) return false;
+    visitedHashes.add(urlHash);
+    return true;
+  };
+
+  const hits = await permitted(searchHits.filter(hit => claim(hit.link)), hit => hit.link);
+  // Pages dropped after a timeout were already reported by the pool
+  const fetchOrSkip = async (url: string, signal: AbortSignal): Promise<FetchedPage | null> => {
+    const page = await fetchPage(url, signal, policy, limits);
+    if (typeof page !== 'string') return page;
+    if (!signal.aborted) skip({ url, reason: page });
+    return null;
+  };
+
+  const hitOutcomes = await runWorkerPool(hits, async (hit, signal) => {
+    const page = await fetchOrSkip(hit.link, signal);
+    if (!page) return null;
+
+    if (await isDomainOfficial(new URL(hit.link).hostname, options.officialDomains)) {
+      return { official: page, links: [] as string[] };
+    }
+    if (isAggregator(hit.link) && page.type === 'html') {
+      // If it's an aggregator, collect the official links within it
+      return { official: null, links: extractLinks(page.html) };
+    }
+    return null;
+  }, { ...poolOptions, keyOf: hit => hostKey(hit.link) });
+
+  const internalLinks: Array<{ url: string; sourceUrl: string }> = [];
+  hitOutcomes.forEach((outcome, index) => {
+    const hit = hits[index];
+    if (outcome.status === 'skipped') {
+      skip({ url: hit.link, reason: outcome.reason });
+    } else if (outcome.status === 'rejected') {
+      console.error(`Error processing search hit ${hit.link}:`, outcome.reason);
+    } else if (outcome.value?.official) {
+      officialPages.push({
+        url: hit.link,
+        type: outcome.value.official.type,
+        html: outcome.value.official.html,
+        hash: canonicalUrlHash(hit.link),
+        sourceUrl: hit.link,
+      });
+    } else if (outcome.value) {
+      outcome.value.links.forEach(url => internalLinks.push({ url, sourceUrl: hit.link }));
+    }
+  });
+
+  // Only follow aggregator links that point to an official domain
+  const candidates: Array<{ url: string; sourceUrl: string }> = [];
+  for (const link of internalLinks) {
     try {
-      // First, check reachability with a HEAD request
-      const headResponse = await fetch(hit.link, { method: 'HEAD' });
-      if (!headResponse.ok) {
-        console.warn(`Unreachable URL (HEAD) ${hit.link}: ${headResponse.statusText}`);
-        continue;
+      if (await isDomainOfficial(new URL(link.url).hostname, options.officialDomains) && claim(link.url)) {
+        candidates.push(link);
       }
+    } catch (internalError) {
+      console.warn(`Failed to process internal link ${link.url}:`, internalError);
+    }
+  }
 
-      // Ensure it's an HTML page before fetching full content
-      const contentType = headResponse.headers.get('content-type');
-      if (!contentType || !contentType.includes('text/html')) {
-        console.warn(`Skipping non-HTML content at ${hit.link}. Content-Type: ${contentType}`);
-        continue;
-      }
+  const allowedCandidates = await permitted(candidates, link => link.url);
+  const internalOutcomes = await runWorkerPool(
+    allowedCandidates,
+    (link, signal) => fetchOrSkip(link.url, signal),
+    { ...poolOptions, keyOf: link => hostKey(link.url) }
+  );
 
-      const response = await fetch(hit.link);
-      if (!response.ok) {
-        console.warn(`Failed to fetch ${hit.link}: ${response.statusText}`);
-        continue;
-      }
+  internalOutcomes.forEach((outcome, index) => {
+    const link = allowedCandidates[index];
+    if (outcome.status === 'skipped') {
+      skip({ url: link.url, reason: outcome.reason });
+    } else if (outcome.status === 'rejected') {
+      console.warn(`Failed to process internal link ${link.url}:`, outcome.reason);
+    } else if (outcome.value) {
+      officialPages.push({
+        url: link.url,
+        type: outcome.value.type,
+        html: outcome.value.html,
+        hash: canonicalUrlHash(link.url),
+        sourceUrl: link.sourceUrl, // Original aggregator link
+      });
+    }
+  });
 
-      const html = await response.text();
-      const urlHash = crypto.createHash('sha256').update(hit.link).digest('hex');
-
-      // Check if the domain is allowlisted (more robust check)
-      const isOfficialDomain = await isDomainOfficial(new URL(hit.link).hostname);
-
-      if (!visitedHashes.has(urlHash)) {
-        if (isOfficialDomain) {
-          officialPages.push({
-            url: hit.link,
-            html,
-            hash: urlHash,
-            sourceUrl: hit.link,
-          });
-          visitedHashes.add(urlHash);
-        } else if (isAggregator(hit.link)) {
-          // If it's an aggregator, try to find official links within it
-          const dom = new JSDOM(html);
-          const links = Array.from(dom.window.document.querySelectorAll('a'))
-            .map(a => (a as HTMLAnchorElement).href)
-            .filter(href => href.startsWith('http')); // Only absolute URLs
-
-          for (const internalLink of links) {
-            try {
-              const internalUrl = new URL(internalLink);
-              const internalUrlHash = crypto.createHash('sha256').update(internalLink).digest('hex');
-
-              // Only follow and fetch if the internal link is to an official domain
-              if (!visitedHashes.has(internalUrlHash) && await isDomainOfficial(internalUrl.hostname)) {
-                const internalHeadResponse = await fetch(internalLink, { method: 'HEAD' });
-                if (!internalHeadResponse.ok) {
-                  console.warn(`Unreachable internal URL (HEAD) ${internalLink}: ${internalHeadResponse.statusText}`);
-                  continue;
-                }
-                const internalContentType = internalHeadResponse.headers.get('content-type');
-                if (!internalContentType || !internalContentType.includes('text/html')) {
-                  console.warn(`Skipping non-HTML internal content at ${internalLink}. Content-Type: ${internalContentType}`);
-                  continue;
-                }
-
-                const internalResponse = await fetch(internalLink);
-                if (internalResponse.ok) {
-                  const internalHtml = await internalResponse.text();
-                  officialPages.push({
-                    url: internalLink,
-                    html: internalHtml,
-                    hash: internalUrlHash,
-                    sourceUrl: hit.link, // Original aggregator link
-                  });
-                  visitedHashes.add(internalUrlHash);
-                }
-              }
-            } catch (internalError) {
-              console.warn(`Failed to process internal link ${internalLink}:`, internalError);
-            }
-          }
-        }
-      }
+  return officialPages;
+}
+
+/**
+ * Checks reachability with a HEAD request, then fetches the page if it is HTML or a PDF.
+ * PDFs are downloaded up to a size limit and only their extracted text is kept.
+ * @param url - Page URL.
+ * @param signal - Aborts both requests when the worker times out.
+ * @param policy - Crawler policy that spaces requests and sets the User-Agent.
+ * @param limits - PDF size and page limits.
+ * @returns The page HTML or PDF text, or why it was dropped.
+ */
+async function fetchPage(url: string, signal: AbortSignal, policy: CrawlerPolicy, limits: PageLimits): Promise<FetchedPage | PageSkipReason> {
+  const headResponse = await policy.fetch(url, { method: 'HEAD', signal });
+  if (!headResponse.ok) return 'unreachable';
+
+  // Ensure it's an HTML page or a PDF before fetching full content
+  const contentType = headResponse.headers.get('content-type');
+  const type: PageType | null = contentType?.includes('text/html') ? 'html' : isPdfResponse(contentType, url) ? 'pdf' : null;
+  if (!type) return 'unsupported-content';
+
+  const contentLength = Number(headResponse.headers.get('content-length'));
+  if (type === 'pdf' && contentLength > limits.maxPdfBytes) return 'pdf-too-large';
+
+  // Its own controller, so an oversized download can be stopped without aborting the worker
+  const download = new AbortController();
+  const forwardAbort = () => download.abort();
+  signal.addEventListener('abort', forwardAbort, { once: true });
+  try {
+    const response = await policy.fetch(url, { signal: download.signal }, { followUp: true }); // The HEAD already waited for the slot
+    if (!response.ok) return 'unreachable';
+
+    if (type === 'html') {
+      return { url, type, html: await response.text() };
+    }
+
+    const data = await readUpTo(response, limits.maxPdfBytes, download);
+    if (!data) return 'pdf-too-large';
 
-    } catch (error) {
-      console.error(`Error processing search hit ${hit.link}:`, error);
+    const { text } = await extractPdfText(data, { maxPages: limits.maxPdfPages });
+    return text ? { url, type, html: text } : 'pdf-no-text';
+  } finally {
+    signal.removeEventListener('abort', forwardAbort);
+  }
+}
+
+/**
+ * Reads a response body in chunks, aborting the download once it passes `maxBytes`, so a
+ * server that sends no Content-Length cannot make us buffer an oversized file.
+ * @param response - Response whose body to read.
+ * @param maxBytes - Largest body accepted.
+ * @param download - Controller of the request, aborted when the limit is passed.
+ * @returns The body, or null if it is larger than `maxBytes`.
+ */
+async function readUpTo(response: Response, maxBytes: number, download: AbortController): Promise<Uint8Array | null> {
+  if (!response.body) return new Uint8Array(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      download.abort();
+      await reader.cancel().catch(() => undefined);
+      return null;
     }
+    chunks.push(value);
   }
 
-  return officialPages;
+  const data = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return data;
+}
+
+/**
+ * Absolute links found in an HTML document.
+ * @param html - Page HTML.
+ * @returns Absolute http(s) URLs.
+ */
+function extractLinks(html: string): string[] {
+  const dom = new JSDOM(html);
+  return Array.from(dom.window.document.querySelectorAll('a'))
+    .map(a => (a as HTMLAnchorElement).href)
+    .filter(href => href.startsWith('http')); // Only absolute URLs
 }
 
 /**
@@ -123,11 +286,18 @@ function isAggregator(url: string): boolean {
 
 /**
  * Checks if a given hostname is in the allowlisted official domains.
- * This function will call the /api/domains endpoint.
+ * Uses the given allowlist when there is one (subdomains included), otherwise
+ * this function will call the /api/domains endpoint.
  * @param hostname - The hostname to check.
+ * @param officialDomains - Optional allowlist of official domains.
  * @returns A Promise that resolves to true if the domain is official, false otherwise.
  */
-async function isDomainOfficial(hostname: string): Promise<boolean> {
+async function isDomainOfficial(hostname: string, officialDomains?: string[]): Promise<boolean> {
+  if (officialDomains) {
+    const host = hostname.toLowerCase().replace(/^www\./, '');
+    return officialDomains.some(domain => host === domain || host.endsWith(`.${domain}`));
+  }
+
   try {
     const response = await fetch(`/api/meta/domains/verify?domain=${hostname}`, { method: 'HEAD' });
     return response.ok; // 200 OK means it's trusted
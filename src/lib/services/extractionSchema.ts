@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { JsonValidation, parseJsonResponse } from '@/lib/llm/json';
+import { gradeToPercent } from '@/lib/profile/gradeScales';
+
+export const DEGREE_LEVELS = ['Bachelor', 'Master', 'PhD', 'Any'] as const;
+
+export const ELIGIBILITY_RULE_TYPES = [
+  'nationality', 'residency', 'gpa_min', 'language', 'work_years_min', 'age_max', 'graduation_year',
+] as const;
+
+const NUMERIC_RULES = new Set(['gpa_min', 'work_years_min', 'age_max']);
+const COUNTRY_RULES = new Set(['nationality', 'residency']);
+
+const IsoDateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'must be an ISO date (YYYY-MM-DD) or "varies"')
+  // Date parsing rolls 2099-02-30 over into March, so compare the round trip
+  .refine(value => {
+    const date = new Date(value);
+    return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+  }, 'is not a real calendar date');
+
+/**
+ * One structured eligibility constraint, e.g. `{rule: 'gpa_min', value: 3.0, scale: '4.0'}`
+ * or `{rule: 'nationality', allowed: ['Kenya', 'Ghana']}`.
+ */
+export const EligibilityRuleSchema = z.object({
+  rule: z.enum(ELIGIBILITY_RULE_TYPES),
+  value: z.union([z.number(), z.string()]).optional(),
+  allowed: z.array(z.string()).optional(), // Countries for nationality / residency
+  values: z.array(z.string()).optional(), // Accepted tests with thresholds for language, e.g. "IELTS 6.5"
+  optional: z.boolean().optional(),
+  scale: z.string().optional(), // GPA scale, e.g. "4.0", "20", "100" or "UK"
+  min: z.number().int().optional(), // Earliest graduation year
+  max: z.number().int().optional(), // Latest graduation year
+}).superRefine((rule, context) => {
+  // UK degree classes are the one non-numeric minimum grade
+  const ukClass = rule.rule === 'gpa_min' && typeof rule.value === 'string' && gradeToPercent(rule.value, rule.scale || 'UK') !== undefined;
+  if (NUMERIC_RULES.has(rule.rule) && typeof rule.value !== 'number' && !ukClass) {
+    context.addIssue({ code: 'custom', path: ['value'], message: `${rule.rule} needs a numeric value` });
+  }
+  if (COUNTRY_RULES.has(rule.rule) && !rule.allowed?.length) {
+    context.addIssue({ code: 'custom', path: ['allowed'], message: `${rule.rule} needs the list of allowed countries` });
+  }
+  if (rule.rule === 'graduation_year' && rule.min === undefined && rule.max === undefined) {
+    context.addIssue({ code: 'custom', path: ['min'], message: 'graduation_year needs min and/or max' });
+  }
+  if (rule.rule === 'language' && !rule.values?.length) {
+    context.addIssue({ code: 'custom', path: ['values'], message: 'language needs the accepted tests and scores' });
+  }
+});
+
+/**
+ * The extraction contract declared in the Gemini prompt. `id`, `source_domain` and `updatedAt`
+ * are requested but the caller derives them from the page, so they are not required.
+ */
+export const ExtractedScholarshipSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().trim().min(1, 'is required'),
+  country: z.string().trim().min(1, 'is required'),
+  degree_levels: z.array(z.enum(DEGREE_LEVELS)).min(1, 'must list at least one degree level'),
+  fields: z.array(z.string()),
+  benefits: z.array(z.string()),
+  stipend: z.number().nonnegative().nullable().optional(), // Monthly amount when stated
+  fullyFunded: z.boolean(),
+  eligibility_summary: z.string(),
+  eligibility_rules: z.array(EligibilityRuleSchema),
+  deadline: z.union([z.literal('varies'), IsoDateSchema]),
+  link: z.string().url(),
+  source_domain: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+
+export type EligibilityRule = z.infer<typeof EligibilityRuleSchema>;
+
+// A validated extraction, tied to the page it came from
+export type ExtractedScholarship = z.infer<typeof ExtractedScholarshipSchema> & {
+  id: string;
+  sourceUrl: string;
+  source_domain: string;
+  promptVersion: string; // Id of the extraction prompt, e.g. 'scholarship-extraction@1'
+};
+
+export type ExtractionValidation = JsonValidation<z.infer<typeof ExtractedScholarshipSchema>>;
+
+/**
+ * Parses and validates a raw model response against the extraction contract.
+ * @param responseText - Text returned by the model, expected to be a JSON object.
+ * @returns The typed extraction, or readable errors that can be fed back to the model.
+ */
+export function validateExtraction(responseText: string): ExtractionValidation {
+  return parseJsonResponse(responseText, ExtractedScholarshipSchema);
+}
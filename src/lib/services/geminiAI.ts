@@ -1,118 +1,468 @@
-import { Scholarship } from '@/types/database';
+import crypto from 'crypto';
+import { z } from 'zod';
 import { OfficialPage } from '@/lib/services/dataIngestion'; // Import OfficialPage
-
-// Placeholder for Gemini API Key
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY || 'YOUR_GEMINI_API_KEY';
+import {
+  getLLMClient,
+  getRequestLimiter,
+  getUsageLedger,
+  LLMClient,
+  LLMMessage,
+  LLMOutputError,
+  RateLimitedLLMClient,
+  RequestLimiter,
+  UsageLedger,
+} from '@/lib/llm';
+import { extractMainContent } from '@/lib/documents/mainContent';
+import { parseRedactionPolicy, redactPII } from '@/lib/documents/piiRedaction';
+import { CVEntities, CVEntitiesSchema } from '@/lib/profile/userProfile';
+import { ExtractedScholarship, ExtractedScholarshipSchema } from '@/lib/services/extractionSchema';
+import {
+  cvEntitiesPrompt,
+  extractionRepairPrompt,
+  personalizedRecommendationsPrompt,
+  renderPrompt,
+  scholarshipEnhancementPrompt,
+  scholarshipExtractionPrompt,
+  scholarshipRankingPrompt,
+} from '@/lib/llm/prompts';
+import type { UserProfile } from '@/types/profile';
 
 export const geminiAI = {
   
 
-  geminiExtract: async (page: OfficialPage): Promise<Scholarship | null> => {
+  geminiExtract: async (page: OfficialPage, signal?: AbortSignal): Promise<ExtractedScholarship | null> => {
     console.log(`Gemini extracting data from: ${page.url}`);
 
-    const promptText = `
-      SCHEMA:
-      {id,name,country,degree_levels[],fields[],benefits[],fullyFunded,eligibility_summary,eligibility_rules[],deadline,link,source_domain,updatedAt}
+    // Send only the main content of HTML pages; PDFs are already reduced to their text
+    let pageText = page.html;
+    if (page.type === 'html') {
+      const { text, stats } = extractMainContent(page.html);
+      pageText = text;
+      console.log(
+        `Reduced ${page.url} from ~${stats.originalTokens} to ~${stats.reducedTokens} tokens ` +
+        `(${Math.round(stats.savedRatio * 100)}% saved)`
+      );
+    }
 
-      PAGE_URL: ${page.url}
-      PAGE_HTML_TEXT: ${page.html.substring(0, 100000)} // Truncate to 100k chars
+    const prompt = renderPrompt(scholarshipExtractionPrompt, { pageUrl: page.url, pageType: page.type, pageText });
 
-      REQUIREMENTS:
-      - Derive country from owning organization if obvious (e.g., Chevening→UK).
-      - degree_levels must be subset of ["Bachelor","Master","PhD","Any"].
-      - fullyFunded = true only if tuition + stipend are present on page.
-      - deadline must be ISO YYYY-MM-DD if an exact date is stated; otherwise "varies".
-      - eligibility_rules: list structured constraints (nationality, gpa_min, language with thresholds, work_years_min, age_max, residency).
-      - source_domain = domain of PAGE_URL.
-      - updatedAt = today’s date in ISO.
-      Return JSON only.
-    `;
+    const client = getLLMClient();
+    const conversation: LLMMessage[] = [{ role: 'user', text: prompt.text }];
+    const extract = () => client.generateJSON({ feature: 'extract', prompt: conversation, schema: ExtractedScholarshipSchema, signal });
 
     try {
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${GEMINI_API_KEY}`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            contents: [{ role: 'user', parts: [{ text: promptText }] }],
-            generationConfig: { response_mime_type: 'application/json' },
-          }),
-        }
-      );
+      let extraction: Awaited<ReturnType<typeof extract>>;
+      try {
+        extraction = await extract();
+      } catch (error) {
+        if (!(error instanceof LLMOutputError) || signal?.aborted) throw error;
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        console.error(`Gemini API error for ${page.url}:`, errorData);
-        return null;
+        // One repair round: show the model its output and what is wrong with it
+        console.warn(`Extraction for ${page.url} does not match the schema, requesting a repair:`, error.errors);
+        conversation.push(
+          { role: 'model', text: error.text },
+          { role: 'user', text: extractionRepairPrompt.render({ errors: error.errors }) }
+        );
+        extraction = await extract();
       }
 
-      const data = await response.json();
-      // Assuming the response directly contains the extracted JSON
-      // You might need to parse data.candidates[0].content.parts[0].text depending on Gemini API response structure
-      const extractedScholarship = data.candidates[0].content.parts[0].text;
+      // The canonical URL hash is the stable identity, so re-extracting a known
+      // page updates the same scholarship instead of creating a new one
+      return {
+        ...extraction.data,
+        id: page.hash,
+        sourceUrl: page.url,
+        promptVersion: prompt.id,
+        source_domain: extraction.data.source_domain || new URL(page.url).hostname,
+        updatedAt: new Date().toISOString(), // Ensure updatedAt is always current
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        console.warn(`Extraction for ${page.url} was cancelled`);
+      } else if (error instanceof LLMOutputError) {
+        console.error(`Discarding extraction for ${page.url} after repair:`, error.errors);
+      } else {
+        console.error(`Error calling Gemini API for ${page.url}:`, error);
+      }
+      return null;
+    }
+  },
 
-      // Parse the extracted JSON and cast to Scholarship
-      const scholarship: Scholarship = JSON.parse(extractedScholarship);
+  geminiNER: async (cvText: string): Promise<CVEntities | null> => {
+    console.log('Gemini performing NER on CV text...');
 
-      // Add ID and source_domain if not already present (from specification)
-      scholarship.id = scholarship.id || page.hash;
-      scholarship.source_domain = scholarship.source_domain || new URL(page.url).hostname;
-      scholarship.updatedAt = new Date(); // Ensure updatedAt is always current
+    // Direct identifiers never leave the server unless CV_PII_POLICY allows them
+    const { text, counts } = redactPII(cvText, parseRedactionPolicy());
+    console.log('Masked personal details in CV text:', counts);
+    const promptText = cvEntitiesPrompt.render({ cvText: text });
 
-      return scholarship;
+    try {
+      const { data } = await getLLMClient().generateJSON({ feature: 'ner', prompt: promptText, schema: CVEntitiesSchema });
+      return data;
     } catch (error) {
-      console.error(`Error calling Gemini API for ${page.url}:`, error);
+      console.error('Error calling Gemini NER API:', error);
       return null;
     }
   },
+};
 
-  geminiNER: async (cvText: string): Promise<any | null> => {
-    console.log('Gemini performing NER on CV text...');
+export interface AIScholarship {
+  id: string;
+  name: string;
+  country: string;
+  degreeLevels: string[];
+  fields: string[];
+  deadline?: Date | string;
+  stipend?: number;
+  tuitionCovered?: boolean;
+  requirements?: string[];
+  eligibilityText?: string;
+  matchScore?: number; // Rule-based score (0-100), used when AI ranking is unavailable
+}
+
+const RankingSchema = z.object({
+  scholarshipId: z.string(),
+  enhancedScore: z.number().min(0).max(100),
+  aiRationale: z.string(),
+  matchStrengths: z.array(z.string()).default([]),
+  potentialConcerns: z.array(z.string()).default([]),
+  applicationTips: z.array(z.string()).default([]),
+});
+
+const RecommendationsSchema = z.object({
+  summary: z.string(),
+  recommendations: z.array(z.object({
+    scholarshipId: z.string(),
+    personalizedMessage: z.string(),
+    actionItems: z.array(z.string()).default([]),
+    timeline: z.string().default(''),
+  })),
+});
+
+const EnhancementSchema = z.object({
+  enhancedDescription: z.string(),
+  keyHighlights: z.array(z.string()).default([]),
+  applicationStrategy: z.string(),
+  matchAnalysis: z.string().default(''),
+});
 
-    const promptText = `
-      Extract the following entities from the CV text in JSON format:
-      - degree (e.g., "Bachelor", "Master", "PhD")
-      - field_keywords (e.g., ["Computer Science", "Software Engineering"])
-      - gpa (numerical value, e.g., 3.7)
-      - work_years (numerical value, total years of work experience)
-      - language_proofs (e.g., ["IELTS 7.0", "TOEFL 100"])
+export type ScholarshipRanking = z.infer<typeof RankingSchema>;
+export type PersonalizedRecommendations = z.infer<typeof RecommendationsSchema>;
+export type ScholarshipEnhancement = z.infer<typeof EnhancementSchema>;
 
-      CV_TEXT:
-      ${cvText}
+export interface GeminiUsageStats {
+  requestsToday: number;
+  tokensUsed: number; // Today
+  remainingQuota: number; // Requests left today
+  cacheHits: number; // Today; cached answers use no quota
+  rateLimitStatus: {
+    requestsThisMinute: number;
+    maxRequestsPerMinute: number;
+    resetTime: Date; // When the oldest request in the window expires
+  };
+}
 
-      Return JSON only.
-    `;
+export interface GeminiHealthCheck {
+  status: 'healthy' | 'degraded' | 'unhealthy';
+  apiKeyConfigured: boolean;
+  rateLimitOk: boolean;
+  quotaAvailable: boolean;
+}
+
+export interface GeminiAIServiceOptions {
+  client?: LLMClient; // Defaults to the shared LLM client; a given client is put behind the service's limiter
+  ledger?: UsageLedger; // Where usage is read from and cache hits recorded; defaults to the shared ledger
+  limiter?: RequestLimiter; // Defaults to the shared limiter, or a new one when limits are given
+  maxRequestsPerMinute?: number;
+  dailyRequestQuota?: number;
+  cacheTtlMs?: number;
+  maxCacheEntries?: number;
+}
+
+const MAX_RANKED_SCHOLARSHIPS = 20;
+
+/**
+ * The service refused to call the model because the per-minute limit or the daily quota is used up.
+ */
+export class GeminiRateLimitError extends Error {
+  constructor(message: string, readonly retryAfterMs: number) {
+    super(message);
+    this.name = 'GeminiRateLimitError';
+  }
+}
+
+/**
+ * Ranking, recommendations and description enhancement on top of the LLM client. Calls share
+ * the per-minute limit and daily quota of the shared LLM client (free-tier Gemini limits by
+ * default), but are refused at once rather than queued when no slot is free. Answers are cached
+ * by a hash of model, feature and prompt so repeated searches cost nothing.
+ * Use `getGeminiAIService()` so the cache is shared by every caller.
+ */
+export class GeminiAIService {
+  private clientOverride?: LLMClient;
+  private ledger: UsageLedger;
+  private limiter: RequestLimiter;
+  private cacheTtlMs: number;
+  private maxCacheEntries: number;
+
+  private responseCache = new Map<string, { data: unknown; expires: number }>();
+
+  constructor(options: GeminiAIServiceOptions = {}) {
+    this.ledger = options.ledger ?? getUsageLedger();
+    const customLimits = options.maxRequestsPerMinute !== undefined || options.dailyRequestQuota !== undefined;
+    this.limiter = options.limiter ?? (customLimits
+      ? new RequestLimiter({ maxRequestsPerMinute: options.maxRequestsPerMinute, dailyRequestQuota: options.dailyRequestQuota })
+      : getRequestLimiter());
+    this.clientOverride = options.client && new RateLimitedLLMClient(options.client, this.limiter, this.ledger);
+    this.cacheTtlMs = options.cacheTtlMs ?? readLimit('GEMINI_CACHE_TTL_SECONDS', 3600) * 1000;
+    this.maxCacheEntries = options.maxCacheEntries ?? 500;
+  }
+
+  /**
+   * Reranks scholarships for a profile. When the model is unavailable or over its limits, the
+   * scholarships are returned in rule-based order with a rationale saying so.
+   * @param profile - Applicant profile.
+   * @param scholarships - Candidates, best rule-based matches first; only the first 20 are sent.
+   * @param limit - Maximum number of rankings to return.
+   * @returns Rankings sorted by `enhancedScore`, highest first.
+   */
+  async rankScholarships(profile: UserProfile, scholarships: AIScholarship[], limit = scholarships.length): Promise<ScholarshipRanking[]> {
+    this.assertConfigured();
+    const candidates = scholarships.slice(0, MAX_RANKED_SCHOLARSHIPS);
+    if (candidates.length === 0) return [];
+
+    const prompt = scholarshipRankingPrompt.render({ profile, scholarships: candidates });
 
     try {
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${GEMINI_API_KEY}`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            contents: [{ role: 'user', parts: [{ text: promptText }] }],
-            generationConfig: { response_mime_type: 'application/json' },
-          }),
-        }
-      );
+      const rankings = await this.generate('rank', prompt, z.array(RankingSchema));
+      const ids = new Set(candidates.map(scholarship => scholarship.id));
+      return rankings
+        .filter(ranking => ids.has(ranking.scholarshipId))
+        .sort((a, b) => b.enhancedScore - a.enhancedScore)
+        .slice(0, limit);
+    } catch (error) {
+      console.warn('Gemini ranking failed, using rule-based ranking:', (error as Error).message);
+      return fallbackRankings(profile, candidates).slice(0, limit);
+    }
+  }
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        console.error('Gemini NER API error:', errorData);
-        return null;
-      }
+  /**
+   * Writes a short personal summary and next steps for each scholarship.
+   * @param profile - Applicant profile.
+   * @param scholarships - Scholarships to recommend; only the first 20 are sent.
+   * @returns Summary and per-scholarship recommendations.
+   */
+  async generatePersonalizedRecommendations(profile: UserProfile, scholarships: AIScholarship[]): Promise<PersonalizedRecommendations> {
+    this.assertConfigured();
+    const candidates = scholarships.slice(0, MAX_RANKED_SCHOLARSHIPS);
 
-      const data = await response.json();
-      const extractedEntities = data.candidates[0].content.parts[0].text;
-      return JSON.parse(extractedEntities);
+    const prompt = personalizedRecommendationsPrompt.render({ profile, scholarships: candidates });
+
+    try {
+      return await this.generate('recommendations', prompt, RecommendationsSchema);
     } catch (error) {
-      console.error('Error calling Gemini NER API:', error);
-      return null;
+      console.warn('Gemini recommendations failed, using generic recommendations:', (error as Error).message);
+      return {
+        summary: `AI recommendations are temporarily unavailable. These ${candidates.length} scholarships match your profile.`,
+        recommendations: candidates.map(scholarship => ({
+          scholarshipId: scholarship.id,
+          personalizedMessage: `${scholarship.name} (${scholarship.country}) matches your search.`,
+          actionItems: ['Check the eligibility requirements on the official page', 'Prepare your application documents'],
+          timeline: scholarship.deadline ? `Apply before ${formatDeadline(scholarship.deadline)}` : 'Check the official page for deadlines',
+        })),
+      };
     }
-  },
-};
\ No newline at end of file
+  }
+
+  /**
+   * Rewrites a scholarship's description for a profile, with highlights and an application strategy.
+   * @param scholarship - Scholarship to describe.
+   * @param profile - Applicant profile.
+   * @returns The enhanced description.
+   */
+  async enhanceScholarshipDescription(scholarship: AIScholarship, profile: UserProfile): Promise<ScholarshipEnhancement> {
+    this.assertConfigured();
+
+    const prompt = scholarshipEnhancementPrompt.render({ profile, scholarship });
+
+    try {
+      return await this.generate('enhance', prompt, EnhancementSchema);
+    } catch (error) {
+      console.warn('Gemini description enhancement failed:', (error as Error).message);
+      return {
+        enhancedDescription: scholarship.eligibilityText || `${scholarship.name} in ${scholarship.country}.`,
+        keyHighlights: [
+          ...(scholarship.stipend ? [`Monthly stipend: ${scholarship.stipend}`] : []),
+          ...(scholarship.tuitionCovered ? ['Tuition covered'] : []),
+        ],
+        applicationStrategy: 'AI guidance is temporarily unavailable. Follow the requirements on the official page.',
+        matchAnalysis: '',
+      };
+    }
+  }
+
+  /**
+   * Today's usage of every LLM feature (extraction, NER and reranking included) and the current
+   * rate-limit window, as shown on the monitoring dashboard.
+   * @returns Usage statistics.
+   */
+  async getUsageStats(): Promise<GeminiUsageStats> {
+    const limits = this.limiter.status();
+    const today = this.ledger.summarize();
+    const cacheHits = today.features.reduce((sum, feature) => sum + feature.cacheHits, 0);
+    return {
+      requestsToday: today.requests - cacheHits,
+      tokensUsed: today.totalTokens,
+      remainingQuota: Math.max(0, limits.dailyRequestQuota - limits.requestsToday),
+      cacheHits,
+      rateLimitStatus: {
+        requestsThisMinute: limits.requestsThisMinute,
+        maxRequestsPerMinute: limits.maxRequestsPerMinute,
+        resetTime: limits.resetTime,
+      },
+    };
+  }
+
+  /**
+   * Unhealthy without an API key; degraded while rate limited or with less than 10% of the quota left.
+   * @returns Health summary.
+   */
+  async healthCheck(): Promise<GeminiHealthCheck> {
+    const stats = await this.getUsageStats();
+    const apiKeyConfigured = this.isConfigured();
+    const rateLimitOk = stats.rateLimitStatus.requestsThisMinute < this.limiter.maxRequestsPerMinute;
+    const quotaAvailable = stats.remainingQuota > this.limiter.dailyRequestQuota * 0.1;
+
+    return {
+      status: !apiKeyConfigured ? 'unhealthy' : rateLimitOk && quotaAvailable ? 'healthy' : 'degraded',
+      apiKeyConfigured,
+      rateLimitOk,
+      quotaAvailable,
+    };
+  }
+
+  private get client(): LLMClient {
+    return this.clientOverride ?? getLLMClient();
+  }
+
+  // Only Gemini needs a key; the stub client always works
+  private isConfigured(): boolean {
+    return this.client.name !== 'gemini' || Boolean(process.env.GEMINI_API_KEY);
+  }
+
+  private assertConfigured(): void {
+    if (!this.isConfigured()) {
+      throw new Error('Gemini API not configured: set GEMINI_API_KEY');
+    }
+  }
+
+  /**
+   * Cached, rate-limited and budgeted JSON generation.
+   */
+  private async generate<T>(feature: string, prompt: string, schema: z.ZodType<T>): Promise<T> {
+    const client = this.client;
+    const key = crypto.createHash('sha256').update(`${client.name}\n${client.defaultModel}\n${feature}\n${prompt}`).digest('hex');
+    const now = Date.now();
+
+    const cached = this.responseCache.get(key);
+    if (cached && cached.expires > now) {
+      this.ledger.record({
+        feature,
+        provider: client.name,
+        model: client.defaultModel,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        latencyMs: 0,
+        cacheHit: true,
+        success: true,
+      });
+      return cached.data as T;
+    }
+    this.responseCache.delete(key);
+
+    // Checked before the limits so a spent budget is reported as such
+    this.ledger.assertBudget(feature);
+    this.assertSlotFree(now);
+    const result = await client.generateJSON({ feature, prompt, schema });
+
+    // Map iteration order is insertion order, so the first key is the oldest entry
+    if (this.responseCache.size >= this.maxCacheEntries) {
+      this.responseCache.delete(this.responseCache.keys().next().value as string);
+    }
+    this.responseCache.set(key, { data: result.data, expires: now + this.cacheTtlMs });
+    return result.data;
+  }
+
+  /**
+   * Refuses the request when the client would have to wait for the minute window or the
+   * daily quota is used up; the client itself takes the slot.
+   */
+  private assertSlotFree(now: number): void {
+    const limits = this.limiter.status(now);
+    if (limits.requestsToday >= limits.dailyRequestQuota) {
+      const tomorrow = new Date(now);
+      tomorrow.setUTCHours(24, 0, 0, 0);
+      throw new GeminiRateLimitError(`Daily Gemini quota of ${limits.dailyRequestQuota} requests used up`, tomorrow.getTime() - now);
+    }
+    if (limits.requestsThisMinute >= limits.maxRequestsPerMinute) {
+      throw new GeminiRateLimitError(
+        `Gemini rate limit of ${limits.maxRequestsPerMinute} requests per minute reached`,
+        limits.resetTime.getTime() - now
+      );
+    }
+  }
+}
+
+let sharedService: GeminiAIService | null = null;
+
+/**
+ * Process-wide service, so rate limits, quota and cache apply across requests.
+ * @returns The shared service.
+ */
+export function getGeminiAIService(): GeminiAIService {
+  if (!sharedService) {
+    sharedService = new GeminiAIService();
+  }
+  return sharedService;
+}
+
+/**
+ * Rule-based rankings used when the model cannot be asked: the caller's match score when
+ * present, otherwise degree and field overlap with the profile.
+ */
+function fallbackRankings(profile: UserProfile, scholarships: AIScholarship[]): ScholarshipRanking[] {
+  const keywords = profile.fields.map(field => field.toLowerCase());
+  const degree = profile.degreeTarget.toLowerCase();
+
+  return scholarships
+    .map(scholarship => {
+      const degreeMatch = scholarship.degreeLevels.some(level => level.toLowerCase() === degree);
+      const matchedFields = scholarship.fields.filter(field =>
+        keywords.some(keyword => field.toLowerCase().includes(keyword) || keyword.includes(field.toLowerCase()))
+      );
+      const score = scholarship.matchScore ?? 40 + (degreeMatch ? 30 : 0) + (matchedFields.length > 0 ? 30 : 0);
+
+      return {
+        scholarshipId: scholarship.id,
+        enhancedScore: score,
+        aiRationale: 'AI ranking is temporarily unavailable; this score is based on degree and field match only.',
+        matchStrengths: [
+          ...(degreeMatch ? [`Offered for ${scholarship.degreeLevels.join(', ')} degrees`] : []),
+          ...matchedFields.map(field => `Field match: ${field}`),
+        ],
+        potentialConcerns: [],
+        applicationTips: [],
+      };
+    })
+    .sort((a, b) => b.enhancedScore - a.enhancedScore);
+}
+
+function formatDeadline(deadline: Date | string): string {
+  return deadline instanceof Date ? deadline.toISOString().slice(0, 10) : deadline;
+}
+
+function readLimit(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
@@ -1,5 +1,5 @@
-const GOOGLE_CSE_API_KEY = process.env.GOOGLE_CSE_KEY || 'YOUR_GOOGLE_CSE_API_KEY';
-const GOOGLE_CSE_CX = process.env.GOOGLE_CSE_CX || 'YOUR_GOOGLE_CSE_CX';
+import { createSearchProvider, mergeHits, SearchProvider } from '@/lib/searchProviders';
+import type { SearchHit } from '@/lib/services/dataIngestion';
 
 /**
  * Builds an array of search queries based on profile facets and official domains.
@@ -45,31 +45,25 @@ export function buildQueries(profile: any, officialDomains: string[]): string[]
 }
 
 /**
- * Executes Google Custom Search Engine queries and returns search hits.
+ * Runs every query against the configured search provider(s) and merges the hits.
+ * A failing query is logged and skipped; hits are deduplicated by canonical URL.
  * @param queries - An array of search query strings.
+ * @param provider - Search provider; defaults to the one configured by SEARCH_PROVIDERS.
  * @returns A Promise that resolves to an array of search hits.
  */
-export async function fanOutCSE(queries: string[]): Promise<any[]> {
-  const searchHits: any[] = [];
+export async function fanOutSearch(
+  queries: string[],
+  provider: SearchProvider = createSearchProvider()
+): Promise<SearchHit[]> {
+  const hitLists: SearchHit[][] = [];
 
   for (const query of queries) {
     try {
-      const response = await fetch(
-        `https://www.googleapis.com/customsearch/v1?key=${GOOGLE_CSE_API_KEY}&cx=${GOOGLE_CSE_CX}&q=${encodeURIComponent(query)}`
-      );
-      const data = await response.json();
-
-      if (data.items) {
-        searchHits.push(...data.items.map((item: any) => ({
-          title: item.title,
-          link: item.link,
-          snippet: item.snippet,
-        })));
-      }
+      hitLists.push(await provider.search(query));
     } catch (error) {
       console.error(`Error fetching search results for query "${query}":`, error);
     }
   }
 
-  return searchHits;
-}
\ No newline at end of file
+  return mergeHits(hitLists);
+}
@@ -2,23 +2,16 @@
 // Combines Google Search, database queries, and AI ranking for optimal results
 
 import { GoogleScholarshipSearchService } from './googleSearch'
-import { GeminiAIService } from './geminiAI'
+import { GeminiAIService, getGeminiAIService, ScholarshipRanking } from './geminiAI'
 import { ScholarshipIngestionService } from './dataIngestion'
 import { cache, cacheKeys } from '../cache/redis'
+import { ScholarshipRepository, MAX_PAGE_SIZE } from '../repositories'
 import { logger } from '../utils/logger'
 import type { Scholarship } from '../../types/database'
+import type { UserProfile } from '../../types/profile'
 
 interface SearchOptions {
-  profile: {
-    nationality: string
-    degreeTarget: string
-    fieldKeywords: string[]
-    specialStatus?: string[]
-    gpa?: number
-    languageTests?: Record<string, any>
-    publications?: number
-    workExperience?: number
-  }
+  profile: UserProfile
   filters?: {
     countries?: string[]
     degreeLevels?: string[]
@@ -62,11 +55,13 @@ export class AdvancedSearchEngine {
   private googleSearch: GoogleScholarshipSearchService
   private geminiAI: GeminiAIService
   private ingestionService: ScholarshipIngestionService
+  private scholarshipRepository: ScholarshipRepository
 
   constructor() {
     this.googleSearch = new GoogleScholarshipSearchService()
-    this.geminiAI = new GeminiAIService()
+    this.geminiAI = getGeminiAIService()
     this.ingestionService = new ScholarshipIngestionService()
+    this.scholarshipRepository = new ScholarshipRepository()
   }
 
   async search(options: SearchOptions): Promise<SearchResult> {
@@ -177,31 +172,18 @@ export class AdvancedSearchEngine {
   }
 
   private async searchDatabase(options: SearchOptions): Promise<EnhancedScholarship[]> {
-    // In a real implementation, this would query the database
-    // For now, return mock data
-    const mockScholarships: Scholarship[] = [
-      {
-        id: '1',
-        name: 'DAAD Graduate School Scholarship',
-        sourceUrl: 'https://www.daad.de/en/study-and-research-in-germany/scholarships/',
-        domain: 'daad.de',
-        country: 'Germany',
-        degreeLevels: ['master', 'phd'],
-        fields: ['computer science', 'engineering', 'natural sciences'],
-        deadline: new Date('2024-10-31'),
-        stipend: 1200,
-        tuitionCovered: true,
-        travelSupport: true,
-        eligibilityText: 'Open to international students with excellent academic records',
-        requirements: ['Bachelor degree', 'English proficiency', 'Research proposal'],
-        tags: ['fully-funded', 'international', 'research'],
-        confidence: 0.95,
-        createdAt: new Date(),
-        updatedAt: new Date()
-      }
-    ]
-
-    return mockScholarships.map(scholarship => ({
+    const filters = options.filters || {}
+    const scholarships = await this.scholarshipRepository.findMany({
+      countries: filters.countries,
+      degreeLevels: filters.degreeLevels,
+      deadlineBefore: filters.deadlineBefore,
+      deadlineAfter: filters.deadlineAfter,
+      minStipend: filters.minStipend,
+      domains: filters.domains,
+      search: filters.search
+    }, { limit: MAX_PAGE_SIZE })
+
+    return scholarships.map(scholarship => ({
       ...scholarship,
       matchScore: 0, // Will be calculated later
       matchReasons: [],
@@ -214,7 +196,7 @@ export class AdvancedSearchEngine {
     try {
       const searchResults = await this.googleSearch.findScholarships({
         degreeLevel: options.profile.degreeTarget,
-        field: options.profile.fieldKeywords[0],
+        field: options.profile.fields[0],
         country: options.filters?.countries?.[0],
         limit: 20
       })
@@ -227,7 +209,7 @@ export class AdvancedSearchEngine {
         domain: result.displayLink,
         country: this.extractCountryFromDomain(result.displayLink),
         degreeLevels: [options.profile.degreeTarget],
-        fields: options.profile.fieldKeywords,
+        fields: options.profile.fields,
         deadline: new Date(Date.now() + 6 * 30 * 24 * 60 * 60 * 1000), // 6 months from now
         stipend: undefined,
         tuitionCovered: result.snippet.toLowerCase().includes('tuition'),
@@ -256,7 +238,7 @@ export class AdvancedSearchEngine {
       const ingestionResults = await this.ingestionService.ingestScholarships({
         sources: ['google'],
         degreeLevel: options.profile.degreeTarget,
-        field: options.profile.fieldKeywords[0],
+        field: options.profile.fields[0],
         limit: 10
       })
 
@@ -356,20 +338,21 @@ export class AdvancedSearchEngine {
       const reasons: string[] = []
 
       // Degree level match (30% weight)
-      if (scholarship.degreeLevels.includes(profile.degreeTarget)) {
+      const degree = profile.degreeTarget.toLowerCase()
+      if (degree && scholarship.degreeLevels.some(level => level.toLowerCase() === degree)) {
         score += 30
         reasons.push(`Matches your target degree: ${profile.degreeTarget}`)
       }
 
       // Field keywords match (25% weight)
-      const fieldMatches = profile.fieldKeywords.filter(keyword =>
+      const fieldMatches = profile.fields.filter(keyword =>
         scholarship.fields.some(field =>
           field.toLowerCase().includes(keyword.toLowerCase()) ||
           keyword.toLowerCase().includes(field.toLowerCase())
         )
       )
       if (fieldMatches.length > 0) {
-        const fieldScore = Math.min(25, (fieldMatches.length / profile.fieldKeywords.length) * 25)
+        const fieldScore = Math.min(25, (fieldMatches.length / profile.fields.length) * 25)
         score += fieldScore
         reasons.push(`Field match: ${fieldMatches.join(', ')}`)
       }
@@ -401,7 +384,7 @@ export class AdvancedSearchEngine {
       }
 
       // Academic qualifications (10% weight)
-      if (profile.gpa && profile.gpa >= 3.5) {
+      if (profile.gpaBand === '>=90' || profile.gpaBand === '80-89') {
         score += 5
         reasons.push('Strong GPA qualifies for competitive scholarships')
       }
@@ -420,7 +403,7 @@ export class AdvancedSearchEngine {
 
   private mergeAIRankings(
     scholarships: EnhancedScholarship[],
-    aiRankings: any[]
+    aiRankings: ScholarshipRanking[]
   ): EnhancedScholarship[] {
     return scholarships.map(scholarship => {
       const aiRanking = aiRankings.find(r => r.scholarshipId === scholarship.id)
@@ -443,7 +426,7 @@ export class AdvancedSearchEngine {
       profile: {
         nationality: options.profile.nationality,
         degreeTarget: options.profile.degreeTarget,
-        fieldKeywords: options.profile.fieldKeywords.sort()
+        fields: [...options.profile.fields].sort()
       },
       filters: options.filters || {},
       sources: options.sources?.sort() || ['database'],
@@ -0,0 +1,267 @@
+import { buildQueries, fanOutSearch } from '@/lib/services/googleSearch';
+import { fetchOfficial, SkippedPage } from '@/lib/services/dataIngestion';
+import { geminiAI } from '@/lib/services/geminiAI';
+import { normalizeScholarship } from '@/lib/utils/dataNormalization';
+import { scoreAll } from '@/lib/scoring/eligibilityScoring';
+import { DEFAULT_SCORING_PROFILE, ScoringProfile } from '@/lib/scoring/scoringProfiles';
+import { geminiRerank, RerankedScholarship } from '@/lib/scoring/reranking';
+import { ScholarshipRepository } from '@/lib/repositories';
+import { cache, cacheKeys } from '@/lib/cache/redis';
+import { logger } from '@/lib/utils/logger';
+import { runWorkerPool } from '@/lib/utils/workerPool';
+import { Scholarship } from '@/types/database';
+import { ProcessingStage } from '@/types';
+import { UserProfile } from '@/types/profile';
+
+export type SearchStageId = 'queries' | 'hits' | 'pages' | 'extract' | 'score' | 'rerank';
+
+export interface SearchStage extends ProcessingStage {
+  id: SearchStageId;
+  count?: number; // Items produced by the stage so far (queries, hits, pages...)
+}
+
+// A page that was dropped because it timed out or the search deadline passed
+export interface SkippedItem extends SkippedPage {
+  stage: 'pages' | 'extract';
+}
+
+export type SearchPipelineEvent =
+  | { type: 'stage'; stage: SearchStage }
+  | { type: 'scholarship'; scholarship: Scholarship }
+  | { type: 'skipped'; item: SkippedItem }
+  | ({ type: 'results' } & SearchPipelineResult)
+  | { type: 'failed'; message: string };
+
+export interface SearchLimits {
+  fetchConcurrency: number; // Page fetches in flight across all hosts
+  perHostConcurrency: number; // Page fetches in flight per host
+  extractConcurrency: number; // Gemini extractions in flight
+  requestTimeoutMs: number; // Timeout for fetching one page
+  extractTimeoutMs: number; // Timeout for extracting one page
+  deadlineMs: number; // Overall budget for fetching and extraction
+}
+
+export interface SearchPipelineOptions {
+  userProfile: UserProfile;
+  officialDomains: string[];
+  limit: number;
+  offset: number;
+  limits?: Partial<SearchLimits>;
+  scoringProfile?: ScoringProfile; // Weights for scoreAll; the built-in defaults when omitted
+  signal?: AbortSignal; // Stops the search, e.g. when the client disconnects
+}
+
+export interface SearchPipelineResult {
+  scholarships: RerankedScholarship[];
+  total: number;
+  skipped: SkippedItem[];
+  ineligible: RerankedScholarship[]; // Failed a required rule; not ranked or counted in total
+  scoringProfile: string; // Name of the scoring profile used, for comparing profiles
+}
+
+const DEFAULT_SEARCH_LIMITS: SearchLimits = {
+  fetchConcurrency: 8,
+  perHostConcurrency: 2,
+  extractConcurrency: 4,
+  requestTimeoutMs: 10000,
+  extractTimeoutMs: 30000,
+  deadlineMs: 60000,
+};
+
+/**
+ * Reads search concurrency and timeout limits from the environment, falling back to defaults.
+ * @returns The effective search limits.
+ */
+export function getSearchLimits(): SearchLimits {
+  const read = (name: string, fallback: number) => {
+    const value = parseInt(process.env[name] || '', 10);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+  };
+
+  return {
+    fetchConcurrency: read('SEARCH_FETCH_CONCURRENCY', DEFAULT_SEARCH_LIMITS.fetchConcurrency),
+    perHostConcurrency: read('SEARCH_PER_HOST_CONCURRENCY', DEFAULT_SEARCH_LIMITS.perHostConcurrency),
+    extractConcurrency: read('SEARCH_EXTRACT_CONCURRENCY', DEFAULT_SEARCH_LIMITS.extractConcurrency),
+    requestTimeoutMs: read('SEARCH_REQUEST_TIMEOUT_MS', DEFAULT_SEARCH_LIMITS.requestTimeoutMs),
+    extractTimeoutMs: read('SEARCH_EXTRACT_TIMEOUT_MS', DEFAULT_SEARCH_LIMITS.extractTimeoutMs),
+    deadlineMs: read('SEARCH_DEADLINE_MS', DEFAULT_SEARCH_LIMITS.deadlineMs),
+  };
+}
+
+// Stage order and display names; the client renders them as a progress bar
+const STAGE_NAMES: Record<SearchStageId, string> = {
+  queries: 'Building queries',
+  hits: 'Searching the web',
+  pages: 'Fetching official pages',
+  extract: 'Extracting scholarships',
+  score: 'Scoring matches',
+  rerank: 'Reranking results',
+};
+
+const scholarshipRepository = new ScholarshipRepository();
+
+/**
+ * Runs the full search pipeline: CSE fan-out, page fetching, Gemini extraction,
+ * normalization, persistence, scoring and reranking. Scholarships that fail a required
+ * eligibility rule are left out of the ranking and returned separately with their reasons.
+ * Progress is reported through `onEvent` so callers can stream it to the client. Aborting
+ * `options.signal` stops crawling and LLM calls and rejects with the cancellation.
+ * @param options - Profile, allowlisted domains, pagination and cancellation signal.
+ * @param onEvent - Optional listener for stage, scholarship and result events.
+ * @returns The requested page of ranked scholarships and the total count.
+ */
+export async function runSearchPipeline(
+  options: SearchPipelineOptions,
+  onEvent: (event: SearchPipelineEvent) => void = () => {}
+): Promise<SearchPipelineResult> {
+  const { userProfile, officialDomains, limit, offset, scoringProfile = DEFAULT_SCORING_PROFILE, signal } = options;
+  const limits = { ...getSearchLimits(), ...options.limits };
+  const deadline = Date.now() + limits.deadlineMs;
+  const skipped: SkippedItem[] = [];
+  const reportSkipped = (item: SkippedItem) => {
+    skipped.push(item);
+    onEvent({ type: 'skipped', item });
+  };
+  const stages = new Map<SearchStageId, SearchStage>(
+    (Object.keys(STAGE_NAMES) as SearchStageId[]).map(id => [
+      id,
+      { id, name: STAGE_NAMES[id], status: 'pending', progress: 0 },
+    ])
+  );
+
+  // Called between stages so a cancelled search starts no further work
+  const throwIfCancelled = () => {
+    if (signal?.aborted) throw new Error('Search was cancelled');
+  };
+
+  const updateStage = (id: SearchStageId, update: Partial<SearchStage>) => {
+    const stage = { ...stages.get(id)!, ...update };
+    if (update.status === 'processing' && !stage.startTime) stage.startTime = new Date();
+    if (update.status === 'complete' || update.status === 'error') stage.endTime = new Date();
+    stages.set(id, stage);
+    onEvent({ type: 'stage', stage });
+  };
+
+  // Announce every stage up front so the client knows the full sequence
+  stages.forEach(stage => onEvent({ type: 'stage', stage }));
+
+  let currentStage: SearchStageId = 'queries';
+  try {
+    updateStage('queries', { status: 'processing' });
+    const queries = buildQueries(userProfile, officialDomains);
+    updateStage('queries', { status: 'complete', progress: 100, count: queries.length });
+
+    currentStage = 'hits';
+    updateStage('hits', { status: 'processing' });
+    const searchHits = await fanOutSearch(queries);
+    throwIfCancelled();
+    updateStage('hits', { status: 'complete', progress: 100, count: searchHits.length });
+
+    currentStage = 'pages';
+    updateStage('pages', { status: 'processing' });
+    const officialPages = await fetchOfficial(searchHits, {
+      concurrency: limits.fetchConcurrency,
+      perHostConcurrency: limits.perHostConcurrency,
+      timeoutMs: limits.requestTimeoutMs,
+      deadline,
+      officialDomains,
+      onSkipped: page => reportSkipped({ ...page, stage: 'pages' }),
+      signal,
+    });
+    throwIfCancelled();
+    updateStage('pages', { status: 'complete', progress: 100, count: officialPages.length });
+
+    // Extract concurrently and stream each scholarship as soon as it exists
+    currentStage = 'extract';
+    updateStage('extract', { status: 'processing', count: 0 });
+    let processed = 0;
+    let extractedCount = 0;
+    const extractOutcomes = await runWorkerPool(officialPages, async (page, signal) => {
+      try {
+        const extracted = await geminiAI.geminiExtract(page, signal);
+        // Results arriving after the timeout or deadline were already reported as skipped
+        if (!extracted || signal.aborted) return null;
+
+        const scholarship = normalizeScholarship(extracted);
+        await persistScholarship(scholarship);
+        extractedCount++;
+        onEvent({ type: 'scholarship', scholarship });
+        return scholarship;
+      } finally {
+        if (!signal.aborted) {
+          processed++;
+          updateStage('extract', {
+            progress: Math.round((processed / officialPages.length) * 100),
+            count: extractedCount,
+          });
+        }
+      }
+    }, {
+      concurrency: limits.extractConcurrency,
+      timeoutMs: limits.extractTimeoutMs,
+      deadline,
+      signal,
+    });
+    throwIfCancelled();
+
+    const normalizedScholarships: Scholarship[] = [];
+    extractOutcomes.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled' && outcome.value) {
+        normalizedScholarships.push(outcome.value);
+      } else if (outcome.status === 'skipped') {
+        reportSkipped({ url: officialPages[index].url, reason: outcome.reason, stage: 'extract' });
+      } else if (outcome.status === 'rejected') {
+        logger.error('Scholarship extraction failed', outcome.reason instanceof Error ? outcome.reason : new Error(String(outcome.reason)));
+      }
+    });
+    updateStage('extract', { status: 'complete', progress: 100 });
+
+    currentStage = 'score';
+    updateStage('score', { status: 'processing' });
+    const scoredScholarships = scoreAll(normalizedScholarships, userProfile, scoringProfile);
+    // Scholarships the applicant cannot apply for never take a ranked slot
+    const candidates = scoredScholarships.filter(s => s.eligibility !== 'ineligible');
+    const ineligible = scoredScholarships
+      .filter(s => s.eligibility === 'ineligible')
+      .sort((a, b) => b.fitScore - a.fitScore);
+    updateStage('score', { status: 'complete', progress: 100, count: candidates.length });
+
+    currentStage = 'rerank';
+    updateStage('rerank', { status: 'processing' });
+    const rerankedScholarships = await geminiRerank(userProfile, candidates);
+    updateStage('rerank', { status: 'complete', progress: 100, count: rerankedScholarships.length });
+
+    const result = {
+      scholarships: rerankedScholarships.slice(offset, offset + limit),
+      total: rerankedScholarships.length,
+      skipped,
+      ineligible,
+      scoringProfile: scoringProfile.name,
+    };
+    onEvent({ type: 'results', ...result });
+    return result;
+  } catch (error) {
+    updateStage(currentStage, { status: 'error' });
+    onEvent({ type: 'failed', message: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+}
+
+/**
+ * Upserts a freshly extracted scholarship and drops its cached details if any field changed.
+ * Persistence failures are logged and never fail the search itself.
+ * @param scholarship - Normalized scholarship from this search.
+ */
+async function persistScholarship(scholarship: Scholarship): Promise<void> {
+  if (!scholarship.sourceUrl) return;
+
+  try {
+    // Stores manage timestamps themselves, so the extracted createdAt/updatedAt are ignored
+    const { scholarship: stored, changes } = await scholarshipRepository.upsertBySourceUrl(scholarship);
+    if (changes.length > 0) {
+      await cache.del(cacheKeys.scholarship.details(stored.id));
+    }
+  } catch (error) {
+    logger.error('Failed to persist scholarship', error instanceof Error ? error : new Error(String(error)));
+  }
+}
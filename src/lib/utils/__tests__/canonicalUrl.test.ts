@@ -0,0 +1,22 @@
+import { canonicalizeUrl, canonicalUrlHash } from '../canonicalUrl'
+
+describe('canonicalizeUrl', () => {
+  it('should normalize scheme, host, tracking params and trailing slashes', () => {
+    expect(canonicalizeUrl('http://WWW.DAAD.de:80/en/scholarships/?utm_source=x&b=2&a=1#apply'))
+      .toBe('https://daad.de/en/scholarships?a=1&b=2')
+  })
+
+  it('should return unparseable input unchanged apart from whitespace', () => {
+    expect(canonicalizeUrl('  not a url ')).toBe('not a url')
+  })
+})
+
+describe('canonicalUrlHash', () => {
+  it('should give equivalent URLs the same hash', () => {
+    const hash = canonicalUrlHash('https://www.chevening.org/scholarships/')
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/)
+    expect(canonicalUrlHash('http://chevening.org/scholarships?fbclid=abc')).toBe(hash)
+    expect(canonicalUrlHash('https://chevening.org/apply')).not.toBe(hash)
+  })
+})
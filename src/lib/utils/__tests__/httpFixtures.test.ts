@@ -0,0 +1,88 @@
+/**
+ * @jest-environment node
+ */
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { fixtureFileFor, httpFetch, redactUrl } from '../httpFixtures'
+
+describe('httpFetch', () => {
+  const originalEnv = process.env
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'http-fixtures-'))
+    process.env = { ...originalEnv, HTTP_FIXTURES_DIR: directory }
+    global.fetch = jest.fn(async () => new Response('{"items":[]}', {
+      status: 200,
+      headers: { 'content-type': 'application/json', 'set-cookie': 'session=secret' }
+    }))
+  })
+
+  afterEach(async () => {
+    process.env = originalEnv
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  it('should pass straight through to fetch when fixtures are off', async () => {
+    const response = await httpFetch('https://www.googleapis.com/customsearch/v1?q=daad')
+
+    expect(await response.json()).toEqual({ items: [] })
+    expect(await fs.readdir(directory)).toEqual([])
+  })
+
+  it('should record responses without credentials and replay them offline', async () => {
+    const url = 'https://www.googleapis.com/customsearch/v1?key=SECRET&cx=engine&q=daad'
+
+    process.env.HTTP_FIXTURES_MODE = 'record'
+    await httpFetch(url)
+    const [file] = await fs.readdir(directory)
+    const recorded = await fs.readFile(path.join(directory, file), 'utf8')
+    expect(recorded).not.toContain('SECRET')
+    expect(recorded).not.toContain('session=secret')
+
+    process.env.HTTP_FIXTURES_MODE = 'replay'
+    ;(global.fetch as jest.Mock).mockClear()
+    // A different key still hits the same recording
+    const replayed = await httpFetch('https://www.googleapis.com/customsearch/v1?key=OTHER&cx=engine&q=daad')
+
+    expect(global.fetch).not.toHaveBeenCalled()
+    expect(replayed.status).toBe(200)
+    expect(replayed.headers.get('content-type')).toBe('application/json')
+    expect(await replayed.json()).toEqual({ items: [] })
+  })
+
+  it('should record binary bodies as base64 and replay the exact bytes', async () => {
+    const bytes = new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x00, 0xff, 0xfe])
+    global.fetch = jest.fn(async () => new Response(bytes, { headers: { 'content-type': 'application/pdf' } }))
+
+    process.env.HTTP_FIXTURES_MODE = 'record'
+    await httpFetch('https://www.daad.de/call.pdf')
+    const [file] = await fs.readdir(directory)
+    const recorded = JSON.parse(await fs.readFile(path.join(directory, file), 'utf8'))
+    expect(recorded.response.bodyEncoding).toBe('base64')
+
+    process.env.HTTP_FIXTURES_MODE = 'replay'
+    const replayed = await httpFetch('https://www.daad.de/call.pdf')
+
+    expect(new Uint8Array(await replayed.arrayBuffer())).toEqual(bytes)
+  })
+
+  it('should fail replay for requests that were never recorded', async () => {
+    process.env.HTTP_FIXTURES_MODE = 'replay'
+
+    await expect(httpFetch('https://www.daad.de/missing', { method: 'HEAD' }))
+      .rejects.toThrow('No recorded HTTP fixture for HEAD https://www.daad.de/missing')
+  })
+})
+
+describe('fixtureFileFor', () => {
+  it('should key requests by method, redacted URL and body', () => {
+    const file = fixtureFileFor('post', 'https://generativelanguage.googleapis.com/v1beta/models/x?key=A', '{"a":1}')
+
+    expect(file).toMatch(/^generativelanguage\.googleapis\.com\.POST\.[0-9a-f]{16}\.json$/)
+    expect(fixtureFileFor('POST', 'https://generativelanguage.googleapis.com/v1beta/models/x?key=B', '{"a":1}')).toBe(file)
+    expect(fixtureFileFor('POST', 'https://generativelanguage.googleapis.com/v1beta/models/x', '{"a":2}')).not.toBe(file)
+    expect(redactUrl('https://example.com/?key=1&q=2')).toBe('https://example.com/?q=2')
+  })
+})
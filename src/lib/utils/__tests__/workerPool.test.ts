@@ -0,0 +1,115 @@
+import { runWorkerPool, hostKey } from '../workerPool'
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(new Error('aborted'))
+    })
+  })
+
+describe('runWorkerPool', () => {
+  it('should return outcomes in input order', async () => {
+    const outcomes = await runWorkerPool([30, 10, 20], async (ms) => {
+      await delay(ms)
+      return ms * 2
+    }, { concurrency: 3 })
+
+    expect(outcomes).toEqual([
+      { status: 'fulfilled', value: 60 },
+      { status: 'fulfilled', value: 20 },
+      { status: 'fulfilled', value: 40 },
+    ])
+  })
+
+  it('should respect global and per-key concurrency', async () => {
+    const items = ['a.com/1', 'a.com/2', 'a.com/3', 'b.com/1', 'b.com/2', 'c.com/1']
+    let active = 0
+    let maxActive = 0
+    const activeByHost = new Map<string, number>()
+    let maxPerHost = 0
+
+    await runWorkerPool(items, async (item) => {
+      const host = item.split('/')[0]
+      active++
+      activeByHost.set(host, (activeByHost.get(host) ?? 0) + 1)
+      maxActive = Math.max(maxActive, active)
+      maxPerHost = Math.max(maxPerHost, activeByHost.get(host)!)
+      await delay(10)
+      active--
+      activeByHost.set(host, activeByHost.get(host)! - 1)
+    }, { concurrency: 3, perKeyConcurrency: 1, keyOf: item => item.split('/')[0] })
+
+    expect(maxActive).toBe(3)
+    expect(maxPerHost).toBe(1)
+  })
+
+  it('should report rejected tasks without stopping the pool', async () => {
+    const outcomes = await runWorkerPool([1, 2], async (n) => {
+      if (n === 1) throw new Error('boom')
+      return n
+    }, { concurrency: 1 })
+
+    expect(outcomes[0]).toEqual({ status: 'rejected', reason: new Error('boom') })
+    expect(outcomes[1]).toEqual({ status: 'fulfilled', value: 2 })
+  })
+
+  it('should skip and abort tasks that exceed their timeout', async () => {
+    const signals: AbortSignal[] = []
+    const outcomes = await runWorkerPool([5, 200], async (ms, signal) => {
+      signals.push(signal)
+      await delay(ms, signal)
+      return ms
+    }, { concurrency: 2, timeoutMs: 50 })
+
+    expect(outcomes).toEqual([
+      { status: 'fulfilled', value: 5 },
+      { status: 'skipped', reason: 'timeout' },
+    ])
+    expect(signals[1].aborted).toBe(true)
+  })
+
+  it('should skip running and queued tasks once the deadline passes', async () => {
+    const started: number[] = []
+    const outcomes = await runWorkerPool([10, 200, 10, 10], async (ms, signal) => {
+      started.push(ms)
+      await delay(ms, signal)
+      return ms
+    }, { concurrency: 2, perKeyConcurrency: 1, keyOf: () => 'same-host', deadline: Date.now() + 60 })
+
+    expect(outcomes).toEqual([
+      { status: 'fulfilled', value: 10 },
+      { status: 'skipped', reason: 'deadline' },
+      { status: 'skipped', reason: 'deadline' },
+      { status: 'skipped', reason: 'deadline' },
+    ])
+    expect(started).toEqual([10, 200])
+  })
+
+  it('should abort running tasks and skip queued ones when cancelled', async () => {
+    const controller = new AbortController()
+    const signals: AbortSignal[] = []
+    const outcomes = await runWorkerPool([5, 200, 10], async (ms, signal) => {
+      signals.push(signal)
+      if (ms === 200) setTimeout(() => controller.abort(), 10)
+      await delay(ms, signal)
+      return ms
+    }, { concurrency: 2, perKeyConcurrency: 1, keyOf: () => 'same-host', signal: controller.signal })
+
+    expect(outcomes).toEqual([
+      { status: 'fulfilled', value: 5 },
+      { status: 'skipped', reason: 'cancelled' },
+      { status: 'skipped', reason: 'cancelled' },
+    ])
+    expect(signals).toHaveLength(2)
+    expect(signals[1].aborted).toBe(true)
+  })
+})
+
+describe('hostKey', () => {
+  it('should extract a lowercased host', () => {
+    expect(hostKey('https://WWW.Daad.de/en/')).toBe('www.daad.de')
+    expect(hostKey('not a url')).toBe('')
+  })
+})
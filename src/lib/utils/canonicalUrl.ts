@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+
+// Query parameters that only track the visit and never change page content
+const TRACKING_PARAMS = [/^utm_/i, /^gclid$/i, /^fbclid$/i, /^mc_(cid|eid)$/i, /^ref$/i];
+
+/**
+ * Canonicalizes a URL so the same page reached via different links maps to one identity.
+ * Lowercases the host, drops "www.", upgrades http to https, removes fragments,
+ * tracking parameters and trailing slashes, and sorts the remaining query parameters.
+ * @param url - Absolute URL to canonicalize.
+ * @returns The canonical URL string, or the trimmed input if it cannot be parsed.
+ */
+export function canonicalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+
+  parsed.protocol = 'https:';
+  parsed.hostname = parsed.hostname.toLowerCase().replace(/^www\./, '');
+  parsed.port = '';
+  parsed.hash = '';
+
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([key]) => !TRACKING_PARAMS.some(pattern => pattern.test(key)))
+    .sort(([a], [b]) => a.localeCompare(b));
+  parsed.search = new URLSearchParams(params).toString();
+
+  if (parsed.pathname.length > 1) {
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+  }
+
+  return parsed.toString();
+}
+
+/**
+ * Stable identity for a page: SHA-256 of its canonical URL.
+ * @param url - Absolute URL.
+ * @returns Hex-encoded hash.
+ */
+export function canonicalUrlHash(url: string): string {
+  return crypto.createHash('sha256').update(canonicalizeUrl(url)).digest('hex');
+}
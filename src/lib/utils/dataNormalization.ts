@@ -1,21 +1,21 @@
 import { Scholarship } from '@/types/database';
+import { canonicalizeUrl, canonicalUrlHash } from '@/lib/utils/canonicalUrl';
+import type { ExtractedScholarship } from '@/lib/services/extractionSchema';
 
 /**
  * Normalizes extracted scholarship data to conform to the Scholarship interface.
  * This function ensures data consistency and handles any necessary transformations.
- * @param extractedData - The data extracted by Gemini.
+ * @param extractedData - The data extracted by Gemini, already validated against the extraction schema.
  * @returns A normalized Scholarship object.
  */
-export function normalizeScholarship(extractedData: any): Scholarship {
-  // This is a placeholder for more complex normalization logic.
-  // It assumes extractedData is already close to the Scholarship interface.
-  // In a real scenario, you would add more robust validation and transformation here.
+export function normalizeScholarship(extractedData: ExtractedScholarship): Scholarship {
+  const link: string = extractedData.sourceUrl || extractedData.link || '';
 
   const normalized: Scholarship = {
-    id: extractedData.id || `sch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    id: extractedData.id || (link ? canonicalUrlHash(link) : `sch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`),
     name: extractedData.name || 'Untitled Scholarship',
-    sourceUrl: extractedData.link || '', // Assuming 'link' from extracted data maps to sourceUrl
-    domain: extractedData.source_domain || new URL(extractedData.link || 'http://example.com').hostname,
+    sourceUrl: link ? canonicalizeUrl(link) : '', // Canonical form so re-extracted pages upsert onto the same record
+    domain: extractedData.source_domain || new URL(link || 'http://example.com').hostname,
     country: extractedData.country || 'Unknown',
     degreeLevels: extractedData.degree_levels || [],
     fields: extractedData.fields || [],
@@ -39,11 +39,12 @@ export function normalizeScholarship(extractedData: any): Scholarship {
     confidence: 1.0, // Default confidence, will be updated by scoring
     createdAt: extractedData.updatedAt ? new Date(extractedData.updatedAt) : new Date(),
     updatedAt: new Date(),
+    promptVersion: extractedData.promptVersion,
   };
 
   // Map eligibility_rules to requirements or other fields as needed
   if (extractedData.eligibility_rules && Array.isArray(extractedData.eligibility_rules)) {
-    normalized.requirements = extractedData.eligibility_rules.map((rule: any) => JSON.stringify(rule));
+    normalized.requirements = extractedData.eligibility_rules.map(rule => JSON.stringify(rule));
   }
 
   return normalized;
@@ -0,0 +1,178 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// off: plain fetch; record: fetch and save every response; replay: serve saved responses only
+export type HttpFixturesMode = 'off' | 'record' | 'replay';
+
+export const DEFAULT_HTTP_FIXTURES_DIR = 'fixtures/http';
+
+// Credentials and per-deployment ids that must never end up in fixture files or
+// fixture keys, so recordings are safe to commit and replay with any configuration
+const REDACTED_PARAMS = ['key', 'api_key', 'apikey', 'access_token', 'cx'];
+
+export interface HttpFixture {
+  request: {
+    method: string;
+    url: string; // Credentials removed
+    body?: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+    bodyEncoding?: 'base64'; // Binary bodies such as PDFs
+  };
+}
+
+/**
+ * Current fixtures mode from `HTTP_FIXTURES_MODE`; anything unrecognised means off.
+ * @returns The fixtures mode.
+ */
+export function getHttpFixturesMode(): HttpFixturesMode {
+  const mode = process.env.HTTP_FIXTURES_MODE;
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+/**
+ * Directory fixtures are read from and written to, from `HTTP_FIXTURES_DIR`.
+ * @returns The fixtures directory.
+ */
+export function getHttpFixturesDir(): string {
+  return process.env.HTTP_FIXTURES_DIR || DEFAULT_HTTP_FIXTURES_DIR;
+}
+
+/**
+ * Removes credentials and deployment ids from a URL's query string.
+ * @param url - Absolute URL.
+ * @returns The URL without redacted parameters.
+ */
+export function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    REDACTED_PARAMS.forEach(param => parsed.searchParams.delete(param));
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * File name a request is recorded under: host, method and a hash of the redacted request.
+ * @param method - HTTP method.
+ * @param url - Request URL.
+ * @param body - Request body, if any.
+ * @returns File name such as `www.daad.de.GET.0f3a...json`.
+ */
+export function fixtureFileFor(method: string, url: string, body?: string): string {
+  const redacted = redactUrl(url);
+  const hash = crypto
+    .createHash('sha256')
+    .update(`${method.toUpperCase()} ${redacted}\n${body ?? ''}`)
+    .digest('hex')
+    .slice(0, 16);
+
+  let host = 'unknown-host';
+  try {
+    host = new URL(redacted).hostname;
+  } catch {
+    // Relative or malformed URLs share one prefix
+  }
+  return `${host}.${method.toUpperCase()}.${hash}.json`;
+}
+
+/**
+ * Drop-in replacement for `fetch` used by every outbound call of the search pipeline
+ * (search providers, page fetching, Gemini). Depending on `HTTP_FIXTURES_MODE` it passes
+ * through, records responses to `HTTP_FIXTURES_DIR`, or replays them without any network
+ * access. Replay fails loudly when a request was never recorded.
+ * @param url - Absolute request URL.
+ * @param init - Fetch options; only string bodies are supported when recording or replaying.
+ * @returns The live or recorded response.
+ */
+export async function httpFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const mode = getHttpFixturesMode();
+  if (mode === 'off') {
+    return fetch(url, init);
+  }
+
+  const method = (init.method || 'GET').toUpperCase();
+  const body = typeof init.body === 'string' ? init.body : undefined;
+  const file = path.resolve(getHttpFixturesDir(), fixtureFileFor(method, url, body));
+
+  if (mode === 'replay') {
+    let fixture: HttpFixture;
+    try {
+      fixture = JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`No recorded HTTP fixture for ${method} ${redactUrl(url)} (expected ${file})`);
+      }
+      throw error;
+    }
+    return toResponse(fixture);
+  }
+
+  const response = await fetch(url, init);
+  const headers = pickHeaders(response.headers);
+  const binary = !isTextContentType(headers['content-type']);
+  let responseBody = '';
+  if (method !== 'HEAD') {
+    responseBody = binary
+      ? Buffer.from(await response.clone().arrayBuffer()).toString('base64')
+      : await response.clone().text();
+  }
+
+  const fixture: HttpFixture = {
+    request: { method, url: redactUrl(url), ...(body !== undefined ? { body } : {}) },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body: responseBody,
+      ...(binary && responseBody ? { bodyEncoding: 'base64' as const } : {}),
+    },
+  };
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`);
+  return response;
+}
+
+/**
+ * Headers worth keeping in a fixture; cookies and other per-session headers are dropped.
+ * @param headers - Live response headers.
+ * @returns The recorded subset.
+ */
+function pickHeaders(headers: Headers): Record<string, string> {
+  const recorded: Record<string, string> = {};
+  ['content-type', 'content-length', 'retry-after'].forEach(name => {
+    const value = headers.get(name);
+    if (value !== null) recorded[name] = value;
+  });
+  return recorded;
+}
+
+/**
+ * Whether a body can be stored as text; anything else is recorded as base64.
+ * @param contentType - Content-Type header value, if any.
+ * @returns True for text, JSON, XML and JavaScript bodies, and when the type is unknown.
+ */
+function isTextContentType(contentType?: string): boolean {
+  if (!contentType) return true;
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  return type.startsWith('text/') || /[/+](json|xml|javascript)$/.test(type);
+}
+
+/**
+ * Rebuilds a Response from a fixture.
+ * @param fixture - Recorded exchange.
+ * @returns The replayed response.
+ */
+function toResponse(fixture: HttpFixture): Response {
+  const { status, statusText, headers, body, bodyEncoding } = fixture.response;
+  // Null-body statuses reject any body, even an empty string
+  const hasBody = body !== '' && ![204, 304].includes(status);
+  const content = bodyEncoding === 'base64' ? new Uint8Array(Buffer.from(body, 'base64')) : body;
+  return new Response(hasBody ? content : null, { status, statusText, headers });
+}
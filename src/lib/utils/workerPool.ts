@@ -0,0 +1,128 @@
+// Why an item was not processed: the overall deadline passed, its own timeout fired or the run was cancelled
+export type SkipReason = 'deadline' | 'timeout' | 'cancelled';
+
+export type PoolOutcome<R> =
+  | { status: 'fulfilled'; value: R }
+  | { status: 'rejected'; reason: unknown }
+  | { status: 'skipped'; reason: SkipReason };
+
+export interface WorkerPoolOptions<T> {
+  concurrency: number; // Maximum tasks running at once
+  perKeyConcurrency?: number; // Maximum tasks running at once for the same key (e.g. host)
+  keyOf?: (item: T) => string;
+  timeoutMs?: number; // Per-task timeout
+  deadline?: number; // Epoch ms after which no task starts and running tasks are abandoned
+  signal?: AbortSignal; // Cancels the run: no task starts and running tasks are aborted
+}
+
+/**
+ * Runs `worker` over `items` with bounded global and per-key concurrency.
+ * Tasks that exceed their timeout, or are still queued or running when the deadline
+ * passes or the run is cancelled, are aborted through their AbortSignal and reported as skipped.
+ * @param items - Items to process.
+ * @param worker - Async task for one item; should honour the abort signal.
+ * @param options - Concurrency, timeout, deadline and cancellation settings.
+ * @returns One outcome per item, in input order.
+ */
+export function runWorkerPool<T, R>(
+  items: T[],
+  worker: (item: T, signal: AbortSignal) => Promise<R>,
+  options: WorkerPoolOptions<T>
+): Promise<PoolOutcome<R>[]> {
+  const { concurrency, perKeyConcurrency = Infinity, keyOf, timeoutMs, deadline, signal } = options;
+
+  return new Promise(resolve => {
+    const outcomes: PoolOutcome<R>[] = new Array(items.length);
+    const pending = items.map((_, index) => index);
+    const activeByKey = new Map<string, number>();
+    let active = 0;
+    let settled = 0;
+
+    if (items.length === 0) {
+      resolve(outcomes);
+      return;
+    }
+
+    const settle = (index: number, outcome: PoolOutcome<R>) => {
+      outcomes[index] = outcome;
+      settled++;
+      if (settled === items.length) resolve(outcomes);
+    };
+
+    const launch = (index: number) => {
+      const key = keyOf?.(items[index]);
+      active++;
+      if (key !== undefined) activeByKey.set(key, (activeByKey.get(key) ?? 0) + 1);
+
+      const controller = new AbortController();
+      const untilDeadline = deadline !== undefined ? deadline - Date.now() : Infinity;
+      const limit = Math.min(timeoutMs ?? Infinity, untilDeadline);
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      let cancel: (() => void) | undefined;
+
+      const expired = new Promise<PoolOutcome<R>>(resolveExpired => {
+        cancel = () => {
+          controller.abort();
+          resolveExpired({ status: 'skipped', reason: 'cancelled' });
+        };
+        signal?.addEventListener('abort', cancel, { once: true });
+        if (limit === Infinity) return;
+        timer = setTimeout(() => {
+          controller.abort();
+          resolveExpired({ status: 'skipped', reason: untilDeadline <= (timeoutMs ?? Infinity) ? 'deadline' : 'timeout' });
+        }, Math.max(limit, 0));
+      });
+
+      const work = worker(items[index], controller.signal).then(
+        (value): PoolOutcome<R> => ({ status: 'fulfilled', value }),
+        (reason): PoolOutcome<R> => ({ status: 'rejected', reason })
+      );
+
+      Promise.race([work, expired]).then(outcome => {
+        clearTimeout(timer);
+        if (cancel) signal?.removeEventListener('abort', cancel);
+        active--;
+        if (key !== undefined) activeByKey.set(key, (activeByKey.get(key) ?? 1) - 1);
+        settle(index, outcome);
+        pump();
+      });
+    };
+
+    const pump = () => {
+      if (deadline !== undefined && Date.now() >= deadline) {
+        pending.splice(0).forEach(index => settle(index, { status: 'skipped', reason: 'deadline' }));
+        return;
+      }
+
+      // Start the first queued items whose key still has capacity
+      for (let i = 0; i < pending.length && active < concurrency && !signal?.aborted; ) {
+        const key = keyOf?.(items[pending[i]]);
+        if (key !== undefined && (activeByKey.get(key) ?? 0) >= perKeyConcurrency) {
+          i++;
+          continue;
+        }
+        launch(pending.splice(i, 1)[0]);
+      }
+
+      // Checked after launching too, as the run can be cancelled while a task starts
+      if (signal?.aborted) {
+        pending.splice(0).forEach(index => settle(index, { status: 'skipped', reason: 'cancelled' }));
+      }
+    };
+
+    pump();
+  });
+}
+
+/**
+ * Host of a URL, used as the per-host concurrency key. Unparseable URLs share one key.
+ * @param url - Absolute URL.
+ * @returns Lowercased hostname.
+ */
+export function hostKey(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return '';
+  }
+}
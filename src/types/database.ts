@@ -18,6 +18,8 @@ export interface Scholarship {
   confidence: number
   createdAt: Date
   updatedAt: Date
+  deletedAt?: Date | null // Set when the scholarship is soft-deleted
+  promptVersion?: string // Extraction prompt that produced the record, e.g. 'scholarship-extraction@1'
   // Added eligibility_rules based on specification
   eligibility_rules?: Array<{
     rule: string;
@@ -26,6 +28,23 @@ export interface Scholarship {
     values?: string[];
     optional?: boolean;
     scale?: string;
+    min?: number; // graduation_year window
+    max?: number;
   }>;
 }
 
+
+// A single field-level change between two extractions of the same scholarship
+export interface ScholarshipFieldChange {
+  field: string
+  previous: unknown
+  current: unknown
+}
+
+// Revision recorded whenever a re-extraction changes a known scholarship
+export interface ScholarshipRevision {
+  id: string
+  scholarshipId: string
+  changes: ScholarshipFieldChange[]
+  createdAt: Date
+}
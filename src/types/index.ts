@@ -1,5 +1,7 @@
 // Core type definitions for the scholarship platform
 
+import type { UserProfile } from './profile';
+
 export interface Scholarship {
   id: string;
   name: string;
@@ -19,19 +21,8 @@ export interface Scholarship {
   confidence: number;
 }
 
-export interface UserProfile {
-  id?: string;
-  nationality: string;
-  degreeTarget: DegreeLevel;
-  fieldKeywords: string[];
-  specialStatus: SpecialStatus[];
-  constraints: ProfileConstraint[];
-  gpa?: number;
-  languageTests?: LanguageTest[];
-  publications?: number;
-  workExperience?: number;
-  createdAt: Date;
-}
+// One profile model for the whole app; older clients' shape is converted by `toUserProfile`
+export type { UserProfile };
 
 export interface RankedScholarship extends Scholarship {
   matchScore: number;